@@ -15,6 +15,8 @@ import AdminDashboard from "./pages/AdminDashboard";
 import NotFound from "./pages/NotFound";
 import AuthCallback from "./pages/AuthCallback";
 import Progress from "./pages/Progress";
+import WorkspaceViewer from "./pages/WorkspaceViewer";
+import SnapshotViewer from "./pages/SnapshotViewer";
 
 const queryClient = new QueryClient();
 
@@ -36,6 +38,8 @@ const App = () => (
             <Route path="/mentor" element={<MentorDashboard />} />
             <Route path="/admin" element={<AdminDashboard />} />
             <Route path="/progress" element={<Progress />} />
+            <Route path="/workspace/:submissionId" element={<WorkspaceViewer />} />
+            <Route path="/snapshot/:token" element={<SnapshotViewer />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
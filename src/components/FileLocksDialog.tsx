@@ -0,0 +1,266 @@
+import { useEffect, useMemo, useState } from "react";
+import { EyeOff, Loader2, Lock, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  deleteFileLock,
+  describeLockCondition,
+  loadFileLocks,
+  loadLockablePaths,
+  ManagedFileLock,
+  saveFileLock,
+} from "@/services/FileLockService";
+import type { FileLock, LockCondition } from "@/services/IDEFileSystem";
+
+type ConditionType = "none" | LockCondition["type"];
+
+interface FileLocksDialogProps {
+  submissionId: string | null;
+  milestones: { id: string; title: string; tasks: { id: string; title: string }[] }[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const FileLocksDialog = ({ submissionId, milestones, open, onOpenChange }: FileLocksDialogProps) => {
+  const { toast } = useToast();
+  const [locks, setLocks] = useState<ManagedFileLock[]>([]);
+  const [paths, setPaths] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const [path, setPath] = useState("");
+  const [mode, setMode] = useState<FileLock["mode"]>("readonly");
+  const [conditionType, setConditionType] = useState<ConditionType>("milestone");
+  const [target, setTarget] = useState("");
+  const [reason, setReason] = useState("");
+
+  const titles = useMemo(() => {
+    const result: Record<string, string> = {};
+    milestones.forEach((m) => {
+      result[m.id] = m.title;
+      m.tasks.forEach((t) => (result[t.id] = t.title));
+    });
+    return result;
+  }, [milestones]);
+
+  useEffect(() => {
+    if (!open || !submissionId) return;
+    let cancelled = false;
+    setLoading(true);
+    Promise.all([loadFileLocks(submissionId), loadLockablePaths(submissionId)])
+      .then(([items, projectPaths]) => {
+        if (cancelled) return;
+        setLocks(items);
+        setPaths(projectPaths);
+      })
+      .catch((err) => console.warn("Failed to load file locks:", err))
+      .finally(() => !cancelled && setLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [open, submissionId]);
+
+  const buildCondition = (): LockCondition | undefined => {
+    if (conditionType === "milestone") return { type: "milestone", milestoneId: target };
+    if (conditionType === "task") return { type: "task", taskId: target };
+    if (conditionType === "tests") {
+      const testPaths = target.split(",").map((p) => p.trim().replace(/^\/+/, "")).filter(Boolean);
+      return { type: "tests", paths: testPaths.map((p) => `/${p}`) };
+    }
+    return undefined;
+  };
+
+  const addLock = async () => {
+    if (!submissionId || !path.trim()) return;
+    setSaving(true);
+    try {
+      const saved = await saveFileLock(submissionId, path.trim().replace(/^\/+|\/+$/g, ""), {
+        mode,
+        until: buildCondition(),
+        reason: reason.trim() || undefined,
+      });
+      setLocks((prev) => [...prev.filter((l) => l.path !== saved.path), saved].sort((a, b) => a.path.localeCompare(b.path)));
+      setPath("");
+      setReason("");
+      toast({ title: "Lock saved", description: saved.path });
+    } catch (err) {
+      toast({
+        title: "Could not save lock",
+        description: err instanceof Error ? err.message : String(err),
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const removeLock = async (lock: ManagedFileLock) => {
+    try {
+      await deleteFileLock(lock.id);
+      setLocks((prev) => prev.filter((l) => l.id !== lock.id));
+    } catch (err) {
+      toast({
+        title: "Could not remove lock",
+        description: err instanceof Error ? err.message : String(err),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const needsTarget = conditionType !== "none";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>File Locks</DialogTitle>
+          <DialogDescription>
+            Make files or folders read-only or hidden in the student's workspace, optionally until a milestone is
+            approved, a task is completed or tests pass.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-56 overflow-y-auto">
+          {loading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+            </div>
+          ) : locks.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No locks yet.</p>
+          ) : (
+            locks.map((lock) => (
+              <div key={lock.id} className="flex items-start gap-2 p-2 rounded-md bg-muted/50">
+                {lock.mode === "hidden" ? (
+                  <EyeOff className="w-4 h-4 mt-0.5 text-muted-foreground shrink-0" />
+                ) : (
+                  <Lock className="w-4 h-4 mt-0.5 text-muted-foreground shrink-0" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-mono truncate">{lock.path}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {lock.mode === "hidden" ? "Hidden" : "Read-only"} {describeLockCondition(lock.until, titles)}
+                  </p>
+                  {lock.reason && <p className="text-xs text-muted-foreground italic">{lock.reason}</p>}
+                </div>
+                <Button size="sm" variant="ghost" className="h-7 w-7 p-0" onClick={() => removeLock(lock)}>
+                  <Trash2 className="w-4 h-4 text-destructive" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="space-y-3 border-t border-border pt-4">
+          <Input
+            placeholder="Path, e.g. src/components/Dashboard.tsx"
+            value={path}
+            onChange={(e) => setPath(e.target.value)}
+            list="file-lock-paths"
+          />
+          <datalist id="file-lock-paths">
+            {paths.map((p) => (
+              <option key={p} value={p} />
+            ))}
+          </datalist>
+          <div className="grid grid-cols-2 gap-2">
+            <Select value={mode} onValueChange={(value) => setMode(value as FileLock["mode"])}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="readonly">Read-only</SelectItem>
+                <SelectItem value="hidden">Hidden</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select
+              value={conditionType}
+              onValueChange={(value) => {
+                setConditionType(value as ConditionType);
+                setTarget("");
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="milestone">Until milestone approved</SelectItem>
+                <SelectItem value="task">Until task completed</SelectItem>
+                <SelectItem value="tests">Until tests pass</SelectItem>
+                <SelectItem value="none">Permanently</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {conditionType === "milestone" && (
+            <Select value={target} onValueChange={setTarget}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a milestone..." />
+              </SelectTrigger>
+              <SelectContent>
+                {milestones.map((m) => (
+                  <SelectItem key={m.id} value={m.id}>
+                    {m.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {conditionType === "task" && (
+            <Select value={target} onValueChange={setTarget}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a task..." />
+              </SelectTrigger>
+              <SelectContent>
+                {milestones.flatMap((m) =>
+                  m.tasks.map((t) => (
+                    <SelectItem key={t.id} value={t.id}>
+                      {m.title} › {t.title}
+                    </SelectItem>
+                  ))
+                )}
+              </SelectContent>
+            </Select>
+          )}
+          {conditionType === "tests" && (
+            <div className="space-y-1">
+              <Input
+                placeholder="Test files, comma-separated, e.g. src/api/auth.test.ts"
+                value={target}
+                onChange={(e) => setTarget(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Each file must exist and pass unmodified: as the project template provided it, or under a permanent
+                lock of its own so the student cannot edit it.
+              </p>
+            </div>
+          )}
+          <Input placeholder="Reason shown to the student (optional)" value={reason} onChange={(e) => setReason(e.target.value)} />
+          <Button
+            className="w-full"
+            onClick={addLock}
+            disabled={saving || !submissionId || !path.trim() || (needsTarget && !target.trim())}
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Plus className="w-4 h-4 mr-2" />}
+            Add Lock
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default FileLocksDialog;
@@ -9,6 +9,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "
 import { useFileSystem } from "@/hooks/useFileSystem";
 import { useProgress } from "@/hooks/useProgress";
 import { useConversationHistory } from "@/hooks/useConversationHistory";
+import { withoutHistory } from "@/services/IDEStorage";
 
 interface Message {
   id: string;
@@ -24,6 +25,9 @@ interface AIChatPanelProps {
   submissionId?: string | null;
   showHeader?: boolean;
   dashboardContext?: Record<string, any>;
+  /** Conversation to resume (e.g. the workspace's); a new one is started when missing */
+  conversationId?: string | null;
+  onConversationChange?: (conversationId: string) => void;
 }
 
 const CHAT_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/bodhit-chat`;
@@ -35,10 +39,13 @@ const AIChatPanel = ({
   submissionId = undefined,
   showHeader = false,
   dashboardContext,
+  conversationId = null,
+  onConversationChange,
 }: AIChatPanelProps) => {
   const { toast } = useToast();
   const {
     currentConversation,
+    loadConversation,
     startNewConversation,
     addMessage,
     saveIntake,
@@ -98,13 +105,40 @@ After you provide and confirm these, I will propose a numbered sequence of miles
   // Progress entries (read-only) for optional inclusion in chat payload
   const { entries: progressEntries } = useProgress();
 
-  // Initialize conversation on mount
+  // Resume the given conversation on mount, or start a new one
   useEffect(() => {
-    if (!currentConversation) {
-      startNewConversation("BODHIT Chat - " + new Date().toLocaleString(), submissionId);
+    if (currentConversation) return;
+    const startNew = () => startNewConversation("BODHIT Chat - " + new Date().toLocaleString(), submissionId);
+    if (!conversationId) {
+      startNew();
+      return;
     }
+    loadConversation(conversationId).then((conv) => {
+      if (!conv) {
+        startNew();
+        return;
+      }
+      setMessages((prev) => [
+        prev[0],
+        ...conv.messages.map(({ id, role, content, type }) => ({ id, role, content, type })),
+      ]);
+      if (conv.intakeConfirmed) {
+        setIntake({
+          projectIdea: conv.projectIdea || "",
+          techStack: conv.techStack || "",
+          skillLevel: conv.skillLevel || "",
+          timeline: conv.timeline || "",
+        });
+        setIntakeConfirmed(true);
+      }
+    });
   }, []);
 
+  const activeConversationId = currentConversation?.id;
+  useEffect(() => {
+    if (activeConversationId) onConversationChange?.(activeConversationId);
+  }, [activeConversationId, onConversationChange]);
+
   useEffect(() => {
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
@@ -139,13 +173,15 @@ After you provide and confirm these, I will propose a numbered sequence of miles
               path: f.path,
               type: f.type,
               language: f.language,
+              // Locked files are read-only; the assistant should not propose edits to them
+              locked: !!fs?.getLock(f.path) || undefined,
             }))
           )
         : undefined;
       const projectFilesContentPayload = allowFileAccess
         ? fs
-          ? JSON.stringify(fs.files)
-          : JSON.stringify(currentFiles)
+          ? JSON.stringify(withoutHistory(fs.files))
+          : JSON.stringify(withoutHistory(currentFiles))
         : undefined;
       const progressEntriesPayload = allowProgressAccess ? JSON.stringify(progressEntries || []) : undefined;
       const dashboardContextPayload =
@@ -346,13 +382,17 @@ After you provide and confirm these, I will propose a numbered sequence of miles
     const operations = Array.isArray(ops) ? ops : [ops];
     const applied: any[] = [];
     for (const op of operations) {
+      const lock = op.action !== "export" && op.path ? fs?.getLock(op.path) : null;
+      if (lock) {
+        applied.push({ ...op, status: "locked", error: lock.reason || `${op.path} is locked` });
+        continue;
+      }
       try {
         switch (op.action) {
           case "create": {
             const path = op.path;
             const content = op.content || "";
-            const language = op.language || "text";
-            if (fs) fs.createFile(path, content, language);
+            if (fs) fs.createFile(path, content, op.language);
             applied.push({ ...op, status: "ok" });
             break;
           }
@@ -370,10 +410,18 @@ After you provide and confirm these, I will propose a numbered sequence of miles
             applied.push({ ...op, status: "ok" });
             break;
           }
-          case "rename": {
+          case "rename":
+          case "move": {
+            // newPath (or a name containing "/") moves; a bare newName renames in place
             const oldPath = op.path;
-            const newName = op.newName || op.newPath;
-            if (fs) fs.renameFile(oldPath, newName);
+            const target = op.newPath || op.to || op.newName;
+            if (fs) {
+              if (op.newPath || op.to || String(target).includes("/")) {
+                fs.moveFile(oldPath, target);
+              } else {
+                fs.renameFile(oldPath, target);
+              }
+            }
             applied.push({ ...op, status: "ok" });
             break;
           }
@@ -404,6 +452,10 @@ After you provide and confirm these, I will propose a numbered sequence of miles
     setPendingFileOps(null);
   };
 
+  const lockedOpPaths: string[] = (Array.isArray(pendingFileOps) ? pendingFileOps : pendingFileOps ? [pendingFileOps] : [])
+    .map((op: { path?: string }) => op.path)
+    .filter((path: string | undefined): path is string => !!path && !!fs?.getLock(path));
+
   const applyMilestoneOps = async (ops: any) => {
     if (!ops) return;
     const operations = Array.isArray(ops) ? ops : [ops];
@@ -783,6 +835,9 @@ After you provide and confirm these, I will propose a numbered sequence of miles
           <div className="space-y-2">
             <pre className="text-xs font-mono bg-muted/50 p-2 rounded">{JSON.stringify(pendingFileOps, null, 2)}</pre>
             <p className="text-sm text-muted-foreground">Review the proposed operations above. Confirm to apply them to your project files.</p>
+            {lockedOpPaths.length > 0 && (
+              <p className="text-sm text-ide-warning">Locked, will be skipped: {lockedOpPaths.join(", ")}</p>
+            )}
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => { setShowFileOpsDialog(false); setPendingFileOps(null); }}>Cancel</Button>
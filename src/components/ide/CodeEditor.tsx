@@ -1,36 +1,225 @@
-import Editor from "@monaco-editor/react";
-import { Loader2 } from "lucide-react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import Editor, { OnMount } from "@monaco-editor/react";
+import { ChevronDown, ChevronUp, GitCompare, GitMerge, History, Loader2, Lock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useFileSystem } from "@/hooks/useFileSystem";
+import { detectLanguage, registerMonacoLanguages } from "@/services/LanguageRegistry";
+import { ConflictChoice, ConflictRegion, findConflicts, resolveConflict } from "@/services/MergeService";
+
+type MonacoEditor = Parameters<OnMount>[0];
 
 interface CodeEditorProps {
   selectedFile: string | null;
   code: string;
   onChange: (value: string | undefined) => void;
+  readOnly?: boolean;
+  onShowHistory?: () => void;
+  /** Scroll to and place the cursor at this position when it changes */
+  revealPosition?: { path: string; line: number; column: number } | null;
+  /** Called on Ctrl/Cmd+S */
+  onSave?: () => void;
+  /** Opens or closes the diff view next to the editor */
+  onToggleCompare?: () => void;
 }
 
-const getLanguage = (path: string | null): string => {
-  if (!path) return "typescript";
-  if (path.endsWith(".tsx") || path.endsWith(".ts")) return "typescript";
-  if (path.endsWith(".jsx") || path.endsWith(".js")) return "javascript";
-  if (path.endsWith(".json")) return "json";
-  if (path.endsWith(".md")) return "markdown";
-  if (path.endsWith(".css")) return "css";
-  if (path.endsWith(".html")) return "html";
-  return "typescript";
-};
+// Highlight the two sides of each conflict between their markers (classes in index.css)
+const conflictDecorations = (conflicts: ConflictRegion[]) =>
+  conflicts.flatMap((c) => {
+    const lines = (start: number, end: number, className: string) =>
+      start <= end
+        ? [
+            {
+              range: { startLineNumber: start, startColumn: 1, endLineNumber: end, endColumn: 1 },
+              options: { isWholeLine: true, className },
+            },
+          ]
+        : [];
+    return [
+      ...lines(c.startLine, c.startLine, "merge-conflict-marker"),
+      ...lines(c.startLine + 1, c.separatorLine - 1, "merge-conflict-local"),
+      ...lines(c.separatorLine, c.separatorLine, "merge-conflict-marker"),
+      ...lines(c.separatorLine + 1, c.endLine - 1, "merge-conflict-upstream"),
+      ...lines(c.endLine, c.endLine, "merge-conflict-marker"),
+    ];
+  });
+
+const CodeEditor = ({
+  selectedFile,
+  code,
+  onChange,
+  readOnly = false,
+  onShowHistory,
+  revealPosition,
+  onSave,
+  onToggleCompare,
+}: CodeEditorProps) => {
+  const { getLock } = useFileSystem();
+  const lock = getLock(selectedFile);
+  const editable = !readOnly && !lock;
+  const editorRef = useRef<MonacoEditor | null>(null);
+  const decorationsRef = useRef<ReturnType<MonacoEditor["createDecorationsCollection"]> | null>(null);
+  const [cursorLine, setCursorLine] = useState(1);
+  // The save command is registered once on mount; read the latest callback through a ref
+  const onSaveRef = useRef(onSave);
+  onSaveRef.current = onSave;
+
+  const revealPendingPosition = () => {
+    const editor = editorRef.current;
+    if (!editor || !revealPosition || revealPosition.path !== selectedFile) return;
+    editor.revealLineInCenter(revealPosition.line);
+    editor.setPosition({ lineNumber: revealPosition.line, column: revealPosition.column });
+    editor.focus();
+  };
+
+  useEffect(revealPendingPosition, [revealPosition, selectedFile]);
+
+  // Conflict markers left by pulling a cloned repository
+  const conflicts = useMemo(() => (code.includes("<<<<<<<") ? findConflicts(code) : []), [code]);
+  const currentConflict = conflicts.find((c) => cursorLine <= c.endLine) || conflicts[0];
+  const currentIndex = currentConflict ? conflicts.indexOf(currentConflict) : -1;
+
+  useEffect(() => {
+    decorationsRef.current?.set(conflictDecorations(conflicts));
+  }, [conflicts, selectedFile]);
+
+  const goToConflict = (index: number) => {
+    const editor = editorRef.current;
+    const conflict = conflicts[(index + conflicts.length) % conflicts.length];
+    if (!editor || !conflict) return;
+    editor.revealLineInCenter(conflict.startLine);
+    editor.setPosition({ lineNumber: conflict.startLine, column: 1 });
+    editor.focus();
+  };
+
+  // Replace the whole region, markers included, as one undoable edit
+  const handleResolve = (conflict: ConflictRegion, choice: ConflictChoice) => {
+    const editor = editorRef.current;
+    const model = editor?.getModel();
+    if (!editor || !model) return;
+    const eol = model.getEOL();
+    const lines = resolveConflict(conflict, choice);
+    const atEnd = conflict.endLine >= model.getLineCount();
+    const range = atEnd
+      ? {
+          startLineNumber: conflict.startLine,
+          startColumn: 1,
+          endLineNumber: conflict.endLine,
+          endColumn: model.getLineMaxColumn(conflict.endLine),
+        }
+      : { startLineNumber: conflict.startLine, startColumn: 1, endLineNumber: conflict.endLine + 1, endColumn: 1 };
+    const text = atEnd || lines.length === 0 ? lines.join(eol) : `${lines.join(eol)}${eol}`;
+    editor.pushUndoStop();
+    editor.executeEdits("merge-conflict", [{ range, text }]);
+    editor.pushUndoStop();
+  };
+
+  const handleMount: OnMount = (editor, monaco) => {
+    editorRef.current = editor;
+    editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyS, () => onSaveRef.current?.());
+    editor.onDidChangeCursorPosition((e) => setCursorLine(e.position.lineNumber));
+    decorationsRef.current = editor.createDecorationsCollection(conflictDecorations(conflicts));
+    revealPendingPosition();
+  };
 
-const CodeEditor = ({ selectedFile, code, onChange }: CodeEditorProps) => {
   return (
     <div className="h-full w-full bg-ide-editor">
-      {selectedFile ? (
+      {selectedFile && lock?.mode === "hidden" ? (
+        <div className="h-full flex items-center justify-center text-muted-foreground">
+          <div className="text-center">
+            <Lock className="w-6 h-6 mx-auto mb-2" />
+            <p className="text-sm">{lock.reason || "This file is locked"}</p>
+          </div>
+        </div>
+      ) : selectedFile ? (
         <>
           <div className="h-9 bg-ide-sidebar border-b border-border flex items-center px-4">
             <span className="text-sm text-muted-foreground">{selectedFile}</span>
+            {lock ? (
+              <span className="ml-2 flex items-center gap-1 text-xs text-ide-warning" title={lock.reason}>
+                <Lock className="w-3 h-3" />
+                {lock.reason || "Locked"}
+              </span>
+            ) : (
+              readOnly && <span className="ml-2 text-xs text-muted-foreground">(read-only)</span>
+            )}
+            <div className="ml-auto flex items-center gap-1">
+              {onToggleCompare && (
+                <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" onClick={onToggleCompare}>
+                  <GitCompare className="w-3 h-3 mr-1" /> Compare
+                </Button>
+              )}
+              {onShowHistory && (
+                <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" onClick={onShowHistory}>
+                  <History className="w-3 h-3 mr-1" /> History
+                </Button>
+              )}
+            </div>
           </div>
+          {currentConflict && (
+            <div className="h-8 bg-ide-sidebar border-b border-border flex items-center gap-1 px-4 text-xs">
+              <GitMerge className="w-3 h-3 mr-1 text-ide-warning" />
+              <span className="text-muted-foreground">
+                Merge conflict {currentIndex + 1} of {conflicts.length}
+              </span>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-6 w-6 p-0"
+                onClick={() => goToConflict(currentIndex - 1)}
+                title="Previous conflict"
+              >
+                <ChevronUp className="w-3 h-3" />
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-6 w-6 p-0"
+                onClick={() => goToConflict(currentIndex + 1)}
+                title="Next conflict"
+              >
+                <ChevronDown className="w-3 h-3" />
+              </Button>
+              {editable && (
+                <div className="ml-auto flex items-center gap-1">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-6 px-2 text-xs text-ide-success"
+                    onClick={() => handleResolve(currentConflict, "local")}
+                  >
+                    Keep Local
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-6 px-2 text-xs text-ide-info"
+                    onClick={() => handleResolve(currentConflict, "upstream")}
+                  >
+                    Take Upstream
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => handleResolve(currentConflict, "both")}
+                  >
+                    Keep Both
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
           <Editor
-            height="calc(100% - 36px)"
-            language={getLanguage(selectedFile)}
+            height={currentConflict ? "calc(100% - 68px)" : "calc(100% - 36px)"}
+            // One model per file, so each tab keeps its own cursor, scroll and folding
+            path={selectedFile}
+            // Models are shared with the project-wide TypeScript service; don't dispose them on unmount
+            keepCurrentModel
+            language={detectLanguage(selectedFile, code)}
             value={code}
             onChange={onChange}
+            beforeMount={registerMonacoLanguages}
+            onMount={handleMount}
             theme="vs-dark"
             loading={
               <div className="flex items-center justify-center h-full">
@@ -53,6 +242,7 @@ const CodeEditor = ({ selectedFile, code, onChange }: CodeEditorProps) => {
               smoothScrolling: true,
               tabSize: 2,
               wordWrap: "on",
+              readOnly: !editable,
             }}
           />
         </>
@@ -0,0 +1,236 @@
+import { useEffect, useState } from "react";
+import { DiffEditor } from "@monaco-editor/react";
+import { Columns2, Loader2, Rows2, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useFileSystem } from "@/hooks/useFileSystem";
+import { useProgress } from "@/hooks/useProgress";
+import { CloneRegistry } from "@/services/CloneRegistry";
+import { GitHubAccount } from "@/services/GitHubAccount";
+import { FileNode } from "@/services/IDEFileSystem";
+import { detectLanguage, registerMonacoLanguages } from "@/services/LanguageRegistry";
+
+export type CompareLayout = "side-by-side" | "stacked";
+
+/** A fixed earlier version of the project, e.g. the previous shared snapshot */
+export interface CompareBaseline {
+  label: string;
+  files: Record<string, FileNode>;
+}
+
+type CompareSource = "file" | "snapshot" | "upstream" | "previous";
+
+interface CompareEditorProps {
+  /** The file being edited; shown as the modified side */
+  path: string | null;
+  /** Current editor content, including unsaved drafts */
+  modified: string;
+  layout: CompareLayout;
+  onLayoutChange: (layout: CompareLayout) => void;
+  onClose: () => void;
+  /** Offered as the "previous" source, and compared against by default */
+  baseline?: CompareBaseline;
+}
+
+interface UpstreamState {
+  content: string | null;
+  loading: boolean;
+  error: string | null;
+}
+
+const CompareEditor = ({ path, modified, layout, onLayoutChange, onClose, baseline }: CompareEditorProps) => {
+  const fs = useFileSystem();
+  const { entries } = useProgress();
+  const [source, setSource] = useState<CompareSource>(baseline ? "previous" : "file");
+  const [otherPath, setOtherPath] = useState("");
+  const [snapshotId, setSnapshotId] = useState("");
+  const [inline, setInline] = useState(false);
+  const [upstream, setUpstream] = useState<UpstreamState>({ content: null, loading: false, error: null });
+
+  const file = path ? fs.files[path] : null;
+  const upstreamMatch = path ? CloneRegistry.find(path) : null;
+  const otherFiles = Object.values(fs.files)
+    .filter((n) => n.type === "file" && n.path !== path)
+    .map((n) => n.path)
+    .sort();
+
+  useEffect(() => {
+    if (source !== "upstream" || !path) return;
+    const match = CloneRegistry.find(path);
+    if (!match) {
+      setUpstream({ content: null, loading: false, error: "This file is not part of a cloned repository" });
+      return;
+    }
+
+    let cancelled = false;
+    setUpstream({ content: null, loading: true, error: null });
+    (async () => {
+      const { owner, repo, branch, baseCommit } = match.clone;
+      try {
+        // Branch clones compare with the branch's latest commit; tag and commit clones with their commit
+        const content = await GitHubAccount.getService().getFileContent(owner, repo, match.relativePath, branch || baseCommit);
+        if (!cancelled) setUpstream({ content, loading: false, error: null });
+      } catch (err) {
+        if (!cancelled) {
+          setUpstream({ content: null, loading: false, error: `Could not load ${owner}/${repo}: ${err}` });
+        }
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [source, path]);
+
+  let original: string | null = null;
+  let originalLabel = "";
+  let message: string | null = null;
+
+  if (source === "file") {
+    original = otherPath ? fs.files[otherPath]?.content ?? null : null;
+    originalLabel = otherPath;
+    if (!otherPath) message = "Pick a file to compare with";
+  } else if (source === "snapshot") {
+    const entry = entries.find((e) => e.id === snapshotId);
+    originalLabel = entry ? `${entry.title} (${new Date(entry.createdAt).toLocaleString()})` : "";
+    if (!entry) {
+      message = entries.length ? "Pick a saved progress snapshot" : "No progress snapshots saved yet";
+    } else if (path && entry.filesSnapshot?.[path]) {
+      original = entry.filesSnapshot[path].content || "";
+    } else {
+      message = "This file is not in the selected snapshot";
+    }
+  } else if (source === "previous") {
+    const previous = path ? baseline?.files[path] : undefined;
+    originalLabel = baseline?.label || "";
+    // Files added since the baseline diff against an empty original
+    original = previous?.type === "file" ? previous.content || "" : "";
+  } else {
+    original = upstream.content;
+    originalLabel = upstreamMatch ? `${upstreamMatch.clone.owner}/${upstreamMatch.clone.repo}` : "";
+    message = upstream.error;
+  }
+
+  return (
+    <div className="h-full flex flex-col bg-ide-editor">
+      <div className="h-9 bg-ide-sidebar border-b border-border flex items-center gap-2 px-2">
+        <Select value={source} onValueChange={(v) => setSource(v as CompareSource)}>
+          <SelectTrigger className="h-7 w-32 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="file">Another file</SelectItem>
+            <SelectItem value="snapshot">Saved progress</SelectItem>
+            <SelectItem value="upstream" disabled={!upstreamMatch}>
+              GitHub upstream
+            </SelectItem>
+            {baseline && <SelectItem value="previous">Previous snapshot</SelectItem>}
+          </SelectContent>
+        </Select>
+
+        {source === "file" && (
+          <Select value={otherPath} onValueChange={setOtherPath}>
+            <SelectTrigger className="h-7 flex-1 min-w-0 text-xs">
+              <SelectValue placeholder="Select file" />
+            </SelectTrigger>
+            <SelectContent>
+              {otherFiles.map((p) => (
+                <SelectItem key={p} value={p} className="text-xs font-mono">
+                  {p}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {source === "snapshot" && (
+          <Select value={snapshotId} onValueChange={setSnapshotId}>
+            <SelectTrigger className="h-7 flex-1 min-w-0 text-xs">
+              <SelectValue placeholder="Select snapshot" />
+            </SelectTrigger>
+            <SelectContent>
+              {entries.map((e) => (
+                <SelectItem key={e.id} value={e.id} className="text-xs">
+                  {e.title} — {new Date(e.createdAt).toLocaleString()}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {(source === "upstream" || source === "previous") && (
+          <span className="flex-1 min-w-0 truncate text-xs text-muted-foreground">{originalLabel}</span>
+        )}
+
+        <div className="ml-auto flex items-center gap-1 shrink-0">
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-6 px-2 text-xs"
+            onClick={() => setInline((v) => !v)}
+            title="Toggle inline diff"
+          >
+            {inline ? "Inline" : "Split"}
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            className={cn("h-6 w-6 p-0", layout === "side-by-side" && "text-primary")}
+            onClick={() => onLayoutChange("side-by-side")}
+            title="Side by side"
+          >
+            <Columns2 className="w-3 h-3" />
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            className={cn("h-6 w-6 p-0", layout === "stacked" && "text-primary")}
+            onClick={() => onLayoutChange("stacked")}
+            title="Stacked"
+          >
+            <Rows2 className="w-3 h-3" />
+          </Button>
+          <Button size="sm" variant="ghost" className="h-6 w-6 p-0" onClick={onClose} title="Close compare">
+            <X className="w-3 h-3" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0">
+        {!file ? (
+          <div className="h-full flex items-center justify-center text-sm text-muted-foreground">
+            Select a file to compare
+          </div>
+        ) : source === "upstream" && upstream.loading ? (
+          <div className="h-full flex items-center justify-center">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : original === null ? (
+          <div className="h-full flex items-center justify-center text-sm text-muted-foreground">{message}</div>
+        ) : (
+          <DiffEditor
+            original={original}
+            modified={modified}
+            language={detectLanguage(file.path, modified)}
+            theme="vs-dark"
+            beforeMount={registerMonacoLanguages}
+            options={{
+              readOnly: true,
+              renderSideBySide: !inline,
+              minimap: { enabled: false },
+              scrollBeyondLastLine: false,
+              fontSize: 13,
+            }}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CompareEditor;
@@ -0,0 +1,117 @@
+import { Pin, Save, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from "@/components/ui/context-menu";
+import { EditorTab } from "@/hooks/useEditorTabs";
+
+interface EditorTabsProps {
+  tabs: EditorTab[];
+  activePath: string | null;
+  isDirty: (path: string) => boolean;
+  autoSave: boolean;
+  hasUnsaved: boolean;
+  onSelect: (path: string) => void;
+  onClose: (path: string) => void;
+  onCloseOthers: (path: string) => void;
+  onCloseAll: () => void;
+  onTogglePin: (path: string) => void;
+  onAutoSaveChange: (enabled: boolean) => void;
+  onSaveAll: () => void;
+}
+
+const EditorTabs = ({
+  tabs,
+  activePath,
+  isDirty,
+  autoSave,
+  hasUnsaved,
+  onSelect,
+  onClose,
+  onCloseOthers,
+  onCloseAll,
+  onTogglePin,
+  onAutoSaveChange,
+  onSaveAll,
+}: EditorTabsProps) => {
+  return (
+    <div className="h-9 flex items-stretch bg-ide-sidebar border-b border-border">
+      <div className="flex-1 flex overflow-x-auto">
+        {tabs.map((tab) => {
+          const name = tab.path.split("/").pop();
+          const dirty = isDirty(tab.path);
+          return (
+            <ContextMenu key={tab.path}>
+              <ContextMenuTrigger asChild>
+                <div
+                  title={tab.path}
+                  className={cn(
+                    "group flex items-center gap-1.5 px-3 text-sm border-r border-border cursor-pointer shrink-0",
+                    activePath === tab.path
+                      ? "bg-ide-editor text-foreground"
+                      : "text-muted-foreground hover:bg-muted/50"
+                  )}
+                  onClick={() => onSelect(tab.path)}
+                  onMouseDown={(e) => {
+                    // Middle click closes, like in browsers
+                    if (e.button === 1) {
+                      e.preventDefault();
+                      onClose(tab.path);
+                    }
+                  }}
+                >
+                  {tab.pinned && <Pin className="w-3 h-3" />}
+                  <span>{name}</span>
+                  <button
+                    className="w-4 h-4 flex items-center justify-center rounded-sm hover:bg-muted"
+                    title={dirty ? "Unsaved changes" : "Close"}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onClose(tab.path);
+                    }}
+                  >
+                    {dirty && <span className="w-2 h-2 rounded-full bg-foreground group-hover:hidden" />}
+                    <X className={cn("w-3 h-3", dirty && "hidden group-hover:block")} />
+                  </button>
+                </div>
+              </ContextMenuTrigger>
+              <ContextMenuContent>
+                <ContextMenuItem onClick={() => onClose(tab.path)}>Close</ContextMenuItem>
+                <ContextMenuItem onClick={() => onCloseOthers(tab.path)}>Close Others</ContextMenuItem>
+                <ContextMenuItem onClick={onCloseAll}>Close All</ContextMenuItem>
+                <ContextMenuSeparator />
+                <ContextMenuItem onClick={() => onTogglePin(tab.path)}>{tab.pinned ? "Unpin" : "Pin"}</ContextMenuItem>
+              </ContextMenuContent>
+            </ContextMenu>
+          );
+        })}
+      </div>
+      <div className="flex items-center gap-2 px-3 border-l border-border text-xs text-muted-foreground shrink-0">
+        {!autoSave && (
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-6 px-2 text-xs"
+            onClick={onSaveAll}
+            disabled={!hasUnsaved}
+            title="Save all (Ctrl+S saves the current file)"
+          >
+            <Save className="w-3 h-3 mr-1" /> Save All
+          </Button>
+        )}
+        <label className="flex items-center gap-1.5 cursor-pointer">
+          <Switch checked={autoSave} onCheckedChange={onAutoSaveChange} className="scale-75" />
+          Autosave
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default EditorTabs;
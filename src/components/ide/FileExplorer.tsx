@@ -1,10 +1,13 @@
-import { useMemo, useState } from "react";
-import { ChevronRight, ChevronDown, File, Folder, FolderOpen, Trash2, CheckSquare, Square } from "lucide-react";
+import { DragEvent, useMemo, useState } from "react";
+import { ChevronRight, ChevronDown, Folder, FolderOpen, Trash2, CheckSquare, Square, Lock } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useFileSystem } from "@/hooks/useFileSystem";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
+import { FileNode } from "@/services/IDEFileSystem";
+import { collectDroppedFiles } from "@/services/LocalImportService";
+import FileIcon from "./FileIcon";
 
 interface FileExplorerProps {
   onFileSelect: (path: string) => void;
@@ -18,7 +21,13 @@ const TreeNode = ({
   selectedFile,
   selectedPaths,
   setSelectedPaths,
+  readOnly,
+  dropTarget,
+  setDropTarget,
+  onDropFiles,
 }: any) => {
+  const { getLock } = useFileSystem();
+  const lock = getLock(node.path);
   const [isOpen, setIsOpen] = useState(depth < 2);
   const isFolder = node.type === "folder";
   const isSelected = selectedFile === node.path;
@@ -43,26 +52,42 @@ const TreeNode = ({
     }
   };
 
+  // Files dropped anywhere inside a folder (including on its children) land in that folder
+  const dropHandlers =
+    isFolder && !readOnly
+      ? {
+          onDragOver: (e: DragEvent) => {
+            e.preventDefault();
+            e.stopPropagation();
+            setDropTarget(node.path);
+          },
+          onDrop: (e: DragEvent) => onDropFiles(e, node.path),
+        }
+      : {};
+
   return (
-    <div>
+    <div {...dropHandlers}>
       <div
         className={cn(
           "group flex items-center gap-1 py-1 px-2 cursor-pointer text-sm transition-colors",
           "hover:bg-muted/50 rounded-sm",
-          isSelected && "bg-primary/20 text-primary"
+          isSelected && "bg-primary/20 text-primary",
+          dropTarget === node.path && "ring-1 ring-primary bg-primary/10"
         )}
         style={{ paddingLeft: `${depth * 12 + 8}px` }}
       >
-        <button
-          className="mr-1 text-muted-foreground hover:text-foreground"
-          onClick={(e) => {
-            e.stopPropagation();
-            toggleNodeSelection(node.path, !selectedPaths.has(node.path));
-          }}
-          title={selectedPaths.has(node.path) ? "Unselect" : "Select"}
-        >
-          {selectedPaths.has(node.path) ? <CheckSquare className="w-4 h-4" /> : <Square className="w-4 h-4" />}
-        </button>
+        {!readOnly && (
+          <button
+            className="mr-1 text-muted-foreground hover:text-foreground"
+            onClick={(e) => {
+              e.stopPropagation();
+              toggleNodeSelection(node.path, !selectedPaths.has(node.path));
+            }}
+            title={selectedPaths.has(node.path) ? "Unselect" : "Select"}
+          >
+            {selectedPaths.has(node.path) ? <CheckSquare className="w-4 h-4" /> : <Square className="w-4 h-4" />}
+          </button>
+        )}
 
         <div className="flex items-center gap-1 flex-1" onClick={handleClick}>
           {isFolder ? (
@@ -81,15 +106,20 @@ const TreeNode = ({
           ) : (
             <>
               <span className="w-4" />
-              <File className="w-4 h-4 text-ide-file" />
+              <FileIcon path={node.path} content={node.content} />
             </>
           )}
           <span className="truncate">{node.name}</span>
+          {lock && (
+            <span className="ml-auto shrink-0 text-muted-foreground" title={lock.reason || "Locked"}>
+              <Lock className="w-3 h-3" />
+            </span>
+          )}
         </div>
       </div>
       {isFolder && isOpen && node.children && (
         <div>
-          {node.children.map((child: any) => (
+          {node.children.map((child: FileNode) => (
             <TreeNode
               key={child.path}
               node={child}
@@ -98,6 +128,10 @@ const TreeNode = ({
               selectedFile={selectedFile}
               selectedPaths={selectedPaths}
               setSelectedPaths={setSelectedPaths}
+              readOnly={readOnly}
+              dropTarget={dropTarget}
+              setDropTarget={setDropTarget}
+              onDropFiles={onDropFiles}
             />
           ))}
         </div>
@@ -111,6 +145,7 @@ const FileExplorer = ({ onFileSelect, selectedFile }: FileExplorerProps) => {
   const { toast } = useToast();
   const tree = fs.getFileTree();
   const [selectedPaths, setSelectedPaths] = useState<Set<string>>(new Set());
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
 
   const selectedCount = selectedPaths.size;
 
@@ -153,40 +188,74 @@ const FileExplorer = ({ onFileSelect, selectedFile }: FileExplorerProps) => {
     });
   };
 
+  const handleDropFiles = async (e: DragEvent, targetPath: string) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDropTarget(null);
+    if (fs.readOnly || fs.localImport?.running) return;
+
+    // The DataTransfer is only readable during the event, so collect before awaiting
+    const pending = collectDroppedFiles(e.dataTransfer);
+    try {
+      const result = await fs.importLocalFiles(await pending, targetPath);
+      toast({
+        title: "Import completed",
+        description: result.skipped.length
+          ? `Imported ${result.imported.length} item(s) into ${targetPath}, skipped ${result.skipped.length}`
+          : `Imported ${result.imported.length} item(s) into ${targetPath}`,
+      });
+    } catch (err) {
+      toast({ title: "Import failed", description: String(err), variant: "destructive" });
+    }
+  };
+
   const handleSelectAllVisible = () => {
     const allPaths = new Set<string>();
-    const walk = (nodes: any[]) => {
+    const walk = (nodes: FileNode[]) => {
       nodes.forEach((n) => {
         allPaths.add(n.path);
         if (n.children?.length) walk(n.children);
       });
     };
-    walk(tree as any[]);
+    walk(tree);
     setSelectedPaths(allPaths);
   };
 
   return (
-    <div className="h-full bg-ide-sidebar border-r border-border">
+    <div
+      className={cn("h-full bg-ide-sidebar border-r border-border", dropTarget === "/" && "ring-1 ring-inset ring-primary")}
+      onDragOver={(e) => {
+        if (fs.readOnly) return;
+        e.preventDefault();
+        setDropTarget("/");
+      }}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropTarget(null);
+      }}
+      onDrop={(e) => handleDropFiles(e, "/")}
+    >
       <div className="p-3 border-b border-border flex items-center justify-between gap-2">
         <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Explorer</h3>
-        <div className="flex items-center gap-2">
-          <Button
-            size="sm"
-            variant="outline"
-            className="h-7 px-2 text-xs"
-            onClick={handleSelectAllVisible}
-          >
-            Select All
-          </Button>
-          <Button
-            size="sm"
-            variant="destructive"
-            className="h-7 px-2 text-xs"
-            onClick={handleDeleteSelected}
-          >
-            <Trash2 className="w-3 h-3 mr-1" /> Delete ({selectedCount})
-          </Button>
-        </div>
+        {!fs.readOnly && (
+          <div className="flex items-center gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-7 px-2 text-xs"
+              onClick={handleSelectAllVisible}
+            >
+              Select All
+            </Button>
+            <Button
+              size="sm"
+              variant="destructive"
+              className="h-7 px-2 text-xs"
+              onClick={handleDeleteSelected}
+            >
+              <Trash2 className="w-3 h-3 mr-1" /> Delete ({selectedCount})
+            </Button>
+          </div>
+        )}
       </div>
       <ScrollArea className="h-[calc(100%-48px)]">
         <div className="py-2">
@@ -199,6 +268,10 @@ const FileExplorer = ({ onFileSelect, selectedFile }: FileExplorerProps) => {
               selectedFile={selectedFile}
               selectedPaths={selectedPaths}
               setSelectedPaths={setSelectedPaths}
+              readOnly={fs.readOnly}
+              dropTarget={dropTarget}
+              setDropTarget={setDropTarget}
+              onDropFiles={handleDropFiles}
             />
           ))}
         </div>
@@ -0,0 +1,129 @@
+import { useEffect, useState } from "react";
+import { DiffEditor, Editor } from "@monaco-editor/react";
+import { History, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import { useFileSystem } from "@/hooks/useFileSystem";
+import { useToast } from "@/hooks/use-toast";
+
+interface FileHistoryDialogProps {
+  path: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const FileHistoryDialog = ({ path, open, onOpenChange }: FileHistoryDialogProps) => {
+  const fs = useFileSystem();
+  const { toast } = useToast();
+  const [selectedRev, setSelectedRev] = useState<number | null>(null);
+  const [showDiff, setShowDiff] = useState(true);
+
+  const file = path ? fs.files[path] : null;
+  const history = path && file?.type === "file" ? fs.getFileHistory(path).reverse() : [];
+
+  // Default to the newest revision whenever the dialog opens for a file
+  useEffect(() => {
+    if (open) setSelectedRev(null);
+  }, [open, path]);
+
+  const revision = history.find((r) => r.rev === selectedRev) || history[0] || null;
+  const language = file?.language && file.language !== "text" ? file.language : "plaintext";
+
+  const handleRestore = () => {
+    if (!path || !revision) return;
+    try {
+      fs.restoreRevision(path, revision.rev);
+      toast({ title: "Restored", description: `${path} restored to r${revision.rev}` });
+    } catch (err) {
+      toast({ title: "Error", description: String(err), variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-4 h-4" /> File History
+          </DialogTitle>
+          <DialogDescription className="font-mono">{path}</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-[200px_1fr] gap-4 h-[60vh]">
+          <ScrollArea className="border border-border rounded-md">
+            <div className="p-1">
+              {history.map((r, index) => (
+                <button
+                  key={r.rev}
+                  className={cn(
+                    "w-full text-left px-2 py-1.5 rounded-sm text-xs hover:bg-muted/50",
+                    revision?.rev === r.rev && "bg-primary/20 text-primary"
+                  )}
+                  onClick={() => setSelectedRev(r.rev)}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-mono font-semibold">r{r.rev}</span>
+                    {index === 0 && <Badge variant="outline" className="text-[10px] px-1 py-0">current</Badge>}
+                  </div>
+                  <div className="text-muted-foreground">{new Date(r.timestamp).toLocaleString()}</div>
+                  {r.label && <div className="text-muted-foreground italic truncate">{r.label}</div>}
+                </button>
+              ))}
+            </div>
+          </ScrollArea>
+
+          <div className="flex flex-col min-h-0 border border-border rounded-md overflow-hidden">
+            <div className="h-9 px-3 flex items-center justify-between border-b border-border bg-ide-sidebar text-xs">
+              <span className="text-muted-foreground">
+                {revision ? (showDiff ? `r${revision.rev} → current` : `r${revision.rev}`) : "No revision selected"}
+              </span>
+              <div className="flex gap-2">
+                <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" onClick={() => setShowDiff((v) => !v)}>
+                  {showDiff ? "View" : "Diff"}
+                </Button>
+                <Button
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  onClick={handleRestore}
+                  disabled={!revision || fs.readOnly || revision.content === (file?.content || "")}
+                >
+                  <RotateCcw className="w-3 h-3 mr-1" /> Restore
+                </Button>
+              </div>
+            </div>
+            <div className="flex-1 min-h-0">
+              {revision &&
+                (showDiff ? (
+                  <DiffEditor
+                    original={revision.content}
+                    modified={file?.content || ""}
+                    language={language}
+                    theme="vs-dark"
+                    options={{ readOnly: true, renderSideBySide: true, minimap: { enabled: false } }}
+                  />
+                ) : (
+                  <Editor
+                    value={revision.content}
+                    language={language}
+                    theme="vs-dark"
+                    options={{ readOnly: true, minimap: { enabled: false } }}
+                  />
+                ))}
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default FileHistoryDialog;
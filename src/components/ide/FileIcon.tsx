@@ -0,0 +1,28 @@
+import { Database, File, FileCode, FileCog, FileJson, FileTerminal, FileText, FileType, Palette } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getLanguageIcon, LanguageIcon } from "@/services/LanguageRegistry";
+
+const ICONS: Record<LanguageIcon, typeof File> = {
+  code: FileCode,
+  markup: FileType,
+  style: Palette,
+  data: FileJson,
+  markdown: FileText,
+  script: FileTerminal,
+  config: FileCog,
+  database: Database,
+  text: File,
+};
+
+interface FileIconProps {
+  path: string;
+  content?: string;
+  className?: string;
+}
+
+const FileIcon = ({ path, content, className }: FileIconProps) => {
+  const Icon = ICONS[getLanguageIcon(path, content)];
+  return <Icon className={cn("w-4 h-4 text-ide-file", className)} />;
+};
+
+export default FileIcon;
@@ -3,6 +3,8 @@ import { useFileSystem } from "@/hooks/useFileSystem";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import {
   Dialog,
   DialogContent,
@@ -12,9 +14,23 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
-import { Download, Upload, RefreshCw, FileText, Folder, Trash2, Edit2, Plus, Github } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { Download, Upload, RefreshCw, FileText, Folder, FolderUp, Trash2, Edit2, Plus, Github, History, X } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useProgress } from '@/hooks/useProgress';
+import { ImportOptions, ImportResult } from "@/services/IDEFileSystem";
+import { CloneProgress, LAZY_CLONE_THRESHOLD } from "@/services/GitHubService";
+import { collectInputFiles, MAX_FILE_SIZE, MAX_TOTAL_SIZE } from "@/services/LocalImportService";
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
 
 const FileOperationsPanel = () => {
   const fileSystem = useFileSystem();
@@ -24,11 +40,23 @@ const FileOperationsPanel = () => {
   const [showExport, setShowExport] = useState(false);
   const [showImport, setShowImport] = useState(false);
   const [showCloneGitHub, setShowCloneGitHub] = useState(false);
+  const [showRestore, setShowRestore] = useState(false);
+  const [restoreTime, setRestoreTime] = useState("");
   const [newPath, setNewPath] = useState("");
   const [newContent, setNewContent] = useState("");
   const [importData, setImportData] = useState("");
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importMode, setImportMode] = useState<ImportOptions["mode"]>("merge");
+  const [importTarget, setImportTarget] = useState("/");
+  const [isImporting, setIsImporting] = useState(false);
+  const [importResult, setImportResult] = useState<ImportResult | null>(null);
+  const [showImportFolder, setShowImportFolder] = useState(false);
+  const [localTarget, setLocalTarget] = useState("/");
   const [gitHubUrl, setGitHubUrl] = useState("");
+  const [gitHubRef, setGitHubRef] = useState("");
+  const [cloneLazy, setCloneLazy] = useState(false);
   const [isCloning, setIsCloning] = useState(false);
+  const [cloneProgress, setCloneProgress] = useState<CloneProgress | null>(null);
   const stats = fileSystem.getStats();
   const { saveProgress } = useProgress();
 
@@ -38,7 +66,7 @@ const FileOperationsPanel = () => {
       return;
     }
     try {
-      fileSystem.createFile(newPath, newContent, "typescript");
+      fileSystem.createFile(newPath, newContent);
       toast({ title: "Success", description: `File created: ${newPath}` });
       setNewPath("");
       setNewContent("");
@@ -70,48 +98,122 @@ const FileOperationsPanel = () => {
     }
     setIsCloning(true);
     try {
-      await fileSystem.cloneGitHubRepo(gitHubUrl);
+      // Leaving lazy unset lets large repositories switch to lazy loading on their own
+      await fileSystem.cloneGitHubRepo(gitHubUrl, {
+        ref: gitHubRef,
+        lazy: cloneLazy || undefined,
+        onProgress: setCloneProgress,
+      });
       toast({ title: "Success", description: "Repository cloned successfully" });
       setGitHubUrl("");
+      setGitHubRef("");
       setShowCloneGitHub(false);
     } catch (err) {
       toast({ title: "Error", description: String(err), variant: "destructive" });
     } finally {
       setIsCloning(false);
+      setCloneProgress(null);
     }
   };
 
   const handleExport = () => {
     const json = fileSystem.exportProject();
-    const blob = new Blob([json], { type: "application/json" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `bodhit-project-${Date.now()}.json`;
-    a.click();
-    URL.revokeObjectURL(url);
+    downloadBlob(new Blob([json], { type: "application/json" }), `bodhit-project-${Date.now()}.json`);
     toast({ title: "Success", description: "Project exported" });
   };
 
-  const handleImport = () => {
-    if (!importData.trim()) {
-      toast({ title: "Error", description: "Please paste project JSON", variant: "destructive" });
+  const handleExportZip = async () => {
+    try {
+      const blob = await fileSystem.exportProjectZip();
+      downloadBlob(blob, `bodhit-project-${Date.now()}.zip`);
+      toast({ title: "Success", description: "Project exported as ZIP" });
+    } catch (err) {
+      toast({ title: "Error", description: String(err), variant: "destructive" });
+    }
+  };
+
+  const handleImport = async () => {
+    if (!importFile && !importData.trim()) {
+      toast({ title: "Error", description: "Choose a .zip/.json file or paste project JSON", variant: "destructive" });
+      return;
+    }
+    if (importMode === "replace" && !confirm("Replace the whole project with the imported files?")) {
       return;
     }
+
+    const options: ImportOptions = { mode: importMode, targetPath: importMode === "merge" ? importTarget : "/" };
+    setIsImporting(true);
     try {
-      fileSystem.importProject(importData);
-      toast({ title: "Success", description: "Project imported" });
+      let result: ImportResult;
+      if (importFile && importFile.name.toLowerCase().endsWith(".zip")) {
+        result = await fileSystem.importProjectZip(importFile, options);
+      } else {
+        result = fileSystem.importProject(importFile ? await importFile.text() : importData, options);
+      }
+      setImportResult(result);
+      toast({
+        title: "Project imported",
+        description: result.skipped.length
+          ? `Imported ${result.imported.length} item(s), skipped ${result.skipped.length}`
+          : `Imported ${result.imported.length} item(s)`,
+      });
       setImportData("");
-      setShowImport(false);
+      setImportFile(null);
+      if (result.skipped.length === 0) setShowImport(false);
+    } catch (err) {
+      toast({ title: "Error", description: String(err), variant: "destructive" });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const openImport = () => {
+    setImportResult(null);
+    setImportFile(null);
+    setShowImport(true);
+  };
+
+  const handleImportLocal = async (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return;
+    const selection = collectInputFiles(fileList);
+    setShowImportFolder(false);
+    try {
+      const result = await fileSystem.importLocalFiles(selection, localTarget || "/");
+      toast({
+        title: "Import completed",
+        description: `Imported ${result.imported.length} item(s), skipped ${result.skipped.length}`,
+      });
+    } catch (err) {
+      toast({ title: "Error", description: String(err), variant: "destructive" });
+    }
+  };
+
+  const handleRestoreToTime = () => {
+    const timestamp = new Date(restoreTime).getTime();
+    if (!restoreTime || Number.isNaN(timestamp)) {
+      toast({ title: "Error", description: "Pick a date and time", variant: "destructive" });
+      return;
+    }
+    try {
+      const removed = fileSystem.restoreProjectToTimestamp(timestamp);
+      const removedCount = Object.keys(removed).length;
+      toast({
+        title: "Project restored",
+        description: removedCount
+          ? `Restored to ${new Date(timestamp).toLocaleString()}. ${removedCount} newer item(s) removed (undo delete to bring them back).`
+          : `Restored to ${new Date(timestamp).toLocaleString()}.`,
+      });
+      setShowRestore(false);
     } catch (err) {
       toast({ title: "Error", description: String(err), variant: "destructive" });
     }
   };
 
   const handleReset = () => {
-    if (confirm("Reset project to defaults? This cannot be undone.")) {
+    const target = fileSystem.template ? `the ${fileSystem.template.name} template` : "defaults";
+    if (confirm(`Reset project to ${target}? This cannot be undone.`)) {
       fileSystem.resetProject();
-      toast({ title: "Success", description: "Project reset to defaults" });
+      toast({ title: "Success", description: `Project reset to ${target}` });
     }
   };
 
@@ -128,6 +230,43 @@ const FileOperationsPanel = () => {
         </div>
       </div>
 
+      {fileSystem.localImport && (
+        <div className="space-y-2 border border-border rounded-md p-2">
+          <div className="flex items-center justify-between text-xs">
+            <span className="font-semibold">
+              {fileSystem.localImport.running ? "Importing" : "Imported"} into {fileSystem.localImport.targetPath}
+            </span>
+            {!fileSystem.localImport.running && (
+              <button className="text-muted-foreground hover:text-foreground" onClick={fileSystem.clearLocalImport}>
+                <X className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+          <Progress
+            className="h-2"
+            value={
+              fileSystem.localImport.progress.total
+                ? (fileSystem.localImport.progress.done / fileSystem.localImport.progress.total) * 100
+                : 100
+            }
+          />
+          <div className="text-xs text-muted-foreground truncate">
+            {fileSystem.localImport.running
+              ? `${fileSystem.localImport.progress.done}/${fileSystem.localImport.progress.total} ${fileSystem.localImport.progress.current || ""}`
+              : `${fileSystem.localImport.result?.imported.length || 0} imported, ${fileSystem.localImport.result?.skipped.length || 0} skipped`}
+          </div>
+          {!!fileSystem.localImport.result?.skipped.length && (
+            <div className="text-xs max-h-32 overflow-auto">
+              {fileSystem.localImport.result.skipped.map((item) => (
+                <div key={item.path} className="font-mono text-muted-foreground truncate" title={item.path}>
+                  {item.path} — {item.reason}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       <div className="grid grid-cols-2 gap-2">
         <Button
           onClick={() => setShowCreateFile(true)}
@@ -156,7 +295,7 @@ const FileOperationsPanel = () => {
           Export
         </Button>
         <Button
-          onClick={() => setShowImport(true)}
+          onClick={openImport}
           variant="outline"
           size="sm"
           className="gap-2"
@@ -164,6 +303,16 @@ const FileOperationsPanel = () => {
           <Upload className="w-4 h-4" />
           Import
         </Button>
+        <Button
+          onClick={() => setShowImportFolder(true)}
+          variant="outline"
+          size="sm"
+          className="gap-2"
+          disabled={fileSystem.localImport?.running}
+        >
+          <FolderUp className="w-4 h-4" />
+          Import Folder
+        </Button>
         <Button
           onClick={async () => {
             const entry = await saveProgress({
@@ -179,9 +328,13 @@ const FileOperationsPanel = () => {
         >
           Save Progress
         </Button>
+        <Button onClick={() => setShowRestore(true)} variant="outline" size="sm" className="gap-2 col-span-2">
+          <History className="w-4 h-4" />
+          Restore to Time
+        </Button>
         <Button onClick={handleReset} variant="outline" size="sm" className="gap-2 col-span-2">
           <RefreshCw className="w-4 h-4" />
-          Reset to Defaults
+          {fileSystem.template ? "Reset to Template" : "Reset to Defaults"}
         </Button>
       </div>
 
@@ -240,7 +393,9 @@ const FileOperationsPanel = () => {
         <DialogContent>
           <DialogHeader>
             <DialogTitle>Clone GitHub Repository</DialogTitle>
-            <DialogDescription>Enter the GitHub repository URL to clone</DialogDescription>
+            <DialogDescription>
+              Enter the GitHub repository URL to clone. A /tree/&lt;branch&gt;/&lt;folder&gt; URL clones just that folder.
+            </DialogDescription>
           </DialogHeader>
           <Input
             placeholder="https://github.com/user/repo"
@@ -248,6 +403,31 @@ const FileOperationsPanel = () => {
             onChange={(e) => setGitHubUrl(e.target.value)}
             disabled={isCloning}
           />
+          <Input
+            placeholder="Branch, tag or commit (default branch if empty)"
+            value={gitHubRef}
+            onChange={(e) => setGitHubRef(e.target.value)}
+            disabled={isCloning}
+          />
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="clone-lazy"
+              checked={cloneLazy}
+              onCheckedChange={(checked) => setCloneLazy(checked === true)}
+              disabled={isCloning}
+            />
+            <Label htmlFor="clone-lazy" className="text-sm font-normal">
+              Download file contents when opened (always on above {LAZY_CLONE_THRESHOLD} files)
+            </Label>
+          </div>
+          {cloneProgress && cloneProgress.total > 0 && (
+            <div className="space-y-1">
+              <Progress className="h-2" value={(cloneProgress.loaded / cloneProgress.total) * 100} />
+              <div className="text-xs text-muted-foreground">
+                {cloneProgress.loaded}/{cloneProgress.total} files
+              </div>
+            </div>
+          )}
           <DialogFooter>
             <Button variant="outline" onClick={() => setShowCloneGitHub(false)} disabled={isCloning}>
               Cancel
@@ -259,12 +439,70 @@ const FileOperationsPanel = () => {
         </DialogContent>
       </Dialog>
 
+      {/* Import Local Folder Dialog */}
+      <Dialog open={showImportFolder} onOpenChange={setShowImportFolder}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Import Local Files</DialogTitle>
+            <DialogDescription>
+              Pick a folder or files from your computer (you can also drop them onto the Explorer). .gitignore rules,
+              node_modules and binary files are skipped; files over {MAX_FILE_SIZE / 1024} KB or beyond{" "}
+              {MAX_TOTAL_SIZE / (1024 * 1024)} MB in total are not imported.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="local-import-target">Target folder</Label>
+              <Input
+                id="local-import-target"
+                placeholder="/"
+                value={localTarget}
+                onChange={(e) => setLocalTarget(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="local-import-folder">Folder</Label>
+              <Input
+                id="local-import-folder"
+                type="file"
+                multiple
+                ref={(el) => el?.setAttribute("webkitdirectory", "")}
+                onChange={(e) => handleImportLocal(e.target.files)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="local-import-files">Files</Label>
+              <Input id="local-import-files" type="file" multiple onChange={(e) => handleImportLocal(e.target.files)} />
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Restore To Time Dialog */}
+      <Dialog open={showRestore} onOpenChange={setShowRestore}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Restore Project to a Point in Time</DialogTitle>
+            <DialogDescription>
+              Every file rolls back to its content at the chosen time. Files created later are removed.
+            </DialogDescription>
+          </DialogHeader>
+          <Input type="datetime-local" value={restoreTime} onChange={(e) => setRestoreTime(e.target.value)} />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowRestore(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleRestoreToTime}>Restore</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Export Dialog */}
       <Dialog open={showExport} onOpenChange={setShowExport}>
         <DialogContent className="max-w-2xl">
           <DialogHeader>
             <DialogTitle>Export Project</DialogTitle>
-            <DialogDescription>Download your project as JSON</DialogDescription>
+            <DialogDescription>Download your project as a ZIP archive or JSON snapshot</DialogDescription>
           </DialogHeader>
           <Textarea
             value={fileSystem.exportProject()}
@@ -273,7 +511,10 @@ const FileOperationsPanel = () => {
             className="font-mono text-xs"
           />
           <DialogFooter>
-            <Button onClick={handleExport}>Download</Button>
+            <Button variant="outline" onClick={handleExport}>
+              Download JSON
+            </Button>
+            <Button onClick={handleExportZip}>Download ZIP</Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
@@ -283,20 +524,63 @@ const FileOperationsPanel = () => {
         <DialogContent className="max-w-2xl">
           <DialogHeader>
             <DialogTitle>Import Project</DialogTitle>
-            <DialogDescription>Paste your project JSON to restore it</DialogDescription>
+            <DialogDescription>Import a .zip archive or a JSON export, or paste project JSON</DialogDescription>
           </DialogHeader>
-          <Textarea
-            placeholder="Paste project JSON here..."
-            value={importData}
-            onChange={(e) => setImportData(e.target.value)}
-            rows={10}
-            className="font-mono text-xs"
-          />
+          <div className="space-y-4">
+            <Input
+              type="file"
+              accept=".zip,.json"
+              onChange={(e) => setImportFile(e.target.files?.[0] || null)}
+              disabled={isImporting}
+            />
+            {!importFile && (
+              <Textarea
+                placeholder="...or paste project JSON here"
+                value={importData}
+                onChange={(e) => setImportData(e.target.value)}
+                rows={6}
+                className="font-mono text-xs"
+              />
+            )}
+            <RadioGroup
+              value={importMode}
+              onValueChange={(value) => setImportMode(value as ImportOptions["mode"])}
+              className="flex gap-4"
+            >
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="merge" id="import-merge" />
+                <Label htmlFor="import-merge">Merge into folder</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="replace" id="import-replace" />
+                <Label htmlFor="import-replace">Replace project</Label>
+              </div>
+            </RadioGroup>
+            {importMode === "merge" && (
+              <Input
+                placeholder="Target folder, e.g. /imported"
+                value={importTarget}
+                onChange={(e) => setImportTarget(e.target.value)}
+              />
+            )}
+            {importResult && importResult.skipped.length > 0 && (
+              <div className="text-xs border border-border rounded-md p-2 max-h-32 overflow-auto">
+                <div className="font-semibold mb-1">Skipped {importResult.skipped.length} item(s):</div>
+                {importResult.skipped.map((item) => (
+                  <div key={item.path} className="font-mono text-muted-foreground">
+                    {item.path} — {item.reason}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
           <DialogFooter>
-            <Button variant="outline" onClick={() => setShowImport(false)}>
+            <Button variant="outline" onClick={() => setShowImport(false)} disabled={isImporting}>
               Cancel
             </Button>
-            <Button onClick={handleImport}>Import</Button>
+            <Button onClick={handleImport} disabled={isImporting}>
+              {isImporting ? "Importing..." : "Import"}
+            </Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
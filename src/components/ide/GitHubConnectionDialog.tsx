@@ -0,0 +1,226 @@
+import { useState } from "react";
+import { ExternalLink, Github, Loader2, RefreshCw, Unlink } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useAuth } from "@/hooks/useAuth";
+import { useGitHubAccount } from "@/hooks/useGitHubAccount";
+import { useToast } from "@/hooks/use-toast";
+import { GitHubAccount } from "@/services/GitHubAccount";
+import { GitHubTokenType } from "@/services/GitHubConnectionService";
+
+interface GitHubConnectionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const NEW_TOKEN_URL = "https://github.com/settings/tokens/new?scopes=repo&description=AMIT-BODHIT%20IDE";
+const TOKENS_URL = "https://github.com/settings/tokens";
+
+const TOKEN_TYPE_LABELS: Record<GitHubTokenType, string> = {
+  classic: "Personal access token (classic)",
+  "fine-grained": "Fine-grained personal access token",
+  oauth: "OAuth token",
+};
+
+const GitHubConnectionDialog = ({ open, onOpenChange }: GitHubConnectionDialogProps) => {
+  const { user } = useAuth();
+  const { connection, loading } = useGitHubAccount();
+  const { toast } = useToast();
+  const [token, setToken] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    setBusy(true);
+    try {
+      await action();
+      toast({ title: success });
+    } catch (err) {
+      toast({
+        title: "GitHub connection failed",
+        description: err instanceof Error ? err.message : String(err),
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleConnect = () =>
+    run(async () => {
+      await GitHubAccount.connect(token);
+      setToken("");
+    }, "GitHub connected");
+
+  const handleDisconnect = async () => {
+    if (!confirm("Disconnect GitHub? The token is revoked on GitHub and deleted from AMIT–BODHIT.")) return;
+    setBusy(true);
+    try {
+      const { revoked } = await GitHubAccount.disconnect();
+      toast(
+        revoked
+          ? { title: "GitHub disconnected", description: "The token was revoked on GitHub and deleted." }
+          : {
+              title: "Token deleted, but not revoked",
+              description: "GitHub did not accept the revocation, so the token still works. Revoke it in your GitHub settings.",
+              variant: "destructive",
+            }
+      );
+    } catch (err) {
+      toast({
+        title: "GitHub connection failed",
+        description: err instanceof Error ? err.message : String(err),
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Last quota GitHub reported to the active service (none until it has made a request)
+  const rateLimit = GitHubAccount.getService().getRateLimit();
+  const missingRepoScope =
+    !!connection && connection.tokenType !== "fine-grained" && !connection.scopes.includes("repo");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Github className="w-4 h-4" /> GitHub Account
+          </DialogTitle>
+          <DialogDescription>
+            Clone private repositories and push your changes with your own GitHub token. It is stored
+            on the server with your profile, never sent back to the browser, and only used for your
+            requests.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!user ? (
+          <p className="text-sm text-muted-foreground">Sign in to connect a GitHub account.</p>
+        ) : loading ? (
+          <div className="h-24 flex items-center justify-center">
+            <Loader2 className="w-5 h-5 animate-spin text-primary" />
+          </div>
+        ) : connection ? (
+          <div className="space-y-4 text-sm">
+            <div className="flex items-center gap-3">
+              {connection.avatarUrl && (
+                <img src={connection.avatarUrl} alt="" className="w-10 h-10 rounded-full border border-border" />
+              )}
+              <div className="min-w-0">
+                <a
+                  href={`https://github.com/${connection.login}`}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="font-medium hover:underline"
+                >
+                  {connection.login}
+                </a>
+                <div className="text-xs text-muted-foreground">
+                  {TOKEN_TYPE_LABELS[connection.tokenType]} · connected{" "}
+                  {new Date(connection.connectedAt).toLocaleDateString()}
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <div className="text-xs font-medium text-muted-foreground">Scopes</div>
+              {connection.tokenType === "fine-grained" ? (
+                <p className="text-xs text-muted-foreground">
+                  Fine-grained tokens grant permissions per repository; check them on GitHub.
+                </p>
+              ) : connection.scopes.length === 0 ? (
+                <p className="text-xs text-muted-foreground">None (public read-only access)</p>
+              ) : (
+                <div className="flex flex-wrap gap-1">
+                  {connection.scopes.map((scope) => (
+                    <Badge key={scope} variant="outline" className="font-mono text-xs">
+                      {scope}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              {missingRepoScope && (
+                <p className="text-xs text-ide-warning">
+                  Without the "repo" scope you cannot clone private repositories or push changes.
+                </p>
+              )}
+            </div>
+
+            {rateLimit && (
+              <div className="text-xs text-muted-foreground">
+                API requests left: {rateLimit.remaining} / {rateLimit.limit} (resets{" "}
+                {new Date(rateLimit.resetAt).toLocaleTimeString()})
+              </div>
+            )}
+
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => run(() => GitHubAccount.refresh(), "GitHub connection checked")}
+                disabled={busy}
+              >
+                <RefreshCw className="w-3 h-3 mr-1" /> Re-check
+              </Button>
+              <Button variant="destructive" size="sm" onClick={handleDisconnect} disabled={busy}>
+                <Unlink className="w-3 h-3 mr-1" /> Disconnect
+              </Button>
+              <a
+                href={TOKENS_URL}
+                target="_blank"
+                rel="noreferrer"
+                className="ml-auto flex items-center gap-1 text-xs text-primary hover:underline"
+              >
+                <ExternalLink className="w-3 h-3" /> Manage tokens on GitHub
+              </a>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3 text-sm">
+            <p className="text-muted-foreground">
+              Create a personal access token with the "repo" scope (or a fine-grained token with
+              read and write access to contents and pull requests) and paste it below.
+            </p>
+            <div className="flex items-center gap-2">
+              <Input
+                type="password"
+                placeholder="ghp_… or github_pat_…"
+                value={token}
+                onChange={(e) => setToken(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && token.trim() && handleConnect()}
+                className="flex-1 font-mono"
+              />
+              <Button onClick={handleConnect} disabled={busy || !token.trim()}>
+                {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : "Connect"}
+              </Button>
+            </div>
+            <a
+              href={NEW_TOKEN_URL}
+              target="_blank"
+              rel="noreferrer"
+              className="flex items-center gap-1 text-xs text-primary hover:underline"
+            >
+              <ExternalLink className="w-3 h-3" /> Create a token on GitHub
+            </a>
+            {rateLimit && (
+              <div className="text-xs text-muted-foreground">
+                Anonymous API requests left: {rateLimit.remaining} / {rateLimit.limit}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default GitHubConnectionDialog;
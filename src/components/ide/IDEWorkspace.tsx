@@ -1,28 +1,239 @@
-import { useState } from "react";
+import { ReactNode, useCallback, useEffect, useState } from "react";
+import { Github, Share2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from "@/components/ui/resizable";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import FileExplorer from "./FileExplorer";
 import CodeEditor from "./CodeEditor";
 import Terminal from "./Terminal";
 import AIChatPanel from "./AIChatPanel";
 import FileOperationsPanel from "./FileOperationsPanel";
+import SyncStatusBar from "./SyncStatusBar";
+import FileHistoryDialog from "./FileHistoryDialog";
+import SearchPanel from "./SearchPanel";
+import ProblemsPanel from "./ProblemsPanel";
+import PreviewPanel from "./PreviewPanel";
+import TestPanel from "./TestPanel";
+import SourceControlPanel from "./SourceControlPanel";
+import EditorTabs from "./EditorTabs";
+import CompareEditor, { CompareBaseline, CompareLayout } from "./CompareEditor";
+import WorkspaceSwitcher from "./WorkspaceSwitcher";
+import ShareSnapshotDialog from "./ShareSnapshotDialog";
+import GitHubConnectionDialog from "./GitHubConnectionDialog";
 import { useFileSystem, FileSystemProvider } from "@/hooks/useFileSystem";
+import { useWorkspaceSync } from "@/hooks/useWorkspaceSync";
+import { useFileLocks } from "@/hooks/useFileLocks";
+import { useEditorTabs } from "@/hooks/useEditorTabs";
+import { useProjectDiagnostics } from "@/hooks/useProjectDiagnostics";
+import { useGitHubAccount } from "@/hooks/useGitHubAccount";
 import { ConversationHistory } from "@/components/ConversationHistory";
+import { fileSystem as defaultFileSystem, IDEFileSystem } from "@/services/IDEFileSystem";
+import { IDEWorkspaceInfo, WorkspaceRegistry } from "@/services/WorkspaceRegistry";
 
-const IDEWorkspaceContent = () => {
-  const { files, selectedFile, selectFile, updateFile } = useFileSystem();
+interface IDEWorkspaceProps {
+  /** Links the workspace to a project submission and enables cloud sync */
+  submissionId?: string | null;
+  /** Read-only view: file tree and editor only, no editing */
+  readOnly?: boolean;
+  fileSystem?: IDEFileSystem;
+  /** Named workspace being edited; restores its selected file, terminal directory and chat */
+  workspace?: IDEWorkspaceInfo;
+  /** Read-only view: earlier version of the files to diff against (opens the diff by default) */
+  compareBaseline?: CompareBaseline;
+  /** Read-only view: bar shown above the file tree and editor */
+  header?: ReactNode;
+}
+
+// File tree, project search and problems share the sidebar as tabs
+const SidebarTabs = () => {
+  const { selectedFile, selectFile } = useFileSystem();
+  const problems = useProjectDiagnostics();
+  const errorCount = problems.filter((p) => p.severity === "error").length;
+
+  return (
+    <Tabs defaultValue="explorer" className="flex flex-col flex-1 min-h-0">
+      <TabsList className="grid grid-cols-3 rounded-none h-8 bg-ide-sidebar border-b border-r border-border">
+        <TabsTrigger value="explorer" className="text-xs">
+          Explorer
+        </TabsTrigger>
+        <TabsTrigger value="search" className="text-xs">
+          Search
+        </TabsTrigger>
+        <TabsTrigger value="problems" className="text-xs">
+          Problems
+          {errorCount > 0 && <span className="ml-1 text-ide-error">{errorCount}</span>}
+        </TabsTrigger>
+      </TabsList>
+      {/* Keep the tabs mounted so folder state and the search query survive switching */}
+      <TabsContent value="explorer" forceMount className="flex-1 min-h-0 mt-0 data-[state=inactive]:hidden">
+        <FileExplorer onFileSelect={selectFile} selectedFile={selectedFile} />
+      </TabsContent>
+      <TabsContent value="search" forceMount className="flex-1 min-h-0 mt-0 data-[state=inactive]:hidden">
+        <SearchPanel />
+      </TabsContent>
+      <TabsContent value="problems" forceMount className="flex-1 min-h-0 mt-0 data-[state=inactive]:hidden">
+        <ProblemsPanel problems={problems} />
+      </TabsContent>
+    </Tabs>
+  );
+};
+
+// Splits the editor area with a diff view when comparing is turned on
+const EditorWithCompare = ({
+  editor,
+  comparing,
+  modified,
+  onCloseCompare,
+  baseline,
+}: {
+  editor: ReactNode;
+  comparing: boolean;
+  modified: string;
+  onCloseCompare: () => void;
+  baseline?: CompareBaseline;
+}) => {
+  const { selectedFile } = useFileSystem();
+  const [layout, setLayout] = useState<CompareLayout>("side-by-side");
+
+  if (!comparing) return <>{editor}</>;
+
+  return (
+    <ResizablePanelGroup key={layout} direction={layout === "side-by-side" ? "horizontal" : "vertical"}>
+      <ResizablePanel defaultSize={50} minSize={20}>
+        {editor}
+      </ResizablePanel>
+      <ResizableHandle withHandle />
+      <ResizablePanel defaultSize={50} minSize={20}>
+        <CompareEditor
+          path={selectedFile}
+          modified={modified}
+          layout={layout}
+          onLayoutChange={setLayout}
+          onClose={onCloseCompare}
+          baseline={baseline}
+        />
+      </ResizablePanel>
+    </ResizablePanelGroup>
+  );
+};
+
+const ReadOnlyWorkspaceContent = ({ baseline, header }: { baseline?: CompareBaseline; header?: ReactNode }) => {
+  const { files, selectedFile, revealTarget } = useFileSystem();
+  const [comparing, setComparing] = useState(!!baseline);
+  const code = selectedFile ? files[selectedFile]?.content || "" : "";
+
+  return (
+    <div className="h-screen flex flex-col bg-ide-bg">
+      {header}
+      <ResizablePanelGroup direction="horizontal" className="flex-1 min-h-0">
+        <ResizablePanel defaultSize={20} minSize={10} maxSize={35}>
+          <div className="flex flex-col h-full">
+            <SidebarTabs />
+          </div>
+        </ResizablePanel>
+
+        <ResizableHandle withHandle />
+
+        <ResizablePanel defaultSize={80}>
+          <EditorWithCompare
+            comparing={comparing}
+            modified={code}
+            onCloseCompare={() => setComparing(false)}
+            baseline={baseline}
+            editor={
+              <CodeEditor
+                selectedFile={selectedFile}
+                code={code}
+                onChange={() => undefined}
+                readOnly
+                revealPosition={revealTarget}
+                onToggleCompare={() => setComparing((v) => !v)}
+              />
+            }
+          />
+        </ResizablePanel>
+      </ResizablePanelGroup>
+    </div>
+  );
+};
+
+const IDEWorkspaceContent = ({
+  submissionId,
+  fileSystem,
+  workspace,
+}: {
+  submissionId?: string | null;
+  fileSystem: IDEFileSystem;
+  workspace?: IDEWorkspaceInfo;
+}) => {
+  const { files, selectedFile, selectFile, revealTarget } = useFileSystem();
+  const workspaceId = workspace?.id;
+  const sync = useWorkspaceSync(fileSystem, submissionId, workspace && WorkspaceRegistry.syncStateKey(workspace));
+  useFileLocks(fileSystem, submissionId);
+  const editorTabs = useEditorTabs();
   const [isTerminalExpanded, setIsTerminalExpanded] = useState(true);
-  const currentFileNode = selectedFile ? files[selectedFile] : null;
-  const code = currentFileNode?.content || "";
+  const [showHistory, setShowHistory] = useState(false);
+  const [comparing, setComparing] = useState(false);
+  const [rightTab, setRightTab] = useState("assistant");
+  const [showShare, setShowShare] = useState(false);
+  const [showGitHub, setShowGitHub] = useState(false);
+  const { connection: gitHubConnection } = useGitHubAccount();
+  const code = selectedFile ? editorTabs.getContent(selectedFile) : "";
+
+  // Remember per-workspace UI state for the next visit
+  useEffect(() => {
+    if (workspaceId) WorkspaceRegistry.update(workspaceId, { selectedFile });
+  }, [workspaceId, selectedFile]);
+
+  const handleCwdChange = useCallback(
+    (cwd: string) => {
+      if (workspaceId) WorkspaceRegistry.update(workspaceId, { cwd });
+    },
+    [workspaceId]
+  );
+
+  const handleConversationChange = useCallback(
+    (conversationId: string) => {
+      if (workspaceId && WorkspaceRegistry.get(workspaceId)?.conversationId !== conversationId) {
+        WorkspaceRegistry.update(workspaceId, { conversationId });
+      }
+    },
+    [workspaceId]
+  );
 
   const handleCodeChange = (value: string | undefined) => {
     if (value !== undefined && selectedFile) {
-      updateFile(selectedFile, value);
+      editorTabs.change(selectedFile, value);
     }
   };
 
   return (
-    <div className="h-screen bg-ide-bg">
-      <ResizablePanelGroup direction="horizontal" className="h-full">
+    <div className="h-screen flex flex-col bg-ide-bg">
+      {workspace && (
+        <div className="h-9 shrink-0 flex items-center px-2 bg-ide-sidebar border-b border-border">
+          <WorkspaceSwitcher />
+          <Button
+            variant="ghost"
+            size="sm"
+            className="ml-auto h-7 gap-2 px-2 text-xs"
+            onClick={() => setShowGitHub(true)}
+            title="GitHub account"
+          >
+            <Github className="w-3 h-3" />
+            {gitHubConnection ? gitHubConnection.login : "Connect GitHub"}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 gap-2 px-2 text-xs"
+            onClick={() => setShowShare(true)}
+          >
+            <Share2 className="w-3 h-3" />
+            Share Snapshot
+          </Button>
+        </div>
+      )}
+      <ResizablePanelGroup direction="horizontal" className="flex-1 min-h-0">
         {/* Conversation History */}
         <ResizablePanel defaultSize={12} minSize={10} maxSize={20}>
           <ConversationHistory />
@@ -33,7 +244,16 @@ const IDEWorkspaceContent = () => {
         {/* File Explorer */}
         <ResizablePanel defaultSize={15} minSize={10} maxSize={25}>
           <div className="flex flex-col h-full">
-            <FileExplorer onFileSelect={selectFile} selectedFile={selectedFile} />
+            {sync.enabled && (
+              <SyncStatusBar
+                status={sync.status}
+                conflicts={sync.conflicts}
+                lastError={sync.lastError}
+                onSync={sync.syncNow}
+                onResolve={sync.resolveConflict}
+              />
+            )}
+            <SidebarTabs />
             <FileOperationsPanel />
           </div>
         </ResizablePanel>
@@ -43,39 +263,123 @@ const IDEWorkspaceContent = () => {
         {/* Editor + Terminal */}
         <ResizablePanel defaultSize={55}>
           <div className="h-full flex flex-col">
+            <EditorTabs
+              tabs={editorTabs.tabs}
+              activePath={selectedFile}
+              isDirty={editorTabs.isDirty}
+              autoSave={editorTabs.autoSave}
+              hasUnsaved={editorTabs.hasUnsaved}
+              onSelect={selectFile}
+              onClose={editorTabs.close}
+              onCloseOthers={editorTabs.closeOthers}
+              onCloseAll={editorTabs.closeAll}
+              onTogglePin={editorTabs.togglePin}
+              onAutoSaveChange={editorTabs.setAutoSave}
+              onSaveAll={editorTabs.saveAll}
+            />
             <div className="flex-1 min-h-0">
-              <CodeEditor
-                selectedFile={selectedFile}
-                code={code}
-                onChange={handleCodeChange}
+              <EditorWithCompare
+                comparing={comparing}
+                modified={code}
+                onCloseCompare={() => setComparing(false)}
+                editor={
+                  <CodeEditor
+                    selectedFile={selectedFile}
+                    code={code}
+                    onChange={handleCodeChange}
+                    onShowHistory={() => setShowHistory(true)}
+                    revealPosition={revealTarget}
+                    onSave={() => selectedFile && editorTabs.save(selectedFile)}
+                    onToggleCompare={() => setComparing((v) => !v)}
+                  />
+                }
               />
             </div>
             <Terminal
               isExpanded={isTerminalExpanded}
               onToggle={() => setIsTerminalExpanded((v) => !v)}
+              initialCwd={workspace?.cwd}
+              onCwdChange={handleCwdChange}
             />
           </div>
         </ResizablePanel>
 
         <ResizableHandle withHandle />
 
-        {/* AI Chat Panel */}
+        {/* AI Chat, Live Preview, Tests and Source Control */}
         <ResizablePanel defaultSize={30} minSize={20} maxSize={40}>
-          <AIChatPanel 
-            currentTask="Implement JWT Authentication" 
-            currentCode={code}
-            currentFiles={files}
-          />
+          <Tabs value={rightTab} onValueChange={setRightTab} className="h-full flex flex-col">
+            <TabsList className="grid grid-cols-4 rounded-none h-8 bg-ide-sidebar border-b border-border">
+              <TabsTrigger value="assistant" className="text-xs">
+                Assistant
+              </TabsTrigger>
+              <TabsTrigger value="preview" className="text-xs">
+                Preview
+              </TabsTrigger>
+              <TabsTrigger value="tests" className="text-xs">
+                Tests
+              </TabsTrigger>
+              <TabsTrigger value="git" className="text-xs">
+                Git
+              </TabsTrigger>
+            </TabsList>
+            {/* The chat stays mounted so the conversation survives switching to the preview */}
+            <TabsContent value="assistant" forceMount className="flex-1 min-h-0 mt-0 data-[state=inactive]:hidden">
+              <AIChatPanel 
+                currentTask="Implement JWT Authentication" 
+                currentCode={code}
+                currentFiles={files}
+                submissionId={submissionId}
+                conversationId={workspace?.conversationId}
+                onConversationChange={handleConversationChange}
+              />
+            </TabsContent>
+            <TabsContent value="preview" forceMount className="flex-1 min-h-0 mt-0 data-[state=inactive]:hidden">
+              <PreviewPanel active={rightTab === "preview"} />
+            </TabsContent>
+            <TabsContent value="tests" className="flex-1 min-h-0 mt-0">
+              <TestPanel submissionId={submissionId} />
+            </TabsContent>
+            <TabsContent value="git" className="flex-1 min-h-0 mt-0">
+              <SourceControlPanel fileSystem={fileSystem} />
+            </TabsContent>
+          </Tabs>
         </ResizablePanel>
       </ResizablePanelGroup>
+
+      <FileHistoryDialog path={selectedFile} open={showHistory} onOpenChange={setShowHistory} />
+      {workspace && (
+        <ShareSnapshotDialog
+          workspace={workspace}
+          fileSystem={fileSystem}
+          open={showShare}
+          onOpenChange={setShowShare}
+        />
+      )}
+      <GitHubConnectionDialog open={showGitHub} onOpenChange={setShowGitHub} />
     </div>
   );
 };
 
-const IDEWorkspace = () => {
+const IDEWorkspace = ({
+  submissionId,
+  readOnly = false,
+  fileSystem = defaultFileSystem,
+  workspace,
+  compareBaseline,
+  header,
+}: IDEWorkspaceProps) => {
   return (
-    <FileSystemProvider>
-      <IDEWorkspaceContent />
+    <FileSystemProvider
+      fileSystem={fileSystem}
+      readOnly={readOnly}
+      initialSelectedFile={workspace?.selectedFile}
+    >
+      {readOnly ? (
+        <ReadOnlyWorkspaceContent baseline={compareBaseline} header={header} />
+      ) : (
+        <IDEWorkspaceContent submissionId={submissionId} fileSystem={fileSystem} workspace={workspace} />
+      )}
     </FileSystemProvider>
   );
 };
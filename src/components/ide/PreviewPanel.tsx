@@ -0,0 +1,97 @@
+import { useEffect, useRef, useState } from "react";
+import { Globe, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useFileSystem } from "@/hooks/useFileSystem";
+import { buildPreview, findPreviewEntry, PREVIEW_MESSAGE_SOURCE, PreviewMessage } from "@/services/PreviewBuilder";
+import { TerminalBus } from "@/services/TerminalBus";
+
+// Wait for a pause in typing before rebuilding
+const RELOAD_DELAY_MS = 400;
+
+interface PreviewPanelProps {
+  /** Only build while the panel is visible */
+  active: boolean;
+}
+
+const PreviewPanel = ({ active }: PreviewPanelProps) => {
+  const { files, selectedFile } = useFileSystem();
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const [html, setHtml] = useState("");
+  const [buildError, setBuildError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const entry = findPreviewEntry(files, selectedFile);
+
+  // Rebuild whenever the project changes (updateFile, imports, replace all...)
+  useEffect(() => {
+    const target = findPreviewEntry(files, selectedFile);
+    if (!active || !target) return;
+    const timer = setTimeout(() => {
+      try {
+        setHtml(buildPreview(files, target));
+        setBuildError(null);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        setBuildError(message);
+        TerminalBus.write("error", `[preview] ${message}`);
+      }
+    }, RELOAD_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [active, files, selectedFile, reloadKey]);
+
+  // Runtime errors from inside the iframe go to the terminal
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      const data = event.data as PreviewMessage | null;
+      if (event.source !== iframeRef.current?.contentWindow || data?.source !== PREVIEW_MESSAGE_SOURCE) return;
+      const prefix = data.type === "console" && data.level === "warn" ? "[preview warning]" : "[preview]";
+      TerminalBus.write("error", `${prefix} ${data.message}`);
+    };
+    window.addEventListener("message", handleMessage);
+    return () => window.removeEventListener("message", handleMessage);
+  }, []);
+
+  return (
+    <div className="h-full flex flex-col bg-ide-editor">
+      <div className="h-9 bg-ide-sidebar border-b border-border flex items-center gap-2 px-3">
+        <Globe className="w-4 h-4 text-muted-foreground" />
+        <span className="text-sm text-muted-foreground truncate">{entry ? entry.path : "No preview"}</span>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="ml-auto h-6 w-6 p-0"
+          onClick={() => setReloadKey((k) => k + 1)}
+          disabled={!entry}
+          title="Reload preview"
+        >
+          <RefreshCw className="w-3 h-3" />
+        </Button>
+      </div>
+      <div className="relative flex-1 min-h-0 bg-white">
+        {entry ? (
+          <iframe
+            key={reloadKey}
+            ref={iframeRef}
+            title="Preview"
+            srcDoc={html}
+            // No allow-same-origin: the page gets an opaque origin and cannot reach the IDE,
+            // its storage or the Supabase session
+            sandbox="allow-scripts allow-forms allow-modals allow-popups"
+            className="w-full h-full border-0"
+          />
+        ) : (
+          <div className="h-full flex items-center justify-center p-6 text-center text-sm text-muted-foreground bg-ide-editor">
+            Add an index.html or src/main.tsx, or open a .tsx/.jsx component to preview it
+          </div>
+        )}
+        {buildError && (
+          <pre className="absolute inset-0 m-0 p-4 overflow-auto whitespace-pre-wrap text-xs font-mono text-ide-error bg-ide-editor/95">
+            {buildError}
+          </pre>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PreviewPanel;
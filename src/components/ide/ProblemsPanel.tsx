@@ -0,0 +1,79 @@
+import { useMemo } from "react";
+import { AlertCircle, AlertTriangle, Info } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useFileSystem } from "@/hooks/useFileSystem";
+import { Problem } from "@/services/TypeScriptProject";
+import FileIcon from "./FileIcon";
+
+const SeverityIcon = ({ severity }: { severity: Problem["severity"] }) => {
+  if (severity === "error") return <AlertCircle className="w-3 h-3 text-ide-error shrink-0" />;
+  if (severity === "warning") return <AlertTriangle className="w-3 h-3 text-ide-warning shrink-0" />;
+  return <Info className="w-3 h-3 text-ide-info shrink-0" />;
+};
+
+const ProblemsPanel = ({ problems }: { problems: Problem[] }) => {
+  const fs = useFileSystem();
+
+  const grouped = useMemo(() => {
+    const groups: Record<string, Problem[]> = {};
+    for (const p of problems) {
+      (groups[p.path] = groups[p.path] || []).push(p);
+    }
+    return Object.entries(groups);
+  }, [problems]);
+
+  const errors = problems.filter((p) => p.severity === "error").length;
+  const warnings = problems.filter((p) => p.severity === "warning").length;
+
+  return (
+    <div className="h-full flex flex-col bg-ide-sidebar border-r border-border">
+      <div className="p-3 border-b border-border flex items-center justify-between">
+        <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Problems</h3>
+        <span className="text-xs text-muted-foreground">
+          {errors} error(s), {warnings} warning(s)
+        </span>
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="py-2 text-sm">
+          {grouped.length === 0 && (
+            <p className="px-3 text-xs text-muted-foreground">No problems detected in the project</p>
+          )}
+          {grouped.map(([path, items]) => (
+            <div key={path} className="mb-1">
+              <div className="flex items-center gap-2 px-3 py-1 text-xs font-semibold" title={path}>
+                <FileIcon path={path} className="w-3 h-3 shrink-0" />
+                <span className="truncate">{path}</span>
+                <span className="ml-auto text-muted-foreground">{items.length}</span>
+              </div>
+              {items.map((p, i) => (
+                <button
+                  key={`${p.line}:${p.column}:${i}`}
+                  className={cn(
+                    "w-full flex items-start gap-2 pl-8 pr-3 py-0.5 text-left text-xs hover:bg-muted/50",
+                    fs.selectedFile === path && fs.revealTarget?.line === p.line && "bg-primary/10"
+                  )}
+                  onClick={() => fs.openFileAt(p.path, p.line, p.column)}
+                >
+                  <span className="mt-0.5">
+                    <SeverityIcon severity={p.severity} />
+                  </span>
+                  <span className="flex-1 min-w-0 break-words">
+                    {p.message}
+                    <span className="ml-1 text-muted-foreground">
+                      {p.source}
+                      {p.code && `(${p.code})`} [{p.line}, {p.column}]
+                    </span>
+                  </span>
+                </button>
+              ))}
+            </div>
+          ))}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
+
+export default ProblemsPanel;
@@ -0,0 +1,365 @@
+import { ReactNode, useEffect, useMemo, useState } from "react";
+import {
+  CaseSensitive,
+  CheckSquare,
+  ChevronDown,
+  ChevronRight,
+  Folder,
+  Regex,
+  ReplaceAll,
+  Square,
+  Undo2,
+  WholeWord,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useFileSystem } from "@/hooks/useFileSystem";
+import { useToast } from "@/hooks/use-toast";
+import {
+  createReplacer,
+  findFiles,
+  replaceMatches,
+  SearchMatch,
+  searchContent,
+} from "@/services/SearchService";
+import FileIcon from "./FileIcon";
+
+type SearchMode = "content" | "files";
+
+const MAX_RESULTS = 500;
+
+const ToggleButton = ({
+  active,
+  title,
+  onClick,
+  children,
+}: {
+  active: boolean;
+  title: string;
+  onClick: () => void;
+  children: ReactNode;
+}) => (
+  <button
+    title={title}
+    onClick={onClick}
+    className={cn(
+      "p-1 rounded-sm text-muted-foreground hover:text-foreground",
+      active && "bg-primary/20 text-primary hover:text-primary"
+    )}
+  >
+    {children}
+  </button>
+);
+
+const matchKey = (m: SearchMatch) => `${m.path}:${m.line}:${m.column}`;
+
+const HighlightedPreview = ({ match, replacement }: { match: SearchMatch; replacement?: string }) => {
+  const start = match.column - 1;
+  const leading = match.preview.slice(0, start);
+  // Keep the hit visible when it sits far into a long line
+  const before = leading.length > 40 ? `…${leading.slice(-40).trimStart()}` : leading.trimStart();
+  const matched = match.preview.slice(start, start + match.length);
+  return (
+    <span className="truncate">
+      {before}
+      {replacement === undefined ? (
+        <span className="bg-primary/30 text-foreground rounded-sm">{matched}</span>
+      ) : (
+        <>
+          <span className="bg-ide-error/20 line-through rounded-sm">{matched}</span>
+          <span className="bg-ide-success/20 text-foreground rounded-sm">{replacement}</span>
+        </>
+      )}
+      {match.preview.slice(start + match.length)}
+    </span>
+  );
+};
+
+const SearchPanel = () => {
+  const fs = useFileSystem();
+  const { toast } = useToast();
+  const [mode, setMode] = useState<SearchMode>("content");
+  const [query, setQuery] = useState("");
+  const [include, setInclude] = useState("");
+  const [exclude, setExclude] = useState("");
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [wholeWord, setWholeWord] = useState(false);
+  const [regex, setRegex] = useState(false);
+  const [showReplace, setShowReplace] = useState(false);
+  const [replacement, setReplacement] = useState("");
+  // Hits the user unticked in the replace preview
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [lastReplace, setLastReplace] = useState<{ replaced: number; files: number } | null>(null);
+
+  const searchOptions = useMemo(
+    () => ({
+      regex,
+      caseSensitive,
+      wholeWord,
+      include: include.trim() || undefined,
+      exclude: exclude.trim() || undefined,
+    }),
+    [regex, caseSensitive, wholeWord, include, exclude]
+  );
+
+  useEffect(() => {
+    setExcluded(new Set());
+  }, [query, searchOptions]);
+
+  const { matches, fileHits, error } = useMemo(() => {
+    try {
+      if (mode === "files") {
+        return { matches: [], fileHits: query ? findFiles(fs.files, query).slice(0, MAX_RESULTS) : [], error: null };
+      }
+      const found = searchContent(fs.files, query, { ...searchOptions, maxResults: MAX_RESULTS });
+      return { matches: found, fileHits: [], error: null };
+    } catch (err) {
+      return { matches: [], fileHits: [], error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [fs.files, mode, query, searchOptions]);
+
+  const replacer = useMemo(() => {
+    if (!showReplace || !query || error) return null;
+    return createReplacer(query, replacement, searchOptions);
+  }, [showReplace, query, replacement, searchOptions, error]);
+
+  const grouped = useMemo(() => {
+    const groups: Record<string, SearchMatch[]> = {};
+    for (const m of matches) {
+      (groups[m.path] = groups[m.path] || []).push(m);
+    }
+    return Object.entries(groups);
+  }, [matches]);
+
+  const toggleHits = (hits: SearchMatch[], include: boolean) => {
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      hits.forEach((m) => (include ? next.delete(matchKey(m)) : next.add(matchKey(m))));
+      return next;
+    });
+  };
+
+  const handleReplaceAll = () => {
+    try {
+      const { updates, replaced } = replaceMatches(
+        fs.files,
+        query,
+        replacement,
+        searchOptions,
+        (m) => !excluded.has(matchKey(m))
+      );
+      if (replaced === 0) {
+        toast({ title: "Nothing to replace", description: "No selected matches" });
+        return;
+      }
+      const fileCount = Object.keys(updates).length;
+      fs.updateFiles(updates, `replace "${query}" with "${replacement}"`);
+      setLastReplace({ replaced, files: fileCount });
+      toast({ title: "Replaced", description: `${replaced} occurrence(s) in ${fileCount} file(s)` });
+    } catch (err) {
+      toast({ title: "Error", description: String(err), variant: "destructive" });
+    }
+  };
+
+  const handleUndoReplace = () => {
+    try {
+      fs.undoLastBatch();
+      setLastReplace(null);
+    } catch (err) {
+      toast({ title: "Error", description: String(err), variant: "destructive" });
+    }
+  };
+
+  const canReplace = mode === "content" && !fs.readOnly;
+
+  return (
+    <div className="h-full flex flex-col bg-ide-sidebar border-r border-border">
+      <div className="p-3 border-b border-border space-y-2">
+        <div className="flex items-center justify-between">
+          <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Search</h3>
+          <div className="flex gap-1 text-xs">
+            {(["content", "files"] as const).map((m) => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={cn(
+                  "px-2 py-0.5 rounded-sm text-muted-foreground hover:text-foreground",
+                  mode === m && "bg-muted text-foreground"
+                )}
+              >
+                {m === "content" ? "Text" : "Files"}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="relative flex items-center gap-1">
+          {canReplace && (
+            <button
+              className="text-muted-foreground hover:text-foreground"
+              title="Toggle replace"
+              onClick={() => setShowReplace((v) => !v)}
+            >
+              {showReplace ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+            </button>
+          )}
+          <Input
+            placeholder={mode === "content" ? "Search" : "File name glob, e.g. *.tsx"}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className={cn("h-8 text-sm", mode === "content" && "pr-20")}
+          />
+          {mode === "content" && (
+            <div className="absolute right-1 top-1/2 -translate-y-1/2 flex gap-0.5">
+              <ToggleButton active={caseSensitive} title="Match case" onClick={() => setCaseSensitive((v) => !v)}>
+                <CaseSensitive className="w-4 h-4" />
+              </ToggleButton>
+              <ToggleButton active={wholeWord} title="Match whole word" onClick={() => setWholeWord((v) => !v)}>
+                <WholeWord className="w-4 h-4" />
+              </ToggleButton>
+              <ToggleButton active={regex} title="Use regular expression" onClick={() => setRegex((v) => !v)}>
+                <Regex className="w-4 h-4" />
+              </ToggleButton>
+            </div>
+          )}
+        </div>
+        {canReplace && showReplace && (
+          <div className="flex items-center gap-1 pl-5">
+            <Input
+              placeholder={regex ? "Replace (use $1, $<name> for groups)" : "Replace"}
+              value={replacement}
+              onChange={(e) => setReplacement(e.target.value)}
+              className="h-8 text-sm"
+            />
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-8 px-2"
+              title="Replace all selected matches"
+              onClick={handleReplaceAll}
+              disabled={!query || !!error || matches.length === 0}
+            >
+              <ReplaceAll className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
+        {lastReplace && fs.lastBatch && (
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <span>
+              Replaced {lastReplace.replaced} in {lastReplace.files} file(s)
+            </span>
+            <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" onClick={handleUndoReplace}>
+              <Undo2 className="w-3 h-3 mr-1" /> Undo
+            </Button>
+          </div>
+        )}
+        {mode === "content" && (
+          <>
+            <Input
+              placeholder="Files to include, e.g. *.ts"
+              value={include}
+              onChange={(e) => setInclude(e.target.value)}
+              className="h-7 text-xs"
+            />
+            <Input
+              placeholder="Files to exclude"
+              value={exclude}
+              onChange={(e) => setExclude(e.target.value)}
+              className="h-7 text-xs"
+            />
+          </>
+        )}
+        {error ? (
+          <p className="text-xs text-ide-error">{error}</p>
+        ) : (
+          query && (
+            <p className="text-xs text-muted-foreground">
+              {mode === "content"
+                ? `${matches.length}${matches.length >= MAX_RESULTS ? "+" : ""} result(s) in ${grouped.length} file(s)`
+                : `${fileHits.length}${fileHits.length >= MAX_RESULTS ? "+" : ""} match(es)`}
+            </p>
+          )
+        )}
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="py-2 text-sm">
+          {mode === "files"
+            ? fileHits.map((node) => (
+                <button
+                  key={node.path}
+                  className="w-full flex items-center gap-2 px-3 py-1 text-left hover:bg-muted/50"
+                  onClick={() => node.type === "file" && fs.selectFile(node.path)}
+                >
+                  {node.type === "folder" ? (
+                    <Folder className="w-4 h-4 text-ide-folder shrink-0" />
+                  ) : (
+                    <FileIcon path={node.path} className="shrink-0" />
+                  )}
+                  <span className="truncate font-mono text-xs">{node.path}</span>
+                </button>
+              ))
+            : grouped.map(([path, hits]) => (
+                <div key={path} className="mb-1">
+                  <div className="flex items-center gap-2 px-3 py-1 text-xs font-semibold" title={path}>
+                    {replacer && (
+                      <button
+                        className="text-muted-foreground hover:text-foreground"
+                        onClick={() => toggleHits(hits, hits.every((m) => excluded.has(matchKey(m))))}
+                      >
+                        {hits.some((m) => !excluded.has(matchKey(m))) ? (
+                          <CheckSquare className="w-3 h-3" />
+                        ) : (
+                          <Square className="w-3 h-3" />
+                        )}
+                      </button>
+                    )}
+                    <FileIcon path={path} className="w-3 h-3 shrink-0" />
+                    <span className="truncate">{path}</span>
+                    <span className="ml-auto text-muted-foreground">{hits.length}</span>
+                  </div>
+                  {hits.map((m) => {
+                    const isExcluded = excluded.has(matchKey(m));
+                    return (
+                      <div
+                        key={matchKey(m)}
+                        className={cn(
+                          "flex items-center gap-2 pl-8 pr-3 py-0.5 text-xs font-mono hover:bg-muted/50",
+                          fs.selectedFile === path && fs.revealTarget?.line === m.line && "bg-primary/10",
+                          replacer && isExcluded && "opacity-50"
+                        )}
+                      >
+                        {replacer && (
+                          <button
+                            className="text-muted-foreground hover:text-foreground shrink-0"
+                            title={isExcluded ? "Include in replace" : "Exclude from replace"}
+                            onClick={() => toggleHits([m], isExcluded)}
+                          >
+                            {isExcluded ? <Square className="w-3 h-3" /> : <CheckSquare className="w-3 h-3" />}
+                          </button>
+                        )}
+                        <button
+                          className="flex gap-2 min-w-0 flex-1 text-left"
+                          onClick={() => fs.openFileAt(m.path, m.line, m.column)}
+                        >
+                          <span className="text-muted-foreground shrink-0">
+                            {m.line}:{m.column}
+                          </span>
+                          <HighlightedPreview
+                            match={m}
+                            replacement={replacer && !isExcluded ? replacer(m.preview, m.column) : undefined}
+                          />
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
+
+export default SearchPanel;
@@ -0,0 +1,254 @@
+import { useEffect, useState } from "react";
+import { Ban, Copy, ExternalLink, Loader2, Share2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { IDEFileSystem } from "@/services/IDEFileSystem";
+import { IDEWorkspaceInfo } from "@/services/WorkspaceRegistry";
+import {
+  createSnapshot,
+  getSnapshotUrl,
+  isSnapshotLive,
+  listSnapshots,
+  revokeSnapshot,
+  setSnapshotExpiry,
+  WorkspaceSnapshot,
+} from "@/services/SnapshotService";
+
+interface ShareSnapshotDialogProps {
+  workspace: IDEWorkspaceInfo;
+  fileSystem: IDEFileSystem;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Expiry choices, in days from now ("never" keeps the link open until revoked)
+const EXPIRY_OPTIONS = [
+  { value: "1", label: "1 day" },
+  { value: "7", label: "7 days" },
+  { value: "30", label: "30 days" },
+  { value: "never", label: "Never" },
+];
+
+const expiryFromNow = (value: string) => (value === "never" ? null : Date.now() + Number(value) * DAY);
+
+const SnapshotStatus = ({ snapshot }: { snapshot: WorkspaceSnapshot }) => {
+  if (snapshot.revokedAt) return <Badge variant="destructive">revoked</Badge>;
+  if (!isSnapshotLive(snapshot)) return <Badge variant="secondary">expired</Badge>;
+  return <Badge variant="outline">active</Badge>;
+};
+
+const ShareSnapshotDialog = ({ workspace, fileSystem, open, onOpenChange }: ShareSnapshotDialogProps) => {
+  const { toast } = useToast();
+  const [title, setTitle] = useState("");
+  const [expiry, setExpiry] = useState("7");
+  const [creating, setCreating] = useState(false);
+  const [snapshots, setSnapshots] = useState<WorkspaceSnapshot[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setLoading(true);
+    listSnapshots(workspace.id)
+      .then((list) => {
+        if (!cancelled) setSnapshots(list);
+      })
+      .catch((err) => {
+        console.error("Error loading snapshots:", err);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, workspace.id]);
+
+  const replace = (snapshot: WorkspaceSnapshot) =>
+    setSnapshots((list) => list.map((s) => (s.id === snapshot.id ? snapshot : s)));
+
+  const copyLink = async (snapshot: WorkspaceSnapshot) => {
+    try {
+      await navigator.clipboard.writeText(getSnapshotUrl(snapshot.shareToken));
+      toast({ title: "Link copied", description: snapshot.title });
+    } catch (err) {
+      toast({ title: "Error", description: String(err), variant: "destructive" });
+    }
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      // Hidden (locked) files stay out of public links
+      const snapshot = await createSnapshot(fileSystem.getVisibleFiles(), {
+        title,
+        workspaceKey: workspace.id,
+        workspaceName: workspace.name,
+        submissionId: workspace.submissionId,
+        expiresAt: expiryFromNow(expiry),
+      });
+      setSnapshots((list) => [snapshot, ...list]);
+      setTitle("");
+      await copyLink(snapshot);
+    } catch (err) {
+      toast({ title: "Could not share snapshot", description: String(err), variant: "destructive" });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (snapshot: WorkspaceSnapshot) => {
+    if (!confirm(`Revoke the link for "${snapshot.title}"? Anyone using it will lose access.`)) return;
+    try {
+      replace(await revokeSnapshot(snapshot.id));
+    } catch (err) {
+      toast({ title: "Error", description: String(err), variant: "destructive" });
+    }
+  };
+
+  const handleExpiryChange = async (snapshot: WorkspaceSnapshot, value: string) => {
+    try {
+      replace(await setSnapshotExpiry(snapshot.id, expiryFromNow(value)));
+    } catch (err) {
+      toast({ title: "Error", description: String(err), variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Share2 className="w-4 h-4" /> Share Snapshot
+          </DialogTitle>
+          <DialogDescription>
+            Freeze the current files of "{workspace.name}" into a read-only link. Later edits are not included.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Input
+            placeholder="Snapshot title (optional)"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            className="flex-1"
+          />
+          <Select value={expiry} onValueChange={setExpiry}>
+            <SelectTrigger className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPIRY_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleCreate} disabled={creating}>
+            {creating ? <Loader2 className="w-4 h-4 animate-spin" /> : "Create Link"}
+          </Button>
+        </div>
+
+        <ScrollArea className="h-[40vh] border border-border rounded-md">
+          {loading ? (
+            <div className="h-32 flex items-center justify-center">
+              <Loader2 className="w-5 h-5 animate-spin text-primary" />
+            </div>
+          ) : snapshots.length === 0 ? (
+            <p className="p-4 text-sm text-muted-foreground">No snapshots shared from this workspace yet.</p>
+          ) : (
+            <div className="divide-y divide-border">
+              {snapshots.map((snapshot) => {
+                const live = isSnapshotLive(snapshot);
+                return (
+                  <div key={snapshot.id} className="flex items-center gap-2 p-2 text-sm">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="truncate font-medium">{snapshot.title}</span>
+                        <SnapshotStatus snapshot={snapshot} />
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {new Date(snapshot.createdAt).toLocaleString()} · {snapshot.fileCount} files ·{" "}
+                        {snapshot.expiresAt
+                          ? `${live ? "expires" : "expired"} ${new Date(snapshot.expiresAt).toLocaleString()}`
+                          : "no expiry"}
+                      </div>
+                    </div>
+                    {!snapshot.revokedAt && (
+                      <>
+                        <Select value="" onValueChange={(value) => handleExpiryChange(snapshot, value)}>
+                          <SelectTrigger className="h-7 w-28 text-xs">
+                            <SelectValue placeholder="Set expiry" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {EXPIRY_OPTIONS.map((option) => (
+                              <SelectItem key={option.value} value={option.value} className="text-xs">
+                                {option.value === "never" ? "Never expire" : `${option.label} from now`}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-7 w-7 p-0"
+                          onClick={() => copyLink(snapshot)}
+                          disabled={!live}
+                          title="Copy link"
+                        >
+                          <Copy className="w-3 h-3" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-7 w-7 p-0"
+                          onClick={() => window.open(getSnapshotUrl(snapshot.shareToken), "_blank")}
+                          disabled={!live}
+                          title="Open"
+                        >
+                          <ExternalLink className="w-3 h-3" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-7 w-7 p-0 text-destructive"
+                          onClick={() => handleRevoke(snapshot)}
+                          title="Revoke link"
+                        >
+                          <Ban className="w-3 h-3" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ShareSnapshotDialog;
@@ -0,0 +1,297 @@
+import { useEffect, useState } from "react";
+import { ArrowDownToLine, ExternalLink, GitBranch, GitCommitHorizontal, Github, Loader2, RefreshCw } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useFileSystem } from "@/hooks/useFileSystem";
+import { useGitHubAccount } from "@/hooks/useGitHubAccount";
+import { useToast } from "@/hooks/use-toast";
+import { ClonedRepo, CloneRegistry } from "@/services/CloneRegistry";
+import { GitHubAccount } from "@/services/GitHubAccount";
+import { IDEFileSystem } from "@/services/IDEFileSystem";
+import GitHubConnectionDialog from "./GitHubConnectionDialog";
+import {
+  canTrackChanges,
+  ChangeStatus,
+  getChanges,
+  pullChanges,
+  pushChanges,
+  WorkspaceChange,
+} from "@/services/SourceControlService";
+
+const STATUS_LABELS: Record<ChangeStatus, { letter: string; className: string }> = {
+  added: { letter: "A", className: "text-ide-success" },
+  modified: { letter: "M", className: "text-ide-warning" },
+  deleted: { letter: "D", className: "text-ide-error" },
+  conflicted: { letter: "C", className: "text-ide-error" },
+};
+
+interface SourceControlPanelProps {
+  /** Unfiltered files, so paths hidden by a lock are not mistaken for deletions */
+  fileSystem: IDEFileSystem;
+}
+
+const SourceControlPanel = ({ fileSystem }: SourceControlPanelProps) => {
+  const { files, selectFile } = useFileSystem();
+  const { toast } = useToast();
+  const { connection } = useGitHubAccount();
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [clones, setClones] = useState<ClonedRepo[]>(() => CloneRegistry.getAll());
+  const [clonePath, setClonePath] = useState("");
+  const [changes, setChanges] = useState<WorkspaceChange[]>([]);
+  const [scanning, setScanning] = useState(false);
+  const [refreshCount, setRefreshCount] = useState(0);
+  const [message, setMessage] = useState("");
+  // null: use the suggested branch for the selected repository
+  const [branchInput, setBranchInput] = useState<string | null>(null);
+  const [openPullRequest, setOpenPullRequest] = useState(true);
+  const [pushing, setPushing] = useState(false);
+  const [pulling, setPulling] = useState(false);
+  const [lastPush, setLastPush] = useState<{ branch: string; pullRequestUrl?: string } | null>(null);
+
+  const clone = clones.find((c) => c.path === clonePath) || clones[0] || null;
+  const trackable = !!clone && canTrackChanges(clone);
+
+  // Re-read the registry and re-diff whenever files change (cloning adds to the registry)
+  useEffect(() => {
+    const all = CloneRegistry.getAll();
+    setClones(all);
+    const current = all.find((c) => c.path === clonePath) || all[0];
+    if (!current || !canTrackChanges(current)) {
+      setChanges([]);
+      return;
+    }
+
+    let cancelled = false;
+    setScanning(true);
+    getChanges(current, fileSystem.getAllFiles())
+      .then((list) => {
+        if (!cancelled) setChanges(list);
+      })
+      .catch((err) => console.error("Error comparing with the cloned commit:", err))
+      .finally(() => {
+        if (!cancelled) setScanning(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [files, fileSystem, clonePath, refreshCount]);
+
+  // Changes go to a separate branch by default; pushing straight to the cloned branch is opt-in
+  const branch = branchInput ?? (clone ? `bodhit/${clone.repo}-changes` : "");
+  const targetsBase = !!clone && branch.trim() === clone.branch;
+
+  const handlePush = async () => {
+    if (!clone) return;
+    setPushing(true);
+    try {
+      const firstLine = message.trim().split("\n")[0];
+      const result = await pushChanges(GitHubAccount.getService(), clone, fileSystem.getAllFiles(), changes, {
+        message: message.trim(),
+        branch: branch.trim(),
+        pullRequest: openPullRequest && !targetsBase ? { title: firstLine, body: message.trim() } : undefined,
+      });
+      setLastPush(result);
+      setMessage("");
+      setRefreshCount((n) => n + 1);
+      toast({
+        title: "Pushed",
+        description: `${changes.length} file(s) committed to ${clone.owner}/${clone.repo}@${result.branch}`,
+      });
+    } catch (err) {
+      toast({ title: "Push failed", description: err instanceof Error ? err.message : String(err), variant: "destructive" });
+    } finally {
+      setPushing(false);
+    }
+  };
+
+  const handlePull = async () => {
+    if (!clone) return;
+    setPulling(true);
+    try {
+      const result = await pullChanges(GitHubAccount.getService(), clone, fileSystem);
+      setRefreshCount((n) => n + 1);
+      if (result.upToDate) {
+        toast({ title: "Already up to date", description: `${clone.branch} is still at ${result.commitSha.slice(0, 7)}` });
+        return;
+      }
+      const summary = [
+        `${result.updated.length} updated`,
+        `${result.merged.length} merged`,
+        result.kept.length > 0 && `${result.kept.length} deleted on one side and kept (${result.kept.join(", ")})`,
+      ].filter(Boolean);
+      if (result.conflicted.length > 0) {
+        selectFile(`${clone.path}/${result.conflicted[0]}`);
+        toast({
+          title: `Pulled with ${result.conflicted.length} conflict(s)`,
+          description: `Resolve the marked changes in ${result.conflicted.join(", ")}. ${summary.join(", ")}.`,
+          variant: "destructive",
+        });
+      } else {
+        toast({ title: `Pulled ${clone.branch}@${result.commitSha.slice(0, 7)}`, description: `${summary.join(", ")}.` });
+      }
+    } catch (err) {
+      toast({ title: "Pull failed", description: err instanceof Error ? err.message : String(err), variant: "destructive" });
+    } finally {
+      setPulling(false);
+    }
+  };
+
+  if (clones.length === 0) {
+    return (
+      <div className="h-full flex items-center justify-center p-4 bg-ide-sidebar text-center text-xs text-muted-foreground">
+        Clone a GitHub repository from the Files panel to commit your changes back to it.
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col bg-ide-sidebar">
+      <div className="h-9 border-b border-border flex items-center gap-2 px-2">
+        <GitBranch className="w-4 h-4 text-muted-foreground shrink-0" />
+        <Select
+          value={clone?.path}
+          onValueChange={(path) => {
+            setClonePath(path);
+            setBranchInput(null);
+          }}
+        >
+          <SelectTrigger className="h-7 flex-1 min-w-0 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {clones.map((c) => (
+              <SelectItem key={c.path} value={c.path} className="text-xs">
+                {c.owner}/{c.repo}
+                {c.subdir && `/${c.subdir}`}
+                {c.ref && ` @ ${c.refType === "commit" ? c.ref.slice(0, 7) : c.ref}`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-6 w-6 p-0"
+          onClick={handlePull}
+          disabled={!trackable || !clone?.branch || pulling}
+          title={clone?.branch ? `Pull ${clone.branch} from GitHub` : "Only clones of a branch can pull"}
+        >
+          {pulling ? <Loader2 className="w-3 h-3 animate-spin" /> : <ArrowDownToLine className="w-3 h-3" />}
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-6 w-6 p-0"
+          onClick={() => setRefreshCount((n) => n + 1)}
+          title="Refresh changes"
+        >
+          <RefreshCw className={cn("w-3 h-3", scanning && "animate-spin")} />
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="py-2 text-xs">
+          {!trackable ? (
+            <p className="px-3 text-muted-foreground">
+              This repository was cloned before pushing was supported. Clone it again to commit changes.
+            </p>
+          ) : changes.length === 0 ? (
+            <p className="px-3 text-muted-foreground">No changes since {clone?.baseCommit?.slice(0, 7)}.</p>
+          ) : (
+            changes.map((change) => (
+              <button
+                key={change.path}
+                className="w-full flex items-center gap-2 px-3 py-1 text-left hover:bg-muted/50 disabled:cursor-default"
+                onClick={() => selectFile(change.path)}
+                disabled={change.status === "deleted"}
+                title={change.path}
+              >
+                <span className={cn("w-3 font-mono font-semibold", STATUS_LABELS[change.status].className)}>
+                  {STATUS_LABELS[change.status].letter}
+                </span>
+                <span className={cn("truncate font-mono", change.status === "deleted" && "line-through")}>
+                  {change.relativePath}
+                </span>
+              </button>
+            ))
+          )}
+        </div>
+      </ScrollArea>
+
+      {trackable && (
+        <div className="border-t border-border p-2 space-y-2">
+          <Textarea
+            placeholder="Commit message"
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            className="min-h-[60px] text-xs"
+          />
+          <Input
+            placeholder="Branch"
+            value={branch}
+            onChange={(e) => setBranchInput(e.target.value)}
+            className="h-7 text-xs font-mono"
+          />
+          {clone?.branch && (
+            <label className="flex items-center gap-2 text-xs text-muted-foreground">
+              <Checkbox
+                checked={openPullRequest && !targetsBase}
+                onCheckedChange={(checked) => setOpenPullRequest(checked === true)}
+                disabled={targetsBase}
+              />
+              Open a pull request into {clone.branch}
+            </label>
+          )}
+          {connection ? (
+            <Button
+              size="sm"
+              className="w-full h-7 text-xs"
+              onClick={handlePush}
+              disabled={pushing || changes.length === 0 || !message.trim() || !branch.trim()}
+              title={`Push as ${connection.login}`}
+            >
+              {pushing ? (
+                <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+              ) : (
+                <GitCommitHorizontal className="w-3 h-3 mr-1" />
+              )}
+              Commit & Push {changes.length > 0 && `(${changes.length})`}
+            </Button>
+          ) : (
+            <Button size="sm" variant="outline" className="w-full h-7 text-xs" onClick={() => setSettingsOpen(true)}>
+              <Github className="w-3 h-3 mr-1" />
+              Connect GitHub to push
+            </Button>
+          )}
+          {lastPush?.pullRequestUrl && (
+            <a
+              href={lastPush.pullRequestUrl}
+              target="_blank"
+              rel="noreferrer"
+              className="flex items-center gap-1 text-xs text-primary hover:underline"
+            >
+              <ExternalLink className="w-3 h-3" />
+              View pull request
+            </a>
+          )}
+        </div>
+      )}
+
+      <GitHubConnectionDialog open={settingsOpen} onOpenChange={setSettingsOpen} />
+    </div>
+  );
+};
+
+export default SourceControlPanel;
@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { AlertTriangle, Cloud, CloudOff, Loader2, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import { SyncConflict, SyncStatus } from "@/services/WorkspaceSyncService";
+
+interface SyncStatusBarProps {
+  status: SyncStatus;
+  conflicts: SyncConflict[];
+  lastError: string | null;
+  onSync: () => void;
+  onResolve: (path: string, keep: "local" | "remote") => void;
+}
+
+const statusLabels: Record<SyncStatus, string> = {
+  idle: "Not synced",
+  syncing: "Syncing...",
+  synced: "Synced",
+  conflict: "Conflicts",
+  error: "Sync failed",
+  offline: "Offline",
+};
+
+const SyncStatusBar = ({ status, conflicts, lastError, onSync, onResolve }: SyncStatusBarProps) => {
+  const [showConflicts, setShowConflicts] = useState(false);
+
+  const icon =
+    status === "syncing" ? (
+      <Loader2 className="w-3 h-3 animate-spin" />
+    ) : status === "offline" || status === "error" ? (
+      <CloudOff className="w-3 h-3" />
+    ) : status === "conflict" ? (
+      <AlertTriangle className="w-3 h-3" />
+    ) : (
+      <Cloud className="w-3 h-3" />
+    );
+
+  return (
+    <div className="px-3 py-2 border-b border-border flex items-center justify-between gap-2 bg-ide-sidebar">
+      <Badge
+        variant="outline"
+        className={cn(
+          "gap-1 text-xs cursor-default",
+          status === "synced" && "text-ide-success",
+          (status === "error" || status === "conflict") && "text-ide-error cursor-pointer"
+        )}
+        title={lastError || undefined}
+        onClick={() => conflicts.length > 0 && setShowConflicts(true)}
+      >
+        {icon}
+        {statusLabels[status]}
+        {conflicts.length > 0 && ` (${conflicts.length})`}
+      </Badge>
+      <Button
+        size="sm"
+        variant="ghost"
+        className="h-6 px-2 text-xs"
+        onClick={onSync}
+        disabled={status === "syncing"}
+      >
+        <RefreshCw className="w-3 h-3 mr-1" /> Sync
+      </Button>
+
+      <Dialog open={showConflicts} onOpenChange={setShowConflicts}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Sync Conflicts</DialogTitle>
+            <DialogDescription>
+              These files changed on this device and on another device. Choose which version to keep.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 max-h-[60vh] overflow-auto">
+            {conflicts.map((conflict) => (
+              <div key={conflict.path} className="border border-border rounded-md p-3 space-y-2">
+                <div className="font-mono text-sm">{conflict.path}</div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <div className="text-xs text-muted-foreground mb-1">This device</div>
+                    <pre className="text-xs font-mono bg-muted/50 p-2 rounded max-h-40 overflow-auto">
+                      {conflict.local ? conflict.local.content || "(folder)" : "(deleted)"}
+                    </pre>
+                  </div>
+                  <div>
+                    <div className="text-xs text-muted-foreground mb-1">
+                      Remote (revision {conflict.remote.revision})
+                    </div>
+                    <pre className="text-xs font-mono bg-muted/50 p-2 rounded max-h-40 overflow-auto">
+                      {conflict.remote.deleted ? "(deleted)" : conflict.remote.content || "(folder)"}
+                    </pre>
+                  </div>
+                </div>
+                <div className="flex justify-end gap-2">
+                  <Button size="sm" variant="outline" onClick={() => onResolve(conflict.path, "local")}>
+                    Keep mine
+                  </Button>
+                  <Button size="sm" onClick={() => onResolve(conflict.path, "remote")}>
+                    Use remote
+                  </Button>
+                </div>
+              </div>
+            ))}
+            {conflicts.length === 0 && (
+              <p className="text-sm text-muted-foreground">All conflicts resolved.</p>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default SyncStatusBar;
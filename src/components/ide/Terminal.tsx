@@ -2,9 +2,14 @@ import { useState, useRef, useEffect } from "react";
 import { Terminal as TerminalIcon, Minimize2, Maximize2 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useFileSystem } from "@/hooks/useFileSystem";
+import { FileNode } from "@/services/IDEFileSystem";
+import { findFiles, searchContent } from "@/services/SearchService";
+import { DEFAULT_TIMEOUT_MS, isRunnable, runInSandbox, SandboxRun } from "@/services/SandboxRunner";
+import { findTestFiles, formatTestName, testRunner, TestRunSummary } from "@/services/TestRunner";
+import { TerminalBus, TerminalLineType } from "@/services/TerminalBus";
 
 interface TerminalLine {
-  type: "input" | "output" | "error" | "success" | "info";
+  type: TerminalLineType;
   content: string;
   timestamp: Date;
 }
@@ -12,17 +17,48 @@ interface TerminalLine {
 interface TerminalProps {
   isExpanded: boolean;
   onToggle: () => void;
+  /** Starting directory, e.g. the workspace's last one */
+  initialCwd?: string;
+  onCwdChange?: (cwd: string) => void;
 }
 
-const Terminal = ({ isExpanded, onToggle }: TerminalProps) => {
+// Split a command line on whitespace, keeping '...' and "..." together
+const splitArgs = (line: string): string[] => {
+  const args: string[] = [];
+  let current = "";
+  let quote: string | null = null;
+  let inToken = false;
+  for (const ch of line) {
+    if (quote) {
+      if (ch === quote) quote = null;
+      else current += ch;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+      inToken = true;
+    } else if (/\s/.test(ch)) {
+      if (inToken) args.push(current);
+      current = "";
+      inToken = false;
+    } else {
+      current += ch;
+      inToken = true;
+    }
+  }
+  if (inToken) args.push(current);
+  return args;
+};
+
+const Terminal = ({ isExpanded, onToggle, initialCwd = "/src", onCwdChange }: TerminalProps) => {
   const fs = useFileSystem();
-  const [cwd, setCwd] = useState("/src");
+  const [cwd, setCwd] = useState(initialCwd);
   const [lines, setLines] = useState<TerminalLine[]>([
     { type: "info", content: "AMIT-BODHIT Terminal v2.0", timestamp: new Date() },
     { type: "info", content: "Type 'help' for available commands", timestamp: new Date() },
     { type: "output", content: "", timestamp: new Date() },
   ]);
   const [input, setInput] = useState("");
+  // Program started with `node`/`run`; Ctrl+C stops it
+  const [running, setRunning] = useState<SandboxRun | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
 
@@ -32,28 +68,59 @@ const Terminal = ({ isExpanded, onToggle }: TerminalProps) => {
     }
   }, [lines]);
 
+  useEffect(() => () => running?.cancel(), [running]);
+
+  useEffect(
+    () =>
+      TerminalBus.subscribe((type, content) =>
+        setLines((prev) => [...prev, { type, content, timestamp: new Date() }])
+      ),
+    []
+  );
+
   const resolvePath = (rawPath: string) => {
-    if (!rawPath || rawPath === ".") return cwd;
-    if (rawPath.startsWith("/")) return rawPath;
-    if (rawPath === "..") {
-      const parts = cwd.split("/").filter(Boolean);
-      parts.pop();
-      return "/" + parts.join("/");
+    if (!rawPath) return cwd;
+    const parts = rawPath.startsWith("/") ? [] : cwd.split("/").filter(Boolean);
+    for (const segment of rawPath.split("/")) {
+      if (!segment || segment === ".") continue;
+      if (segment === "..") {
+        parts.pop();
+      } else {
+        parts.push(segment);
+      }
     }
-    return `${cwd.replace(/\/+$/, "")}/${rawPath}`;
+    return "/" + parts.join("/");
   };
 
   const addLine = (type: TerminalLine["type"], content: string) => {
     setLines((prev) => [...prev, { type, content, timestamp: new Date() }]);
   };
 
+  const printTestSummary = (summary: TestRunSummary) => {
+    for (const file of summary.files) {
+      const failures = file.tests.filter((t) => t.status === "failed");
+      if (file.error) {
+        addLine("error", `✗ ${file.path}\n  ${file.error.replace(/\n/g, "\n  ")}`);
+      } else if (failures.length > 0) {
+        addLine("error", `✗ ${file.path} (${failures.length}/${file.tests.length} failed)`);
+        failures.forEach((t) => addLine("error", `  ✗ ${formatTestName(t)}\n    ${(t.error || "").replace(/\n/g, "\n    ")}`));
+      } else {
+        addLine("success", `✓ ${file.path} (${file.tests.length} tests) ${file.duration}ms`);
+      }
+    }
+    const parts = [`${summary.passed} passed`];
+    if (summary.failed) parts.push(`${summary.failed} failed`);
+    if (summary.skipped) parts.push(`${summary.skipped} skipped`);
+    addLine(summary.failed ? "error" : "success", `Tests: ${parts.join(", ")} (${summary.total}) in ${summary.duration}ms`);
+  };
+
   const runCommand = (cmd: string) => {
     const trimmed = cmd.trim();
     if (!trimmed) return;
 
     addLine("input", `${cwd} $ ${trimmed}`);
 
-    const [command, ...args] = trimmed.split(/\s+/);
+    const [command, ...args] = splitArgs(trimmed);
 
     try {
       switch (command) {
@@ -66,16 +133,24 @@ const Terminal = ({ isExpanded, onToggle }: TerminalProps) => {
               "  clear              Clear terminal",
               "  pwd                Print current directory",
               "  ls [path]          List entries",
-              "  tree [path]        Show folder tree (flat listing)",
+              "  tree [path]        Show folder tree",
               "  cd <path>          Change directory",
               "  cat <file>         Print file content",
               "  touch <file>       Create empty file",
               "  mkdir <folder>     Create folder",
               "  rm <path>          Delete file",
               "  rm -r <folder>     Delete folder recursively",
-              "  mv <old> <new>     Rename file/folder",
+              "  mv <src> <dest>    Move/rename file or folder",
+              "  find [path] [-name <glob>] [-type f|d]  Find files by name",
+              "  grep [-rnilwF] <pattern> [path...]     Search file contents",
               "  edit <file>        Select file in editor",
+              "  node <file> [args] Run a JS/TS file in a sandbox (alias: run)",
+              "  test [path|name]   Run *.test.* / *.spec.* files",
+              "  history <file>     List saved revisions of a file",
+              "  restore <file> <rev>  Restore a file to a revision",
               "  stats              Show project stats",
+              "",
+              `Programs run for up to ${DEFAULT_TIMEOUT_MS / 1000}s with limited output; memory use is not limited.`,
             ].join("\n")
           );
           break;
@@ -105,19 +180,39 @@ const Terminal = ({ isExpanded, onToggle }: TerminalProps) => {
         }
         case "tree": {
           const target = resolvePath(args[0] || ".");
-          const all = Object.keys(fs.files)
-            .filter((p) => p === target || p.startsWith(target.endsWith("/") ? target : `${target}/`))
-            .sort();
-          addLine("output", all.length ? all.join("\n") : "(empty)");
+          const findNode = (nodes: FileNode[]): FileNode[] | null => {
+            if (target === "/") return nodes;
+            for (const n of nodes) {
+              if (n.path === target) return n.children || [n];
+              if (n.children && target.startsWith(`${n.path}/`)) return findNode(n.children);
+            }
+            return null;
+          };
+          const nodes = findNode(fs.getFileTree());
+          if (!nodes) {
+            addLine("error", `Path not found: ${target}`);
+            break;
+          }
+          const out: string[] = [target];
+          const walk = (list: FileNode[], prefix: string) => {
+            list.forEach((n, i) => {
+              const last = i === list.length - 1;
+              out.push(`${prefix}${last ? "└── " : "├── "}${n.name}${n.type === "folder" ? "/" : ""}`);
+              if (n.children?.length) walk(n.children, `${prefix}${last ? "    " : "│   "}`);
+            });
+          };
+          walk(nodes, "");
+          addLine("output", out.length > 1 ? out.join("\n") : "(empty)");
           break;
         }
         case "cd": {
           const target = resolvePath(args[0] || "/");
           const node = fs.files[target];
-          if (!node || node.type !== "folder") {
+          if (target !== "/" && (!node || node.type !== "folder")) {
             addLine("error", `Not a directory: ${target}`);
           } else {
             setCwd(target);
+            onCwdChange?.(target);
             addLine("success", `Changed directory to ${target}`);
           }
           break;
@@ -138,7 +233,7 @@ const Terminal = ({ isExpanded, onToggle }: TerminalProps) => {
             addLine("error", "Usage: touch <file>");
             break;
           }
-          fs.createFile(target, "", "text");
+          fs.createFile(target, "");
           addLine("success", `Created file: ${target}`);
           break;
         }
@@ -165,13 +260,104 @@ const Terminal = ({ isExpanded, onToggle }: TerminalProps) => {
         }
         case "mv": {
           if (args.length < 2) {
-            addLine("error", "Usage: mv <oldPath> <newName>");
+            addLine("error", "Usage: mv <source>... <dest>");
+            break;
+          }
+          const rawDest = args[args.length - 1];
+          const dest = resolvePath(rawDest);
+          const sources = args.slice(0, -1).map(resolvePath);
+          const destIsDir = dest === "/" || fs.files[dest]?.type === "folder";
+          if ((sources.length > 1 || rawDest.endsWith("/")) && !destIsDir) {
+            addLine("error", `Not a directory: ${dest}`);
             break;
           }
-          const from = resolvePath(args[0]);
-          const toName = args[1];
-          fs.renameFile(from, toName);
-          addLine("success", `Renamed: ${from} -> ${toName}`);
+          for (const from of sources) {
+            const moved = fs.moveFile(from, dest);
+            addLine("success", `Moved: ${from} -> ${moved.path}`);
+          }
+          break;
+        }
+        case "find": {
+          let root = ".";
+          let name = "";
+          let type: "file" | "folder" | undefined;
+          for (let i = 0; i < args.length; i++) {
+            if (args[i] === "-name") {
+              name = args[++i] || "";
+            } else if (args[i] === "-type") {
+              const t = args[++i];
+              if (t !== "f" && t !== "d") {
+                addLine("error", "find: -type must be f or d");
+                return;
+              }
+              type = t === "f" ? "file" : "folder";
+            } else {
+              root = args[i];
+            }
+          }
+          const base = resolvePath(root);
+          if (!fs.files[base] && base !== "/") {
+            addLine("error", `find: ${base}: No such file or directory`);
+            break;
+          }
+          const found = findFiles(fs.files, name, { root: base, type });
+          addLine("output", found.length ? found.map((n) => n.path).join("\n") : "(no matches)");
+          break;
+        }
+        case "grep": {
+          const flags = new Set<string>();
+          const rest: string[] = [];
+          for (const arg of args) {
+            if (arg.startsWith("-") && arg.length > 1 && rest.length === 0) {
+              arg.slice(1).split("").forEach((f) => flags.add(f));
+            } else {
+              rest.push(arg);
+            }
+          }
+          const [pattern, ...targets] = rest;
+          if (!pattern) {
+            addLine("error", "Usage: grep [-rnilwF] <pattern> [path...]");
+            break;
+          }
+          const recursive = flags.has("r") || flags.has("R");
+          if (!recursive && targets.length === 0) {
+            addLine("error", "grep: no file given (use -r to search the current directory)");
+            break;
+          }
+
+          const paths = (targets.length ? targets : ["."]).map(resolvePath);
+          const out: string[] = [];
+          for (const target of paths) {
+            const node = fs.files[target];
+            if (!node && target !== "/") {
+              addLine("error", `grep: ${target}: No such file or directory`);
+              continue;
+            }
+            if (node?.type !== "file" && !recursive) {
+              addLine("error", `grep: ${target}: Is a directory`);
+              continue;
+            }
+            const hits = searchContent(fs.files, pattern, {
+              root: target,
+              regex: !flags.has("F"),
+              caseSensitive: !flags.has("i"),
+              wholeWord: flags.has("w"),
+            });
+            const showPath = recursive || paths.length > 1;
+            if (flags.has("l")) {
+              out.push(...new Set(hits.map((h) => h.path)));
+              continue;
+            }
+            // grep prints each matching line once, even with several hits on it
+            const seen = new Set<string>();
+            for (const h of hits) {
+              const key = `${h.path}:${h.line}`;
+              if (seen.has(key)) continue;
+              seen.add(key);
+              out.push(`${showPath ? `${h.path}:` : ""}${flags.has("n") ? `${h.line}:` : ""}${h.preview}`);
+            }
+          }
+          if (out.length) addLine("output", out.join("\n"));
           break;
         }
         case "edit": {
@@ -185,6 +371,84 @@ const Terminal = ({ isExpanded, onToggle }: TerminalProps) => {
           }
           break;
         }
+        case "node":
+        case "run": {
+          if (!args[0]) {
+            addLine("error", `Usage: ${command} <file> [args...]`);
+            break;
+          }
+          const target = resolvePath(args[0]);
+          const node = fs.files[target];
+          if (!node || node.type !== "file") {
+            addLine("error", `File not found: ${target}`);
+          } else if (!isRunnable(target)) {
+            addLine("error", `Cannot run ${target}: only JavaScript and TypeScript files are supported`);
+          } else {
+            const run = runInSandbox(fs.files, target, {
+              args: args.slice(1),
+              onOutput: (stream, text) => addLine(stream === "stderr" ? "error" : "output", text),
+            });
+            setRunning(run);
+            run.done.then((result) => {
+              setRunning(null);
+              if (result.reason === "error") {
+                addLine("info", `Process exited with code ${result.exitCode}`);
+              }
+            });
+          }
+          break;
+        }
+        case "test": {
+          // Paths resolve against cwd; anything else filters test files by name
+          const filter = args[0] && /^[./]/.test(args[0]) ? resolvePath(args[0]) : args[0];
+          const paths = findTestFiles(fs.files, filter);
+          if (paths.length === 0) {
+            addLine("error", filter ? `No test files match ${filter}` : "No test files found (*.test.ts, *.spec.js, ...)");
+            break;
+          }
+          const done = testRunner
+            .run(fs.files, paths, (stream, text) => addLine(stream === "stderr" ? "error" : "output", text))
+            .then((summary) => {
+              printTestSummary(summary);
+              return { exitCode: summary.failed ? 1 : 0, reason: summary.failed ? ("error" as const) : ("exit" as const) };
+            });
+          done.catch((err) => addLine("error", String(err))).finally(() => setRunning(null));
+          setRunning({ done, cancel: () => testRunner.cancel() });
+          break;
+        }
+        case "history": {
+          const target = resolvePath(args[0] || "");
+          if (!args[0]) {
+            addLine("error", "Usage: history <file>");
+            break;
+          }
+          const revisions = fs.getFileHistory(target);
+          addLine(
+            "output",
+            revisions
+              .map(
+                (r) =>
+                  `r${r.rev}  ${new Date(r.timestamp).toLocaleString()}  ${(r.content.length / 1024).toFixed(2)} KB${r.label ? `  (${r.label})` : ""}`
+              )
+              .join("\n")
+          );
+          break;
+        }
+        case "restore": {
+          if (args.length < 2) {
+            addLine("error", "Usage: restore <file> <rev>");
+            break;
+          }
+          const target = resolvePath(args[0]);
+          const rev = parseInt(args[1].replace(/^r/, ""), 10);
+          if (Number.isNaN(rev)) {
+            addLine("error", `Invalid revision: ${args[1]}`);
+            break;
+          }
+          fs.restoreRevision(target, rev);
+          addLine("success", `Restored ${target} to r${rev}`);
+          break;
+        }
         case "stats": {
           const s = fs.getStats();
           addLine("output", `Files: ${s.totalFiles}\nFolders: ${s.totalFolders}\nSize: ${(s.totalSize / 1024).toFixed(2)} KB`);
@@ -201,6 +465,13 @@ const Terminal = ({ isExpanded, onToggle }: TerminalProps) => {
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (running) {
+      if (e.ctrlKey && e.key === "c") {
+        e.preventDefault();
+        running.cancel();
+      }
+      return;
+    }
     if (e.key === "Enter") {
       runCommand(input);
       setInput("");
@@ -265,6 +536,7 @@ const Terminal = ({ isExpanded, onToggle }: TerminalProps) => {
               value={input}
               onChange={(e) => setInput(e.target.value)}
               onKeyDown={handleKeyDown}
+              placeholder={running ? "Running... press Ctrl+C to stop" : undefined}
               className="flex-1 bg-transparent outline-none text-foreground"
               autoFocus
             />
@@ -0,0 +1,209 @@
+import { useEffect, useMemo, useState } from "react";
+import { CheckCircle2, CircleDashed, FlaskConical, Loader2, Play, Square, XCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useFileSystem } from "@/hooks/useFileSystem";
+import { useToast } from "@/hooks/use-toast";
+import { TerminalBus } from "@/services/TerminalBus";
+import { EvidenceTask, loadSubmissionTasks, recordTestRun } from "@/services/TestEvidenceService";
+import { findTestFiles, formatTestName, isPassingRun, TestStatus, testRunner } from "@/services/TestRunner";
+import FileIcon from "./FileIcon";
+
+const StatusIcon = ({ status }: { status: TestStatus | "error" }) => {
+  if (status === "passed") return <CheckCircle2 className="w-3 h-3 text-ide-success shrink-0" />;
+  if (status === "failed" || status === "error") return <XCircle className="w-3 h-3 text-ide-error shrink-0" />;
+  return <CircleDashed className="w-3 h-3 text-muted-foreground shrink-0" />;
+};
+
+interface TestPanelProps {
+  /** Enables recording passing runs as evidence for the submission's tasks */
+  submissionId?: string | null;
+}
+
+const TestPanel = ({ submissionId }: TestPanelProps) => {
+  const { files, openFileAt } = useFileSystem();
+  const { toast } = useToast();
+  const [state, setState] = useState(testRunner.getState());
+  const [tasks, setTasks] = useState<EvidenceTask[]>([]);
+  const [taskId, setTaskId] = useState("");
+  const [recordedAt, setRecordedAt] = useState<number | null>(null);
+  const [recording, setRecording] = useState(false);
+
+  const testFiles = useMemo(() => findTestFiles(files), [files]);
+  const { running, currentFile, summary } = state;
+
+  // Runs started from the terminal show up here too
+  useEffect(() => testRunner.subscribe(setState), []);
+
+  useEffect(() => {
+    if (!submissionId) return;
+    let cancelled = false;
+    loadSubmissionTasks(submissionId)
+      .then((items) => !cancelled && setTasks(items))
+      .catch((err) => console.warn("Failed to load tasks for test evidence:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [submissionId]);
+
+  const runAll = async (paths: string[]) => {
+    try {
+      await testRunner.run(files, paths, (stream, text) =>
+        TerminalBus.write(stream === "stderr" ? "error" : "output", text)
+      );
+    } catch (err) {
+      toast({ title: "Tests", description: err instanceof Error ? err.message : String(err), variant: "destructive" });
+    }
+  };
+
+  const recordEvidence = async () => {
+    if (!submissionId || !summary || !taskId) return;
+    setRecording(true);
+    try {
+      const evidence = await recordTestRun(taskId, submissionId, summary);
+      setRecordedAt(summary.finishedAt);
+      const task = tasks.find((t) => t.id === taskId);
+      toast({ title: "Evidence recorded", description: `${evidence.passed} passing test(s) linked to "${task?.title}"` });
+    } catch (err) {
+      toast({
+        title: "Could not record evidence",
+        description: err instanceof Error ? err.message : String(err),
+        variant: "destructive",
+      });
+    } finally {
+      setRecording(false);
+    }
+  };
+
+  const canRecord = isPassingRun(summary) && !!taskId && !running && recordedAt !== summary?.finishedAt;
+
+  return (
+    <div className="h-full flex flex-col bg-ide-sidebar">
+      <div className="h-9 border-b border-border flex items-center gap-2 px-3">
+        <FlaskConical className="w-4 h-4 text-muted-foreground" />
+        {summary ? (
+          <span className="text-xs text-muted-foreground">
+            <span className="text-ide-success">{summary.passed} passed</span>
+            {summary.failed > 0 && <span className="text-ide-error">, {summary.failed} failed</span>}
+            {summary.skipped > 0 && <span>, {summary.skipped} skipped</span>}
+            <span> · {summary.duration}ms</span>
+          </span>
+        ) : (
+          <span className="text-xs text-muted-foreground">{testFiles.length} test file(s)</span>
+        )}
+        {running ? (
+          <Button size="sm" variant="ghost" className="ml-auto h-6 px-2 text-xs" onClick={() => testRunner.cancel()}>
+            <Square className="w-3 h-3 mr-1" />
+            Stop
+          </Button>
+        ) : (
+          <Button
+            size="sm"
+            variant="ghost"
+            className="ml-auto h-6 px-2 text-xs"
+            onClick={() => runAll(testFiles)}
+            disabled={testFiles.length === 0}
+          >
+            <Play className="w-3 h-3 mr-1" />
+            Run all
+          </Button>
+        )}
+      </div>
+
+      {running && (
+        <div className="flex items-center gap-2 px-3 py-1 text-xs text-muted-foreground border-b border-border">
+          <Loader2 className="w-3 h-3 animate-spin" />
+          <span className="truncate">{currentFile || "Starting..."}</span>
+        </div>
+      )}
+
+      <ScrollArea className="flex-1">
+        <div className="py-2 text-sm">
+          {testFiles.length === 0 && (
+            <p className="px-3 text-xs text-muted-foreground">
+              No tests yet. Add a file ending in .test.ts or .spec.ts using describe/it/expect.
+            </p>
+          )}
+          {testFiles.map((path) => {
+            const result = summary?.files.find((f) => f.path === path);
+            const failed = !!result && (!!result.error || result.tests.some((t) => t.status === "failed"));
+            return (
+              <div key={path} className="mb-1">
+                <div className="group flex items-center gap-2 px-3 py-1 text-xs font-semibold" title={path}>
+                  {result ? (
+                    <StatusIcon status={failed ? "failed" : "passed"} />
+                  ) : (
+                    <FileIcon path={path} className="w-3 h-3 shrink-0" />
+                  )}
+                  <button className="truncate hover:underline" onClick={() => openFileAt(path, 1, 1)}>
+                    {path}
+                  </button>
+                  <button
+                    className="ml-auto opacity-0 group-hover:opacity-100 disabled:hidden"
+                    onClick={() => runAll([path])}
+                    disabled={running}
+                    title="Run this file"
+                  >
+                    <Play className="w-3 h-3" />
+                  </button>
+                </div>
+                {result?.error && (
+                  <pre className="mx-3 ml-8 mb-1 text-xs whitespace-pre-wrap font-mono text-ide-error">{result.error}</pre>
+                )}
+                {result?.tests.map((test, i) => (
+                  <div key={`${i}:${test.name}`} className="pl-8 pr-3 py-0.5 text-xs">
+                    <div className="flex items-center gap-2">
+                      <StatusIcon status={test.status} />
+                      <span className={cn("truncate", test.status !== "passed" && test.status !== "failed" && "text-muted-foreground")}>
+                        {formatTestName(test)}
+                      </span>
+                      {test.status === "todo" && <span className="text-muted-foreground">todo</span>}
+                      <span className="ml-auto text-muted-foreground">{test.duration}ms</span>
+                    </div>
+                    {test.error && (
+                      <pre className="ml-5 mt-0.5 whitespace-pre-wrap font-mono text-ide-error">{test.error}</pre>
+                    )}
+                  </div>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      </ScrollArea>
+
+      {submissionId && (
+        <div className="border-t border-border p-2 space-y-2">
+          <Select value={taskId} onValueChange={setTaskId}>
+            <SelectTrigger className="h-7 text-xs">
+              <SelectValue placeholder={tasks.length ? "Choose a task..." : "No tasks for this project"} />
+            </SelectTrigger>
+            <SelectContent>
+              {tasks.map((task) => (
+                <SelectItem key={task.id} value={task.id} className="text-xs">
+                  {task.milestoneTitle} › {task.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" className="w-full h-7 text-xs" onClick={recordEvidence} disabled={!canRecord || recording}>
+            {recording && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+            {recordedAt && recordedAt === summary?.finishedAt ? "Recorded" : "Record passing run as evidence"}
+          </Button>
+          <p className="text-[10px] text-muted-foreground">
+            Runs are recorded from this browser, so mentors see them as self-reported, not verified.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TestPanel;
@@ -0,0 +1,190 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Archive, ArchiveRestore, Check, ChevronDown, Cloud, Copy, FolderKanban, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspaces } from "@/hooks/useWorkspaces";
+import { PROJECT_TEMPLATES } from "@/services/ProjectTemplates";
+import { IDEWorkspaceInfo, WorkspaceRegistry } from "@/services/WorkspaceRegistry";
+
+const BLANK_TEMPLATE = "blank";
+
+const WorkspaceSwitcher = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { workspaces, active } = useWorkspaces();
+  const [showCreate, setShowCreate] = useState(false);
+  const [name, setName] = useState("");
+  const [templateId, setTemplateId] = useState(PROJECT_TEMPLATES[0].id);
+
+  const open = workspaces.filter((w) => !w.archived);
+  const archived = workspaces.filter((w) => w.archived);
+
+  // Submission workspaces keep their link in the URL so a reload reopens them
+  const switchTo = (workspace: IDEWorkspaceInfo) => {
+    WorkspaceRegistry.setActive(workspace.id);
+    navigate(workspace.submissionId ? `/ide?submission=${workspace.submissionId}` : "/ide");
+  };
+
+  const switchAway = () => {
+    const next = WorkspaceRegistry.getAll().find((w) => w.id !== active.id && !w.archived);
+    if (next) switchTo(next);
+  };
+
+  const handleCreate = () => {
+    const workspace = WorkspaceRegistry.create(name, {
+      templateId: templateId === BLANK_TEMPLATE ? null : templateId,
+    });
+    setShowCreate(false);
+    setName("");
+    switchTo(workspace);
+  };
+
+  const handleDuplicate = async () => {
+    try {
+      switchTo(await WorkspaceRegistry.duplicate(active.id));
+    } catch (err) {
+      toast({ title: "Error", description: String(err), variant: "destructive" });
+    }
+  };
+
+  const handleArchive = () => {
+    WorkspaceRegistry.archive(active.id);
+    switchAway();
+  };
+
+  const handleDelete = async () => {
+    if (!confirm(`Delete workspace "${active.name}" and all its files? This cannot be undone.`)) return;
+    const deleted = active;
+    try {
+      switchAway();
+      await WorkspaceRegistry.remove(deleted.id);
+      toast({ title: "Workspace deleted", description: deleted.name });
+    } catch (err) {
+      toast({ title: "Error", description: String(err), variant: "destructive" });
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-7 gap-2 px-2 text-sm">
+            <FolderKanban className="w-4 h-4 text-muted-foreground" />
+            <span className="max-w-[200px] truncate">{active.name}</span>
+            {active.submissionId && <Cloud className="w-3 h-3 text-muted-foreground" />}
+            <ChevronDown className="w-3 h-3 text-muted-foreground" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-64">
+          <DropdownMenuLabel className="text-xs text-muted-foreground">Workspaces</DropdownMenuLabel>
+          {open.map((workspace) => (
+            <DropdownMenuItem key={workspace.id} onClick={() => switchTo(workspace)} className="gap-2">
+              <Check className={workspace.id === active.id ? "w-4 h-4" : "w-4 h-4 invisible"} />
+              <span className="flex-1 truncate">{workspace.name}</span>
+              {workspace.submissionId && <Cloud className="w-3 h-3 text-muted-foreground" />}
+            </DropdownMenuItem>
+          ))}
+          {archived.length > 0 && (
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger className="gap-2">
+                <ArchiveRestore className="w-4 h-4" />
+                Archived ({archived.length})
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent>
+                {archived.map((workspace) => (
+                  <DropdownMenuItem key={workspace.id} onClick={() => switchTo(workspace)}>
+                    <span className="truncate">{workspace.name}</span>
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => setShowCreate(true)} className="gap-2">
+            <Plus className="w-4 h-4" />
+            New Workspace
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={handleDuplicate} className="gap-2">
+            <Copy className="w-4 h-4" />
+            Duplicate
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={handleArchive} disabled={open.length < 2} className="gap-2">
+            <Archive className="w-4 h-4" />
+            Archive
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={handleDelete}
+            disabled={open.length < 2}
+            className="gap-2 text-destructive focus:text-destructive"
+          >
+            <Trash2 className="w-4 h-4" />
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={showCreate} onOpenChange={setShowCreate}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Workspace</DialogTitle>
+            <DialogDescription>Start a separate project with its own files, terminal and chat</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Input placeholder="Workspace name" value={name} onChange={(e) => setName(e.target.value)} />
+            <Select value={templateId} onValueChange={setTemplateId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PROJECT_TEMPLATES.map((template) => (
+                  <SelectItem key={template.id} value={template.id}>
+                    {template.name}
+                  </SelectItem>
+                ))}
+                <SelectItem value={BLANK_TEMPLATE}>Blank</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowCreate(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={!name.trim()}>
+              Create
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default WorkspaceSwitcher;
@@ -1,6 +1,7 @@
 import { useState, useEffect, createContext, useContext, ReactNode } from "react";
 import { User, Session } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
+import { GitHubAccount } from "@/services/GitHubAccount";
 
 interface AuthContextType {
   user: User | null;
@@ -38,6 +39,11 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     return () => subscription.unsubscribe();
   }, []);
 
+  // GitHub requests use the token the signed-in user connected
+  useEffect(() => {
+    GitHubAccount.setUser(user?.id ?? null);
+  }, [user?.id]);
+
   const signUp = async (email: string, password: string, fullName: string, role: "student" | "mentor" | "admin" = "student") => {
     const redirectUrl = `${window.location.origin}/`;
     
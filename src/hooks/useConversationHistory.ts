@@ -35,6 +35,7 @@ export const useConversationHistory = () => {
       setCurrentConversation(conv);
     }
     setIsLoading(false);
+    return conv;
   }, []);
 
   const startNewConversation = useCallback(
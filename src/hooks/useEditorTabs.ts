@@ -0,0 +1,160 @@
+import { useCallback, useEffect, useState } from "react";
+import { useFileSystem } from "@/hooks/useFileSystem";
+
+export interface EditorTab {
+  path: string;
+  pinned: boolean;
+}
+
+const AUTOSAVE_KEY = "BODHIT_IDE_AUTOSAVE";
+
+// Pinned tabs always stay at the front of the strip
+const sortTabs = (tabs: EditorTab[]) => [...tabs.filter((t) => t.pinned), ...tabs.filter((t) => !t.pinned)];
+
+/**
+ * Open editor tabs and unsaved drafts for the IDE workspace.
+ * With autosave on (the default) every change is written through `updateFile`;
+ * with it off, edits stay in drafts until saved.
+ */
+export const useEditorTabs = () => {
+  const { files, selectedFile, selectFile, updateFile } = useFileSystem();
+  const [tabs, setTabs] = useState<EditorTab[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [autoSave, setAutoSaveState] = useState(() => localStorage.getItem(AUTOSAVE_KEY) !== "false");
+
+  // Selecting a file anywhere (explorer, search, terminal `edit`) opens it in a tab
+  useEffect(() => {
+    if (!selectedFile || files[selectedFile]?.type !== "file") return;
+    setTabs((prev) => (prev.some((t) => t.path === selectedFile) ? prev : [...prev, { path: selectedFile, pinned: false }]));
+  }, [selectedFile, files]);
+
+  // Drop tabs (and drafts) of files that were deleted or moved away
+  useEffect(() => {
+    setTabs((prev) => {
+      const next = prev.filter((t) => files[t.path]?.type === "file");
+      return next.length === prev.length ? prev : next;
+    });
+    setDrafts((prev) => {
+      const stale = Object.keys(prev).filter((p) => files[p]?.type !== "file");
+      if (stale.length === 0) return prev;
+      const next = { ...prev };
+      stale.forEach((p) => delete next[p]);
+      return next;
+    });
+  }, [files]);
+
+  const isDirty = useCallback(
+    (path: string) => drafts[path] !== undefined && drafts[path] !== (files[path]?.content || ""),
+    [drafts, files]
+  );
+
+  const hasUnsaved = tabs.some((t) => isDirty(t.path));
+
+  useEffect(() => {
+    if (!hasUnsaved) return;
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = "";
+    };
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    return () => window.removeEventListener("beforeunload", handleBeforeUnload);
+  }, [hasUnsaved]);
+
+  const getContent = useCallback(
+    (path: string) => drafts[path] ?? files[path]?.content ?? "",
+    [drafts, files]
+  );
+
+  const change = useCallback(
+    (path: string, value: string) => {
+      if (autoSave) {
+        updateFile(path, value);
+      } else {
+        setDrafts((prev) => ({ ...prev, [path]: value }));
+      }
+    },
+    [autoSave, updateFile]
+  );
+
+  const discardDrafts = (paths: string[]) => {
+    setDrafts((prev) => {
+      const next = { ...prev };
+      paths.forEach((p) => delete next[p]);
+      return next;
+    });
+  };
+
+  const save = useCallback(
+    (path: string) => {
+      const draft = drafts[path];
+      if (draft === undefined) return;
+      updateFile(path, draft);
+      discardDrafts([path]);
+    },
+    [drafts, updateFile]
+  );
+
+  const saveAll = useCallback(() => {
+    Object.entries(drafts).forEach(([path, draft]) => updateFile(path, draft));
+    setDrafts({});
+  }, [drafts, updateFile]);
+
+  const setAutoSave = useCallback(
+    (enabled: boolean) => {
+      localStorage.setItem(AUTOSAVE_KEY, String(enabled));
+      setAutoSaveState(enabled);
+      if (enabled) saveAll();
+    },
+    [saveAll]
+  );
+
+  const closeTabs = useCallback(
+    (paths: string[]) => {
+      const dirty = paths.filter(isDirty);
+      if (dirty.length > 0 && !confirm(`Discard unsaved changes in ${dirty.length} file(s)?`)) return;
+
+      const remaining = tabs.filter((t) => !paths.includes(t.path));
+      if (selectedFile && paths.includes(selectedFile)) {
+        // Move to the neighbour of the closed tab, like most editors
+        const index = tabs.findIndex((t) => t.path === selectedFile);
+        const next = remaining[Math.min(index, remaining.length - 1)];
+        selectFile(next ? next.path : null);
+      }
+      setTabs(remaining);
+      discardDrafts(paths);
+    },
+    [tabs, isDirty, selectedFile, selectFile]
+  );
+
+  const close = useCallback((path: string) => closeTabs([path]), [closeTabs]);
+
+  const closeOthers = useCallback(
+    (path: string) => closeTabs(tabs.filter((t) => t.path !== path && !t.pinned).map((t) => t.path)),
+    [tabs, closeTabs]
+  );
+
+  const closeAll = useCallback(
+    () => closeTabs(tabs.filter((t) => !t.pinned).map((t) => t.path)),
+    [tabs, closeTabs]
+  );
+
+  const togglePin = useCallback((path: string) => {
+    setTabs((prev) => sortTabs(prev.map((t) => (t.path === path ? { ...t, pinned: !t.pinned } : t))));
+  }, []);
+
+  return {
+    tabs,
+    autoSave,
+    setAutoSave,
+    isDirty,
+    hasUnsaved,
+    getContent,
+    change,
+    save,
+    saveAll,
+    close,
+    closeOthers,
+    closeAll,
+    togglePin,
+  };
+};
@@ -0,0 +1,59 @@
+import { useEffect } from "react";
+import { FileLock, IDEFileSystem } from "@/services/IDEFileSystem";
+import { isLockConditionMet, loadFileLocks, loadLockConditionState, LockConditionState } from "@/services/FileLockService";
+import { testRunner } from "@/services/TestRunner";
+
+/**
+ * Apply the submission's mentor-managed file locks to an IDE file system and keep their
+ * conditions current. Milestone and task statuses are refreshed when the window regains
+ * focus; test conditions follow the latest test run.
+ */
+export const useFileLocks = (fileSystem: IDEFileSystem, submissionId?: string | null) => {
+  useEffect(() => {
+    let cancelled = false;
+    let state: LockConditionState = { milestones: {}, tasks: {} };
+    let summary = testRunner.getState().summary;
+
+    const applyConditions = () =>
+      fileSystem.setLockConditionCheck((condition) =>
+        isLockConditionMet(condition, state, fileSystem, summary)
+      );
+
+    const refresh = async () => {
+      if (!submissionId) return;
+      try {
+        const [locks, conditionState] = await Promise.all([
+          loadFileLocks(submissionId),
+          loadLockConditionState(submissionId),
+        ]);
+        if (cancelled) return;
+        state = conditionState;
+        fileSystem.setManagedLocks(
+          Object.fromEntries(locks.map(({ path, mode, until, reason }): [string, FileLock] => [path, { mode, until, reason }]))
+        );
+        applyConditions();
+      } catch (err) {
+        console.warn("Failed to load file locks:", err);
+      }
+    };
+
+    const unsubscribeTests = testRunner.subscribe((testState) => {
+      if (testState.summary === summary) return;
+      summary = testState.summary;
+      applyConditions();
+    });
+
+    const handleFocus = () => void refresh();
+    window.addEventListener("focus", handleFocus);
+
+    applyConditions();
+    refresh();
+
+    return () => {
+      cancelled = true;
+      unsubscribeTests();
+      window.removeEventListener("focus", handleFocus);
+      fileSystem.setManagedLocks({});
+    };
+  }, [fileSystem, submissionId]);
+};
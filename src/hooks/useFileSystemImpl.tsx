@@ -1,60 +1,176 @@
-import React, { createContext, useContext, useState, useCallback, ReactNode, useEffect } from "react";
-import { fileSystem, FileNode } from "@/services/IDEFileSystem";
-import { gitHubService } from "@/services/GitHubService";
+import React, { createContext, useContext, useState, useCallback, ReactNode, useEffect, useMemo } from "react";
+import {
+  fileSystem as defaultFileSystem,
+  FileLock,
+  FileNode,
+  FileRevision,
+  IDEFileSystem,
+  ImportOptions,
+  ImportResult,
+  normalizePath,
+} from "@/services/IDEFileSystem";
+import { CloneProgress } from "@/services/GitHubService";
+import { GitHubAccount } from "@/services/GitHubAccount";
+import { CloneRegistry } from "@/services/CloneRegistry";
+import type { ProjectTemplate } from "@/services/ProjectTemplates";
+import { importLocalFiles as importLocalSelection, LocalFileSelection, LocalImportState } from "@/services/LocalImportService";
+
+interface EditorPosition {
+  path: string;
+  line: number;
+  column: number;
+}
 
 interface FileSystemContextType {
+  /** Project files, without those hidden by a lock (mentors' read-only view shows everything) */
   files: Record<string, FileNode>;
+  readOnly: boolean;
+  /** Lock in effect for a path, if any; locked paths reject edits */
+  getLock: (path: string | null) => FileLock | null;
   selectedFile: string | null;
-  selectFile: (path: string) => void;
+  selectFile: (path: string | null) => void;
+  /** Last position requested with openFileAt; the editor scrolls to it */
+  revealTarget: EditorPosition | null;
+  openFileAt: (path: string, line: number, column?: number) => void;
   createFile: (path: string, content?: string, language?: string) => FileNode;
   createFolder: (path: string) => FileNode;
   updateFile: (path: string, content: string) => FileNode;
+  /** Write several files as one batch that can be reverted with undoLastBatch */
+  updateFiles: (updates: Record<string, string>, label: string) => void;
+  lastBatch: { label: string; paths: string[] } | null;
+  undoLastBatch: () => void;
   deleteFile: (path: string, recursive?: boolean) => Record<string, FileNode> | void;
   renameFile: (oldPath: string, newName: string) => FileNode;
+  moveFile: (from: string, to: string) => FileNode;
   undoDelete: () => void;
+  getFileHistory: (path: string) => FileRevision[];
+  restoreRevision: (path: string, rev: number) => FileNode;
+  restoreProjectToTimestamp: (timestamp: number) => Record<string, FileNode>;
   listDirectory: (path: string) => FileNode[];
   exportProject: () => string;
-  importProject: (json: string) => void;
+  importProject: (json: string, options?: ImportOptions) => ImportResult;
+  exportProjectZip: () => Promise<Blob>;
+  importProjectZip: (data: Blob | ArrayBuffer, options: ImportOptions) => Promise<ImportResult>;
+  localImport: LocalImportState | null;
+  importLocalFiles: (selection: LocalFileSelection, targetPath: string) => Promise<ImportResult>;
+  clearLocalImport: () => void;
+  /** Template the workspace was started from; resetProject restores it */
+  template: ProjectTemplate | null;
   resetProject: () => void;
   getStats: () => { totalFiles: number; totalFolders: number; totalSize: number };
   getFileTree: () => FileNode[];
-  cloneGitHubRepo: (url: string) => Promise<void>;
+  /** Clone a repository URL (including /tree/<ref>/<folder> URLs), optionally at a branch, tag or commit */
+  cloneGitHubRepo: (url: string, options?: CloneGitHubOptions) => Promise<void>;
+}
+
+interface CloneGitHubOptions {
+  ref?: string;
+  /** Fetch file contents only when opened (automatic for large repositories) */
+  lazy?: boolean;
+  onProgress?: (progress: CloneProgress) => void;
 }
 
 const FileSystemContext = createContext<FileSystemContextType | undefined>(undefined);
 
-export const FileSystemProvider = ({ children }: { children: ReactNode }) => {
+interface FileSystemProviderProps {
+  children: ReactNode;
+  /** Defaults to the shared browser-persisted file system */
+  fileSystem?: IDEFileSystem;
+  /** Disables editing in the IDE UI (e.g. mentors viewing a student workspace) */
+  readOnly?: boolean;
+  /** File opened initially, e.g. the one a workspace had open last */
+  initialSelectedFile?: string | null;
+}
+
+export const FileSystemProvider = ({
+  children,
+  fileSystem = defaultFileSystem,
+  readOnly = false,
+  initialSelectedFile = "/src/components/Auth.tsx",
+}: FileSystemProviderProps) => {
   const [files, setFiles] = useState<Record<string, FileNode>>(fileSystem.getAllFiles());
-  const [selectedFile, setSelectedFile] = useState<string | null>("/src/components/Auth.tsx");
+  const [selectedFile, setSelectedFile] = useState<string | null>(initialSelectedFile);
   const [lastDeleted, setLastDeleted] = useState<Record<string, FileNode> | null>(null);
+  const [localImport, setLocalImport] = useState<LocalImportState | null>(null);
+  const [revealTarget, setRevealTarget] = useState<EditorPosition | null>(null);
+  const [lastBatch, setLastBatch] = useState<{ label: string; previous: Record<string, string> } | null>(null);
+
+  // Storage adapters load asynchronously; re-render whenever the file map changes
+  useEffect(() => {
+    const unsubscribe = fileSystem.subscribe(() => setFiles({ ...fileSystem.getAllFiles() }));
+    fileSystem.ready.then(() => setFiles({ ...fileSystem.getAllFiles() }));
+    return () => {
+      unsubscribe();
+    };
+  }, [fileSystem]);
+
+  // Hidden files stay in the file system (sync, storage) but never reach the student's UI
+  const visibleFiles = useMemo(
+    () => (readOnly ? files : fileSystem.getVisibleFiles(files)),
+    [fileSystem, files, readOnly]
+  );
+
+  const getLock = useCallback(
+    (path: string | null) => (path ? fileSystem.getLock(path) : null),
+    [fileSystem]
+  );
+
+  // Lazily cloned files are fetched from GitHub the first time they are opened
+  useEffect(() => {
+    const node = selectedFile ? fileSystem.getFile(selectedFile) : null;
+    if (!node?.lazy) return;
+    const { owner, repo, sha } = node.lazy;
+    GitHubAccount.getService()
+      .getBlob(owner, repo, sha)
+      .then((content) => fileSystem.loadLazyContent(node.path, content))
+      .catch((err) => console.error(`Failed to load ${node.path} from GitHub:`, err));
+  }, [fileSystem, selectedFile]);
+
+  const selectFile = useCallback((path: string | null) => {
+    setSelectedFile(path);
+  }, []);
 
-  const selectFile = useCallback((path: string) => {
+  const openFileAt = useCallback((path: string, line: number, column = 1) => {
     setSelectedFile(path);
+    setRevealTarget({ path, line, column });
   }, []);
 
-  const createFile = useCallback((path: string, content = "", language = "text") => {
+  const createFile = useCallback((path: string, content = "", language?: string) => {
     const file = fileSystem.createFile(path, content, language);
     setFiles(fileSystem.getAllFiles());
     return file;
-  }, []);
+  }, [fileSystem]);
 
   const createFolder = useCallback((path: string) => {
     const folder = fileSystem.createFolder(path);
     setFiles(fileSystem.getAllFiles());
     return folder;
-  }, []);
+  }, [fileSystem]);
 
   const updateFile = useCallback((path: string, content: string) => {
     const file = fileSystem.updateFile(path, content);
     setFiles(fileSystem.getAllFiles());
     return file;
-  }, []);
+  }, [fileSystem]);
+
+  const updateFiles = useCallback((updates: Record<string, string>, label: string) => {
+    const previous = fileSystem.updateFiles(updates, label);
+    setFiles(fileSystem.getAllFiles());
+    setLastBatch({ label, previous });
+  }, [fileSystem]);
+
+  const undoLastBatch = useCallback(() => {
+    if (!lastBatch) return;
+    fileSystem.updateFiles(lastBatch.previous, `undo ${lastBatch.label}`);
+    setFiles(fileSystem.getAllFiles());
+    setLastBatch(null);
+  }, [fileSystem, lastBatch]);
 
   const deleteFile = useCallback((path: string, recursive = false) => {
     try {
       const deleted = fileSystem.delete(path, recursive);
       setFiles(fileSystem.getAllFiles());
-      if (selectedFile === path) {
+      if (selectedFile && deleted[selectedFile]) {
         setSelectedFile(null);
       }
       if (deleted) {
@@ -64,83 +180,198 @@ export const FileSystemProvider = ({ children }: { children: ReactNode }) => {
     } catch (err) {
       throw err;
     }
-  }, [selectedFile]);
+  }, [fileSystem, selectedFile]);
 
   const undoDelete = useCallback(() => {
     if (!lastDeleted) return;
     fileSystem.restoreFiles(lastDeleted);
     setFiles(fileSystem.getAllFiles());
     setLastDeleted(null);
-  }, [lastDeleted]);
+  }, [fileSystem, lastDeleted]);
+
+  const getFileHistory = useCallback((path: string) => {
+    return fileSystem.getFileHistory(path);
+  }, [fileSystem]);
+
+  const restoreRevision = useCallback((path: string, rev: number) => {
+    const file = fileSystem.restoreRevision(path, rev);
+    setFiles(fileSystem.getAllFiles());
+    return file;
+  }, [fileSystem]);
+
+  const restoreProjectToTimestamp = useCallback((timestamp: number) => {
+    const removed = fileSystem.restoreToTimestamp(timestamp);
+    setFiles(fileSystem.getAllFiles());
+    if (Object.keys(removed).length > 0) {
+      // Files created after the timestamp can be brought back with undoDelete
+      setLastDeleted(removed);
+    }
+    if (selectedFile && removed[selectedFile]) {
+      setSelectedFile(null);
+    }
+    return removed;
+  }, [fileSystem, selectedFile]);
+
+  // Keep the editor selection pointing at the same node after its path changes
+  const remapSelection = useCallback((from: string, to: string) => {
+    if (!selectedFile) return;
+    if (selectedFile === from) {
+      setSelectedFile(to);
+    } else if (selectedFile.startsWith(`${from}/`)) {
+      setSelectedFile(to + selectedFile.slice(from.length));
+    }
+  }, [selectedFile]);
 
   const renameFile = useCallback((oldPath: string, newName: string) => {
     const file = fileSystem.rename(oldPath, newName);
     setFiles(fileSystem.getAllFiles());
-    if (selectedFile === oldPath) {
-      setSelectedFile(file.path);
-    }
+    remapSelection(normalizePath(oldPath), file.path);
     return file;
-  }, [selectedFile]);
+  }, [fileSystem, remapSelection]);
+
+  const moveFile = useCallback((from: string, to: string) => {
+    const file = fileSystem.move(from, to);
+    setFiles(fileSystem.getAllFiles());
+    remapSelection(normalizePath(from), file.path);
+    return file;
+  }, [fileSystem, remapSelection]);
 
   const listDirectory = useCallback((path: string) => {
-    return fileSystem.listDirectory(path);
-  }, []);
+    const nodes = fileSystem.listDirectory(path);
+    return readOnly ? nodes : nodes.filter((node) => fileSystem.getLock(node.path)?.mode !== "hidden");
+  }, [fileSystem, readOnly]);
 
   const exportProject = useCallback(() => {
     return fileSystem.exportToJSON();
-  }, []);
+  }, [fileSystem]);
 
-  const importProject = useCallback((json: string) => {
-    fileSystem.importFromJSON(json);
+  const importProject = useCallback((json: string, options?: ImportOptions) => {
+    const result = fileSystem.importFromJSON(json, options);
     setFiles(fileSystem.getAllFiles());
-  }, []);
+    return result;
+  }, [fileSystem]);
+
+  const exportProjectZip = useCallback(() => {
+    return fileSystem.exportAsZip();
+  }, [fileSystem]);
+
+  const importProjectZip = useCallback(async (data: Blob | ArrayBuffer, options: ImportOptions) => {
+    const result = await fileSystem.importFromZip(data, options);
+    setFiles(fileSystem.getAllFiles());
+    return result;
+  }, [fileSystem]);
+
+  // Progress lives here so drops on the explorer are reported in the operations panel
+  const importLocalFiles = useCallback(async (selection: LocalFileSelection, targetPath: string) => {
+    const progress = { done: 0, total: selection.files.length };
+    setLocalImport({ running: true, targetPath, progress });
+    try {
+      const result = await importLocalSelection(fileSystem, selection, targetPath, (p) =>
+        setLocalImport({ running: true, targetPath, progress: p })
+      );
+      setFiles(fileSystem.getAllFiles());
+      setLocalImport({ running: false, targetPath, progress: { done: progress.total, total: progress.total }, result });
+      return result;
+    } catch (err) {
+      setLocalImport(null);
+      throw err;
+    }
+  }, [fileSystem]);
+
+  const clearLocalImport = useCallback(() => setLocalImport(null), []);
 
   const resetProject = useCallback(() => {
     fileSystem.reset();
     setFiles(fileSystem.getAllFiles());
-    setSelectedFile("/src/components/Auth.tsx");
-  }, []);
+    setSelectedFile(fileSystem.getTemplate() ? "/README.md" : "/src/components/Auth.tsx");
+  }, [fileSystem]);
 
   const getStats = useCallback(() => {
     return fileSystem.getStats();
-  }, []);
+  }, [fileSystem]);
 
   const getFileTree = useCallback(() => {
-    return fileSystem.getFileTree();
-  }, []);
+    return fileSystem.getFileTree(readOnly ? undefined : fileSystem.getVisibleFiles());
+  }, [fileSystem, readOnly]);
 
-  const cloneGitHubRepo = useCallback(async (url: string) => {
-    const parsed = gitHubService.parseGitHubUrl(url);
+  const cloneGitHubRepo = useCallback(async (url: string, options: CloneGitHubOptions = {}) => {
+    // Private repositories and the higher rate limit need the user's connected token
+    const github = GitHubAccount.getService();
+    const parsed = github.parseGitHubUrl(url);
     if (!parsed) {
       throw new Error("Invalid GitHub URL");
     }
 
-    const { owner, repo } = parsed;
-    const targetPath = `/repos/${repo}`;
+    const { owner, repo, refPath } = parsed;
+    // An explicit ref wins; the rest of a /tree/<ref>/<folder> URL still selects the folder
+    const fromUrl = refPath ? await github.resolveRefPath(owner, repo, refPath) : null;
+    const ref = options.ref?.trim();
+    const resolved = ref ? await github.resolveRef(owner, repo, ref) : fromUrl?.ref;
+    const subdir = fromUrl?.path;
+    const targetPath = subdir ? `/repos/${repo}/${subdir}` : `/repos/${repo}`;
 
-    // Check if repo already exists
-    if (fileSystem.getAllFiles()[`${targetPath}/README.md`]) {
+    // Check if repo (or an overlapping folder of it) already exists
+    const overlaps = (a: string, b: string) => a === b || a.startsWith(`${b}/`) || b.startsWith(`${a}/`);
+    if (
+      CloneRegistry.getAll().some((c) => overlaps(c.path, targetPath)) ||
+      Object.keys(fileSystem.getAllFiles()).some((path) => path.startsWith(`${targetPath}/`))
+    ) {
       throw new Error("Repository already cloned");
     }
 
-    const clonedFiles = await gitHubService.cloneRepo(owner, repo, targetPath);
-    fileSystem.importFromJSON(JSON.stringify(clonedFiles));
+    const cloned = await github.cloneRepo(owner, repo, targetPath, {
+      ref: resolved,
+      subdir,
+      lazy: options.lazy,
+      onProgress: options.onProgress,
+    });
+    // Added as-is (the folder is new) so lazy placeholders keep their blob SHA
+    fileSystem.restoreFiles(cloned.files);
+    CloneRegistry.record({
+      owner,
+      repo,
+      path: targetPath,
+      branch: cloned.ref.type === "branch" ? cloned.ref.name : undefined,
+      ref: cloned.ref.name,
+      refType: cloned.ref.type,
+      subdir,
+      clonedAt: Date.now(),
+      baseCommit: cloned.ref.sha,
+      baseFiles: cloned.baseFiles,
+    });
     setFiles(fileSystem.getAllFiles());
-  }, []);
+  }, [fileSystem]);
 
   const contextValue: FileSystemContextType = {
-    files,
+    files: visibleFiles,
+    readOnly,
+    getLock,
     selectedFile,
     selectFile,
+    revealTarget,
+    openFileAt,
     createFile,
     createFolder,
     updateFile,
+    updateFiles,
+    lastBatch: lastBatch && { label: lastBatch.label, paths: Object.keys(lastBatch.previous) },
+    undoLastBatch,
     deleteFile,
     renameFile,
+    moveFile,
     undoDelete,
+    getFileHistory,
+    restoreRevision,
+    restoreProjectToTimestamp,
     listDirectory,
     exportProject,
     importProject,
+    exportProjectZip,
+    importProjectZip,
+    localImport,
+    importLocalFiles,
+    clearLocalImport,
+    template: fileSystem.getTemplate(),
     resetProject,
     getStats,
     getFileTree,
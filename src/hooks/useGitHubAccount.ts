@@ -0,0 +1,21 @@
+import { useEffect, useState } from "react";
+import { GitHubAccount } from "@/services/GitHubAccount";
+
+/**
+ * The signed-in user's GitHub connection, kept current as it is connected or removed
+ */
+export const useGitHubAccount = () => {
+  const [connection, setConnection] = useState(() => GitHubAccount.getConnection());
+  const [loading, setLoading] = useState(() => GitHubAccount.isLoading());
+
+  useEffect(
+    () =>
+      GitHubAccount.subscribe(() => {
+        setConnection(GitHubAccount.getConnection());
+        setLoading(GitHubAccount.isLoading());
+      }),
+    []
+  );
+
+  return { connection, loading };
+};
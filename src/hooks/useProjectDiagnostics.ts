@@ -0,0 +1,56 @@
+import { useEffect, useRef, useState } from "react";
+import { useMonaco } from "@monaco-editor/react";
+import { useFileSystem } from "@/hooks/useFileSystem";
+import { configureProject, getProblems, Problem, syncModels } from "@/services/TypeScriptProject";
+
+/**
+ * Keeps Monaco's models in step with the project files and collects diagnostics
+ * for every file. Also lets go-to-definition open files in other tabs.
+ */
+export const useProjectDiagnostics = () => {
+  const monaco = useMonaco();
+  const { files, openFileAt } = useFileSystem();
+  const [problems, setProblems] = useState<Problem[]>([]);
+  const filesRef = useRef(files);
+  filesRef.current = files;
+
+  // Compiler options only depend on the config files, not on every keystroke
+  const tsconfig = files["/tsconfig.json"]?.content;
+  const jsconfig = files["/jsconfig.json"]?.content;
+  const packageJson = files["/package.json"]?.content;
+
+  useEffect(() => {
+    if (monaco) configureProject(monaco, filesRef.current);
+  }, [monaco, tsconfig, jsconfig, packageJson]);
+
+  useEffect(() => {
+    if (monaco) syncModels(monaco, files);
+  }, [monaco, files]);
+
+  useEffect(() => {
+    if (!monaco) return;
+    setProblems(getProblems(monaco));
+    const subscription = monaco.editor.onDidChangeMarkers(() => setProblems(getProblems(monaco)));
+    return () => subscription.dispose();
+  }, [monaco]);
+
+  useEffect(() => {
+    if (!monaco) return;
+    const opener = monaco.editor.registerEditorOpener({
+      openCodeEditor: (_source, resource, selectionOrPosition) => {
+        if (resource.scheme !== "file" || filesRef.current[resource.path]?.type !== "file") return false;
+        if (!selectionOrPosition) {
+          openFileAt(resource.path, 1, 1);
+        } else if (monaco.Range.isIRange(selectionOrPosition)) {
+          openFileAt(resource.path, selectionOrPosition.startLineNumber, selectionOrPosition.startColumn);
+        } else {
+          openFileAt(resource.path, selectionOrPosition.lineNumber, selectionOrPosition.column);
+        }
+        return true;
+      },
+    });
+    return () => opener.dispose();
+  }, [monaco, openFileAt]);
+
+  return problems;
+};
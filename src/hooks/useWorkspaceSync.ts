@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useState } from "react";
+import { IDEFileSystem } from "@/services/IDEFileSystem";
+import { loadSubmissionTemplate } from "@/services/ProjectTemplates";
+import { SyncConflict, SyncStatus, WorkspaceSync } from "@/services/WorkspaceSyncService";
+
+const PUSH_DEBOUNCE_MS = 2000;
+
+/**
+ * Keep an IDE file system in sync with the submission's Supabase workspace.
+ * Pulls on load, pushes shortly after local edits and re-syncs when back online.
+ * The submission's project template is loaded first, so a new workspace starts from it.
+ */
+export const useWorkspaceSync = (fileSystem: IDEFileSystem, submissionId?: string | null, stateKey?: string) => {
+  const [sync, setSync] = useState<WorkspaceSync | null>(null);
+  const [status, setStatus] = useState<SyncStatus>("idle");
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [lastError, setLastError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!submissionId) {
+      setSync(null);
+      return;
+    }
+
+    const engine = new WorkspaceSync(fileSystem, submissionId, stateKey);
+    setSync(engine);
+
+    const unsubscribeStatus = engine.subscribe(() => {
+      setStatus(engine.getStatus());
+      setConflicts(engine.getConflicts());
+      setLastError(engine.getLastError());
+    });
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const unsubscribeFiles = fileSystem.subscribe(() => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => void engine.sync(), PUSH_DEBOUNCE_MS);
+    });
+
+    const handleOnline = () => void engine.sync();
+    window.addEventListener("online", handleOnline);
+
+    let cancelled = false;
+    loadSubmissionTemplate(submissionId)
+      .then((template) => !cancelled && fileSystem.setTemplate(template))
+      .catch((err) => console.warn("Failed to load project template:", err))
+      .finally(() => !cancelled && engine.sync());
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+      unsubscribeStatus();
+      unsubscribeFiles();
+      window.removeEventListener("online", handleOnline);
+    };
+  }, [fileSystem, submissionId, stateKey]);
+
+  const syncNow = useCallback(() => sync?.sync(), [sync]);
+
+  const resolveConflict = useCallback(
+    (path: string, keep: "local" | "remote") => {
+      sync?.resolveConflict(path, keep);
+      if (keep === "local") sync?.sync();
+    },
+    [sync]
+  );
+
+  return { enabled: !!sync, status, conflicts, lastError, syncNow, resolveConflict };
+};
@@ -0,0 +1,21 @@
+import { useEffect, useState } from "react";
+import { WorkspaceRegistry } from "@/services/WorkspaceRegistry";
+
+/**
+ * The student's IDE workspaces and the active one, kept current with the registry
+ */
+export const useWorkspaces = () => {
+  const [workspaces, setWorkspaces] = useState(() => WorkspaceRegistry.getAll());
+  const [active, setActive] = useState(() => WorkspaceRegistry.getActive());
+
+  useEffect(
+    () =>
+      WorkspaceRegistry.subscribe(() => {
+        setWorkspaces(WorkspaceRegistry.getAll());
+        setActive(WorkspaceRegistry.getActive());
+      }),
+    []
+  );
+
+  return { workspaces, active };
+};
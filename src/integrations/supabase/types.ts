@@ -14,6 +14,86 @@ export type Database = {
   }
   public: {
     Tables: {
+      file_locks: {
+        Row: {
+          condition: Json | null
+          created_at: string
+          created_by: string | null
+          id: string
+          mode: string
+          path: string
+          reason: string | null
+          submission_id: string
+          updated_at: string
+        }
+        Insert: {
+          condition?: Json | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          mode?: string
+          path: string
+          reason?: string | null
+          submission_id: string
+          updated_at?: string
+        }
+        Update: {
+          condition?: Json | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          mode?: string
+          path?: string
+          reason?: string | null
+          submission_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "file_locks_submission_id_fkey"
+            columns: ["submission_id"]
+            isOneToOne: false
+            referencedRelation: "project_submissions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      github_connections: {
+        Row: {
+          avatar_url: string | null
+          created_at: string | null
+          github_login: string
+          id: string
+          scopes: string[]
+          token: string
+          token_type: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string | null
+          github_login: string
+          id?: string
+          scopes?: string[]
+          token: string
+          token_type?: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string | null
+          github_login?: string
+          id?: string
+          scopes?: string[]
+          token?: string
+          token_type?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       help_requests: {
         Row: {
           created_at: string
@@ -196,6 +276,56 @@ export type Database = {
         }
         Relationships: []
       }
+      project_files: {
+        Row: {
+          content: string | null
+          created_at: string
+          deleted: boolean
+          id: string
+          language: string | null
+          path: string
+          revision: number
+          submission_id: string
+          type: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          content?: string | null
+          created_at?: string
+          deleted?: boolean
+          id?: string
+          language?: string | null
+          path: string
+          revision?: number
+          submission_id: string
+          type?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          content?: string | null
+          created_at?: string
+          deleted?: boolean
+          id?: string
+          language?: string | null
+          path?: string
+          revision?: number
+          submission_id?: string
+          type?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_files_submission_id_fkey"
+            columns: ["submission_id"]
+            isOneToOne: false
+            referencedRelation: "project_submissions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       project_submissions: {
         Row: {
           college: string
@@ -250,6 +380,84 @@ export type Database = {
         }
         Relationships: []
       }
+      snapshot_blobs: {
+        Row: {
+          content: string
+          created_at: string | null
+          hash: string
+          id: string
+        }
+        Insert: {
+          content: string
+          created_at?: string | null
+          hash: string
+          id?: string
+        }
+        Update: {
+          content?: string
+          created_at?: string | null
+          hash?: string
+          id?: string
+        }
+        Relationships: []
+      }
+      task_test_runs: {
+        Row: {
+          created_at: string
+          duration_ms: number
+          failed: number
+          id: string
+          passed: number
+          recorded_by: string | null
+          results: Json
+          skipped: number
+          submission_id: string
+          task_id: string
+          total: number
+        }
+        Insert: {
+          created_at?: string
+          duration_ms?: number
+          failed?: number
+          id?: string
+          passed?: number
+          recorded_by?: string | null
+          results?: Json
+          skipped?: number
+          submission_id: string
+          task_id: string
+          total?: number
+        }
+        Update: {
+          created_at?: string
+          duration_ms?: number
+          failed?: number
+          id?: string
+          passed?: number
+          recorded_by?: string | null
+          results?: Json
+          skipped?: number
+          submission_id?: string
+          task_id?: string
+          total?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_test_runs_submission_id_fkey"
+            columns: ["submission_id"]
+            isOneToOne: false
+            referencedRelation: "project_submissions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_test_runs_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       tasks: {
         Row: {
           created_at: string
@@ -315,11 +523,80 @@ export type Database = {
         }
         Relationships: []
       }
+      workspace_snapshots: {
+        Row: {
+          created_at: string | null
+          expires_at: string | null
+          id: string
+          manifest: Json
+          owner_id: string
+          previous_id: string | null
+          revoked_at: string | null
+          root_hash: string
+          share_token: string
+          submission_id: string | null
+          title: string
+          workspace_key: string
+          workspace_name: string
+        }
+        Insert: {
+          created_at?: string | null
+          expires_at?: string | null
+          id?: string
+          manifest: Json
+          owner_id: string
+          previous_id?: string | null
+          revoked_at?: string | null
+          root_hash: string
+          share_token: string
+          submission_id?: string | null
+          title: string
+          workspace_key: string
+          workspace_name: string
+        }
+        Update: {
+          created_at?: string | null
+          expires_at?: string | null
+          id?: string
+          manifest?: Json
+          owner_id?: string
+          previous_id?: string | null
+          revoked_at?: string | null
+          root_hash?: string
+          share_token?: string
+          submission_id?: string | null
+          title?: string
+          workspace_key?: string
+          workspace_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_snapshots_previous_id_fkey"
+            columns: ["previous_id"]
+            isOneToOne: false
+            referencedRelation: "workspace_snapshots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workspace_snapshots_submission_id_fkey"
+            columns: ["submission_id"]
+            isOneToOne: false
+            referencedRelation: "project_submissions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      get_shared_snapshot: {
+        Args: {
+          p_token: string
+        }
+        Returns: Json
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -327,6 +604,19 @@ export type Database = {
         }
         Returns: boolean
       }
+      push_project_files: {
+        Args: {
+          p_files: Json
+          p_submission_id: string
+        }
+        Returns: Json
+      }
+      snapshot_files: {
+        Args: {
+          p_manifest: Json
+        }
+        Returns: Json
+      }
     }
     Enums: {
       app_role: "admin" | "mentor" | "student"
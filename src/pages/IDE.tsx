@@ -1,7 +1,31 @@
+import { useEffect } from "react";
 import IDEWorkspace from "@/components/ide/IDEWorkspace";
 import { Helmet } from "react-helmet";
+import { useSearchParams } from "react-router-dom";
+import { useWorkspaces } from "@/hooks/useWorkspaces";
+import { WorkspaceRegistry } from "@/services/WorkspaceRegistry";
 
 const IDE = () => {
+  const [searchParams] = useSearchParams();
+  const submissionId = searchParams.get("submission");
+  const { workspaces, active } = useWorkspaces();
+
+  // Opening a submission switches to (or creates) the workspace linked to it
+  const linked = submissionId ? workspaces.find((w) => w.submissionId === submissionId) : undefined;
+  const workspace = submissionId ? linked : active;
+
+  useEffect(() => {
+    if (!submissionId) return;
+    WorkspaceRegistry.setActive(WorkspaceRegistry.forSubmission(submissionId).id);
+  }, [submissionId]);
+
+  // Dispose of a workspace's file system when the IDE switches away from it or closes
+  const workspaceId = workspace?.id;
+  useEffect(() => {
+    if (!workspaceId) return;
+    return () => void WorkspaceRegistry.release(workspaceId);
+  }, [workspaceId]);
+
   return (
     <>
       <Helmet>
@@ -11,7 +35,15 @@ const IDE = () => {
           content="The AMIT–BODHIT IDE workspace where you write real code with guided assistance. No shortcuts, just skill transfer."
         />
       </Helmet>
-      <IDEWorkspace />
+      {/* Keyed by workspace so switching starts with fresh editor, terminal and chat state */}
+      {workspace && (
+        <IDEWorkspace
+          key={workspace.id}
+          workspace={workspace}
+          submissionId={workspace.submissionId}
+          fileSystem={WorkspaceRegistry.getFileSystem(workspace.id)}
+        />
+      )}
     </>
   );
 };
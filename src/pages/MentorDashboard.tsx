@@ -20,6 +20,8 @@ import {
   Send,
   Trash2,
   Plus,
+  Code,
+  Lock,
 } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
@@ -46,6 +48,8 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { cn } from "@/lib/utils";
+import FileLocksDialog from "@/components/FileLocksDialog";
+import { loadLatestTestRuns, TestEvidence } from "@/services/TestEvidenceService";
 
 interface Submission {
   id: string;
@@ -112,6 +116,7 @@ const MentorDashboard = () => {
   const { toast } = useToast();
   const [submissions, setSubmissions] = useState<Submission[]>([]);
   const [milestones, setMilestones] = useState<Record<string, Milestone[]>>({});
+  const [testRuns, setTestRuns] = useState<Record<string, TestEvidence>>({});
   const [helpRequests, setHelpRequests] = useState<HelpRequest[]>([]);
   const [loadingData, setLoadingData] = useState(true);
   const [isMentor, setIsMentor] = useState(false);
@@ -145,6 +150,9 @@ const MentorDashboard = () => {
   const [submittingTask, setSubmittingTask] = useState(false);
   const [submittingFeedback, setSubmittingFeedback] = useState(false);
 
+  // File Locks dialog
+  const [fileLocksSubmission, setFileLocksSubmission] = useState<string | null>(null);
+
   useEffect(() => {
     if (!loading && !user) {
       navigate("/auth");
@@ -235,6 +243,13 @@ const MentorDashboard = () => {
             });
           });
           setMilestones(grouped);
+
+          // Latest test run students recorded per task (self-reported; shown as unverified)
+          try {
+            setTestRuns(await loadLatestTestRuns((tasksData || []).map((t) => t.id)));
+          } catch (err) {
+            console.warn("Failed to load task test runs:", err);
+          }
         } else {
           setMilestones({});
         }
@@ -686,6 +701,22 @@ const MentorDashboard = () => {
                           <div className="flex justify-between items-center">
                             <h4 className="font-medium">Milestones</h4>
                             <div className="flex gap-2">
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => navigate(`/workspace/${sub.id}`)}
+                              >
+                                <Code className="w-4 h-4 mr-2" />
+                                View Workspace
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => setFileLocksSubmission(sub.id)}
+                              >
+                                <Lock className="w-4 h-4 mr-2" />
+                                File Locks
+                              </Button>
                               <Button
                                 size="sm"
                                 variant="outline"
@@ -809,6 +840,15 @@ const MentorDashboard = () => {
                                             <div className="text-xs text-muted-foreground">
                                               {task.time_spent > 0 && `${Math.floor(task.time_spent / 60)}h ${task.time_spent % 60}m`}
                                             </div>
+                                            {testRuns[task.id] && (
+                                              <Badge
+                                                variant="outline"
+                                                className="text-xs text-muted-foreground"
+                                                title={`Recorded ${new Date(testRuns[task.id].createdAt).toLocaleString()} by the student's browser. The server does not run or verify these tests.`}
+                                              >
+                                                {testRuns[task.id].passed}/{testRuns[task.id].total} tests passing · unverified
+                                              </Badge>
+                                            )}
                                             <Progress value={task.progress} className="w-16 h-2" />
                                             <Badge className={cn("text-xs", statusColors[task.status])}>
                                               {task.progress}%
@@ -1007,6 +1047,14 @@ const MentorDashboard = () => {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* File Locks Dialog */}
+      <FileLocksDialog
+        submissionId={fileLocksSubmission}
+        milestones={fileLocksSubmission ? milestones[fileLocksSubmission] || [] : []}
+        open={!!fileLocksSubmission}
+        onOpenChange={(open) => !open && setFileLocksSubmission(null)}
+      />
     </>
   );
 };
@@ -0,0 +1,86 @@
+import { useEffect, useState } from "react";
+import { useParams } from "react-router-dom";
+import { Helmet } from "react-helmet";
+import { Camera, Loader2 } from "lucide-react";
+import IDEWorkspace from "@/components/ide/IDEWorkspace";
+import { IDEFileSystem } from "@/services/IDEFileSystem";
+import { MemoryStorageAdapter } from "@/services/IDEStorage";
+import { loadSharedSnapshot, SharedSnapshot } from "@/services/SnapshotService";
+
+/**
+ * Read-only view of a shared workspace snapshot. Open to anyone with the link.
+ */
+const SnapshotViewer = () => {
+  const { token } = useParams<{ token: string }>();
+  const [snapshot, setSnapshot] = useState<SharedSnapshot | null>(null);
+  const [workspace, setWorkspace] = useState<IDEFileSystem | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+
+    let cancelled = false;
+    loadSharedSnapshot(token)
+      .then((shared) => {
+        if (cancelled) return;
+        if (!shared) {
+          setError("This snapshot link has expired, been revoked, or does not exist.");
+          return;
+        }
+        setSnapshot(shared);
+        setWorkspace(new IDEFileSystem(new MemoryStorageAdapter(shared.files)));
+      })
+      .catch((err) => {
+        console.error("Error loading snapshot:", err);
+        if (!cancelled) setError("Failed to load snapshot.");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const previous = snapshot?.previous;
+
+  return (
+    <>
+      <Helmet>
+        <title>{snapshot ? `${snapshot.title} | ` : ""}Shared Snapshot | AMIT–BODHIT</title>
+      </Helmet>
+      {workspace && snapshot ? (
+        <IDEWorkspace
+          fileSystem={workspace}
+          readOnly
+          compareBaseline={
+            previous
+              ? { label: `${previous.title} (${new Date(previous.createdAt).toLocaleString()})`, files: previous.files }
+              : undefined
+          }
+          header={
+            <div className="h-9 shrink-0 flex items-center gap-2 px-3 bg-ide-sidebar border-b border-border text-sm">
+              <Camera className="w-4 h-4 text-muted-foreground" />
+              <span className="font-medium truncate">{snapshot.title}</span>
+              <span className="text-xs text-muted-foreground truncate">
+                {snapshot.workspaceName} · {new Date(snapshot.createdAt).toLocaleString()}
+              </span>
+              <span className="ml-auto text-xs text-muted-foreground shrink-0">
+                Read-only
+                {snapshot.expiresAt && ` · expires ${new Date(snapshot.expiresAt).toLocaleString()}`}
+              </span>
+            </div>
+          }
+        />
+      ) : (
+        <div className="min-h-screen bg-background flex items-center justify-center">
+          {error ? (
+            <p className="text-muted-foreground">{error}</p>
+          ) : (
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          )}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default SnapshotViewer;
@@ -694,7 +694,7 @@ const StudentDashboard = () => {
                     </Link>
                   </Button>
                   <Button variant="outline" className="h-auto py-4 flex-col gap-2" asChild>
-                    <Link to="/ide">
+                    <Link to={currentSubmission ? `/ide?submission=${currentSubmission.id}` : "/ide"}>
                       <Code className="w-5 h-5" />
                       <span>Open IDE</span>
                     </Link>
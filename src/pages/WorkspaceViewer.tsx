@@ -0,0 +1,68 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Helmet } from "react-helmet";
+import { Loader2 } from "lucide-react";
+import IDEWorkspace from "@/components/ide/IDEWorkspace";
+import { useAuth } from "@/hooks/useAuth";
+import { IDEFileSystem } from "@/services/IDEFileSystem";
+import { MemoryStorageAdapter } from "@/services/IDEStorage";
+import { fetchRemoteWorkspace } from "@/services/WorkspaceSyncService";
+
+/**
+ * Read-only view of a student's synced IDE workspace (for mentors)
+ */
+const WorkspaceViewer = () => {
+  const { submissionId } = useParams<{ submissionId: string }>();
+  const navigate = useNavigate();
+  const { user, loading } = useAuth();
+  const [workspace, setWorkspace] = useState<IDEFileSystem | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!loading && !user) {
+      navigate("/auth");
+      return;
+    }
+    if (!user || !submissionId) return;
+
+    let cancelled = false;
+    fetchRemoteWorkspace(submissionId)
+      .then((files) => {
+        if (cancelled) return;
+        if (Object.keys(files).length === 0) {
+          setError("This student has not synced any workspace files yet.");
+          return;
+        }
+        setWorkspace(new IDEFileSystem(new MemoryStorageAdapter(files)));
+      })
+      .catch((err) => {
+        console.error("Error loading workspace:", err);
+        if (!cancelled) setError("Failed to load workspace.");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, loading, submissionId, navigate]);
+
+  return (
+    <>
+      <Helmet>
+        <title>Student Workspace | AMIT–BODHIT</title>
+      </Helmet>
+      {workspace ? (
+        <IDEWorkspace fileSystem={workspace} readOnly />
+      ) : (
+        <div className="min-h-screen bg-background flex items-center justify-center">
+          {error ? (
+            <p className="text-muted-foreground">{error}</p>
+          ) : (
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          )}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default WorkspaceViewer;
@@ -0,0 +1,72 @@
+/**
+ * Clone Registry
+ * Remembers which GitHub repository each folder under /repos was cloned from,
+ * so files can later be compared with (or pushed back to) their upstream.
+ * Each IDE workspace has its own list.
+ */
+
+import { WorkspaceRegistry } from "./WorkspaceRegistry";
+
+export interface ClonedRepo {
+  owner: string;
+  repo: string;
+  /** Folder in the IDE file system, e.g. "/repos/my-app" */
+  path: string;
+  /** Branch the files track, when cloned from (or pushed to) a branch */
+  branch?: string;
+  /** Branch, tag or commit SHA the repository was cloned at */
+  ref?: string;
+  refType?: "branch" | "tag" | "commit";
+  /** Folder of the repository that was cloned, when not the whole repository */
+  subdir?: string;
+  clonedAt: number;
+  /** Commit the files were cloned from (or last pushed as); changes are measured against it */
+  baseCommit?: string;
+  /** Git blob SHA and mode of each file at baseCommit, by path inside the cloned folder */
+  baseFiles?: Record<string, { sha: string; mode: string }>;
+}
+
+const STORAGE_KEY = "BODHIT_IDE_CLONES";
+
+export const CloneRegistry = {
+  getAll(): ClonedRepo[] {
+    try {
+      const raw = localStorage.getItem(WorkspaceRegistry.scopedKey(STORAGE_KEY));
+      return raw ? (JSON.parse(raw) as ClonedRepo[]) : [];
+    } catch (err) {
+      console.error("CloneRegistry.getAll parse error", err);
+      return [];
+    }
+  },
+
+  record(clone: ClonedRepo) {
+    const items = this.getAll().filter((c) => c.path !== clone.path);
+    items.push(clone);
+    localStorage.setItem(WorkspaceRegistry.scopedKey(STORAGE_KEY), JSON.stringify(items));
+    return clone;
+  },
+
+  update(path: string, patch: Partial<ClonedRepo>) {
+    const clone = this.getAll().find((c) => c.path === path);
+    return clone ? this.record({ ...clone, ...patch, path }) : null;
+  },
+
+  remove(path: string) {
+    localStorage.setItem(WorkspaceRegistry.scopedKey(STORAGE_KEY), JSON.stringify(this.getAll().filter((c) => c.path !== path)));
+  },
+
+  /**
+   * Find the clone a file belongs to, with the file's path inside the repository
+   */
+  find(filePath: string): { clone: ClonedRepo; relativePath: string } | null {
+    const clone = this.getAll().find((c) => filePath.startsWith(`${c.path}/`));
+    return clone ? { clone, relativePath: this.repoPath(clone, filePath.slice(clone.path.length + 1)) } : null;
+  },
+
+  /**
+   * Path inside the repository of a path inside the cloned folder
+   */
+  repoPath(clone: ClonedRepo, folderPath: string): string {
+    return clone.subdir ? `${clone.subdir}/${folderPath}` : folderPath;
+  },
+};
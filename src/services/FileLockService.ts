@@ -0,0 +1,197 @@
+/**
+ * File Lock Service
+ * Loads and saves mentor-managed file locks (the Supabase `file_locks` table) and decides
+ * when a lock's condition has been met: a milestone approved, a task completed or a set of
+ * named test files passing.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import { FileLock, IDEFileSystem, LockCondition, normalizePath } from "./IDEFileSystem";
+import { TestRunSummary } from "./TestRunner";
+
+export interface ManagedFileLock extends FileLock {
+  id: string;
+  path: string;
+}
+
+/** Milestone and task statuses of a submission, by id */
+export interface LockConditionState {
+  milestones: Record<string, string>;
+  tasks: Record<string, string>;
+}
+
+const parseCondition = (value: Json | null): LockCondition | undefined => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return undefined;
+  if (value.type === "milestone" && typeof value.milestoneId === "string") {
+    return { type: "milestone", milestoneId: value.milestoneId };
+  }
+  if (value.type === "task" && typeof value.taskId === "string") {
+    return { type: "task", taskId: value.taskId };
+  }
+  if (value.type === "tests" && Array.isArray(value.paths)) {
+    return { type: "tests", paths: value.paths.filter((p): p is string => typeof p === "string") };
+  }
+  // Conditions saved with a name filter instead of paths never lift; the mentor has to re-save them
+  if (value.type === "tests") {
+    return { type: "tests", paths: [] };
+  }
+  return undefined;
+};
+
+const mapRow = (row: Tables<"file_locks">): ManagedFileLock => ({
+  id: row.id,
+  path: row.path,
+  mode: row.mode === "hidden" ? "hidden" : "readonly",
+  until: parseCondition(row.condition),
+  reason: row.reason || undefined,
+});
+
+export async function loadFileLocks(submissionId: string): Promise<ManagedFileLock[]> {
+  const { data, error } = await supabase
+    .from("file_locks")
+    .select("*")
+    .eq("submission_id", submissionId)
+    .order("path", { ascending: true });
+  if (error) throw error;
+  return (data || []).map(mapRow);
+}
+
+/**
+ * Create or replace the lock on a path
+ */
+export async function saveFileLock(submissionId: string, path: string, lock: FileLock): Promise<ManagedFileLock> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const { data, error } = await supabase
+    .from("file_locks")
+    .upsert(
+      {
+        submission_id: submissionId,
+        path,
+        mode: lock.mode,
+        condition: (lock.until ?? null) as Json,
+        reason: lock.reason || null,
+        created_by: user?.id ?? null,
+      },
+      { onConflict: "submission_id,path" }
+    )
+    .select()
+    .single();
+  if (error || !data) throw error || new Error("Lock was not saved");
+  return mapRow(data);
+}
+
+export async function deleteFileLock(id: string): Promise<void> {
+  const { error } = await supabase.from("file_locks").delete().eq("id", id);
+  if (error) throw error;
+}
+
+/**
+ * Paths in the submission's synced workspace, for picking what to lock
+ */
+export async function loadLockablePaths(submissionId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from("project_files")
+    .select("path")
+    .eq("submission_id", submissionId)
+    .eq("deleted", false)
+    .order("path", { ascending: true });
+  if (error) throw error;
+  return (data || []).map((row) => row.path);
+}
+
+/**
+ * Current milestone and task statuses for a submission
+ */
+export async function loadLockConditionState(submissionId: string): Promise<LockConditionState> {
+  const state: LockConditionState = { milestones: {}, tasks: {} };
+
+  const { data: milestones, error: milestonesError } = await supabase
+    .from("milestones")
+    .select("id, status")
+    .eq("submission_id", submissionId);
+  if (milestonesError) throw milestonesError;
+  if (!milestones || milestones.length === 0) return state;
+  milestones.forEach((m) => (state.milestones[m.id] = m.status));
+
+  const { data: tasks, error: tasksError } = await supabase
+    .from("tasks")
+    .select("id, status")
+    .in(
+      "milestone_id",
+      milestones.map((m) => m.id)
+    );
+  if (tasksError) throw tasksError;
+  (tasks || []).forEach((t) => (state.tasks[t.id] = t.status));
+
+  return state;
+}
+
+/**
+ * Whether a test file can count towards a condition: it exists, has its provided content (or,
+ * when nothing was provided for it, a permanent lock keeps it from being edited), and was not
+ * changed after the test run started
+ */
+const isUnmodifiedTestFile = (fileSystem: IDEFileSystem, path: string, tests: TestRunSummary): boolean => {
+  const node = fileSystem.getFile(path);
+  if (!node || node.type !== "file" || node.updatedAt > tests.finishedAt - tests.duration) return false;
+  const provided = fileSystem.getProvidedContent(path);
+  return provided !== undefined ? node.content === provided : fileSystem.isPermanentlyLocked(path);
+};
+
+/**
+ * Whether a lock condition is met. Test conditions name exact test files; every one of them
+ * must be unmodified and have passed in the latest run, so tests a student writes themselves
+ * cannot lift a lock.
+ */
+export function isLockConditionMet(
+  condition: LockCondition,
+  state: LockConditionState,
+  fileSystem: IDEFileSystem,
+  tests: TestRunSummary | null
+): boolean {
+  switch (condition.type) {
+    case "milestone":
+      return state.milestones[condition.milestoneId] === "approved";
+    case "task":
+      return state.tasks[condition.taskId] === "completed";
+    case "tests": {
+      // Locks stored before conditions named exact files have no paths and stay locked
+      const paths = (condition.paths ?? []).map(normalizePath);
+      return (
+        !!tests &&
+        paths.length > 0 &&
+        paths.every((path) => {
+          if (!isUnmodifiedTestFile(fileSystem, path, tests)) return false;
+          const result = tests.files.find((f) => f.path === path);
+          return (
+            !!result &&
+            !result.error &&
+            result.tests.some((t) => t.status === "passed") &&
+            !result.tests.some((t) => t.status === "failed")
+          );
+        })
+      );
+    }
+  }
+}
+
+/**
+ * Human-readable condition, e.g. "until milestone "Auth" is approved"
+ */
+export function describeLockCondition(condition: LockCondition | undefined, titles: Record<string, string> = {}): string {
+  if (!condition) return "permanently";
+  switch (condition.type) {
+    case "milestone":
+      return `until milestone "${titles[condition.milestoneId] || condition.milestoneId}" is approved`;
+    case "task":
+      return `until task "${titles[condition.taskId] || condition.taskId}" is completed`;
+    case "tests":
+      return condition.paths?.length
+        ? `until the tests in ${condition.paths.join(", ")} pass`
+        : "until tests pass (no test files named; save the lock again)";
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * File type helpers
+ * Binary detection shared by the IDE file system, imports and GitHub cloning.
+ * Language detection lives in LanguageRegistry.
+ */
+
+const BINARY_EXTENSIONS = [
+  ".png", ".jpg", ".jpeg", ".gif", ".bmp", ".ico", ".svg",
+  ".mp4", ".avi", ".mov", ".wmv", ".flv",
+  ".mp3", ".wav", ".flac", ".aac",
+  ".zip", ".rar", ".7z", ".tar", ".gz",
+  ".pdf", ".doc", ".docx", ".xls", ".xlsx",
+  ".exe", ".dll", ".so", ".dylib",
+];
+
+const getExtension = (path: string): string => {
+  const name = path.toLowerCase().split("/").pop() || "";
+  const dot = name.lastIndexOf(".");
+  return dot > 0 ? name.substring(dot) : "";
+};
+
+/**
+ * Check if file is likely binary based on its extension
+ */
+export function isBinaryPath(path: string): boolean {
+  return BINARY_EXTENSIONS.includes(getExtension(path));
+}
+
+/**
+ * Check if raw bytes look binary (a NUL byte in the first 8KB, like git does)
+ */
+export function looksBinary(bytes: Uint8Array): boolean {
+  const length = Math.min(bytes.length, 8000);
+  for (let i = 0; i < length; i++) {
+    if (bytes[i] === 0) return true;
+  }
+  return false;
+}
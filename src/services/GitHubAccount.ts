@@ -0,0 +1,106 @@
+/**
+ * GitHub Account
+ * Holds the GitHubService for the signed-in user: one whose requests go through the
+ * github-connection edge function with the token they connected, or the anonymous service
+ * (public repositories, lower rate limit) otherwise.
+ */
+
+import {
+  deleteGitHubConnection,
+  GitHubConnection,
+  githubProxyFetch,
+  loadGitHubConnection,
+  refreshGitHubConnection,
+  saveGitHubConnection,
+} from "./GitHubConnectionService";
+import { GitHubService, gitHubService as anonymousService } from "./GitHubService";
+
+const listeners = new Set<() => void>();
+
+let userId: string | null = null;
+let connection: GitHubConnection | null = null;
+let service: GitHubService = anonymousService;
+let loading = false;
+
+const apply = (next: GitHubConnection | null) => {
+  // Keep the service (and its rate limit state) while the same account stays connected
+  if (!next) service = anonymousService;
+  else if (!connection) service = new GitHubService(undefined, { fetch: githubProxyFetch });
+  connection = next;
+  listeners.forEach((cb) => cb());
+};
+
+export const GitHubAccount = {
+  /**
+   * GitHubService to use for the signed-in user's requests
+   */
+  getService(): GitHubService {
+    return service;
+  },
+
+  getConnection(): GitHubConnection | null {
+    return connection;
+  },
+
+  isLoading(): boolean {
+    return loading;
+  },
+
+  /**
+   * Switch to another user's connection (null on sign out)
+   */
+  async setUser(id: string | null) {
+    if (id === userId) return;
+    userId = id;
+    loading = !!id;
+    apply(null);
+    if (!id) return;
+
+    try {
+      const stored = await loadGitHubConnection();
+      if (userId === id) apply(stored);
+    } catch (err) {
+      console.error("Error loading GitHub connection:", err);
+    } finally {
+      if (userId === id) {
+        loading = false;
+        listeners.forEach((cb) => cb());
+      }
+    }
+  },
+
+  /**
+   * Check a token with GitHub and store it as the signed-in user's connection
+   */
+  async connect(token: string): Promise<GitHubConnection> {
+    const saved = await saveGitHubConnection(token.trim());
+    apply(saved);
+    return saved;
+  },
+
+  /**
+   * Re-check the stored token, picking up scope changes or a token revoked on GitHub
+   */
+  async refresh(): Promise<GitHubConnection | null> {
+    if (!connection) return null;
+    const checked = await refreshGitHubConnection();
+    apply(checked);
+    return checked;
+  },
+
+  /**
+   * Revoke the token on GitHub and delete it; `revoked` says whether GitHub accepted the revocation
+   */
+  async disconnect(): Promise<{ revoked: boolean }> {
+    const result = await deleteGitHubConnection();
+    apply(null);
+    return result;
+  },
+
+  subscribe(cb: () => void): () => void {
+    listeners.add(cb);
+    return () => {
+      listeners.delete(cb);
+    };
+  },
+};
@@ -0,0 +1,118 @@
+/**
+ * GitHub Connection Service
+ * Connects each user's GitHub token (personal access token or OAuth token) through the
+ * github-connection edge function. The token is stored server-side and never read back;
+ * GitHub API calls are forwarded by the function with it (see githubProxyFetch).
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type GitHubTokenType = "classic" | "fine-grained" | "oauth";
+
+export interface GitHubConnection {
+  login: string;
+  avatarUrl: string | null;
+  tokenType: GitHubTokenType;
+  /** OAuth scopes of a classic or OAuth token; fine-grained tokens have per-repository permissions instead */
+  scopes: string[];
+  connectedAt: number;
+}
+
+const FUNCTION_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/github-connection`;
+
+// Every column but the token, which clients cannot select
+const PUBLIC_COLUMNS = "id, user_id, token_type, github_login, avatar_url, scopes, created_at, updated_at";
+
+const mapRow = (row: Omit<Tables<"github_connections">, "token">): GitHubConnection => ({
+  login: row.github_login,
+  avatarUrl: row.avatar_url,
+  tokenType: row.token_type as GitHubTokenType,
+  scopes: row.scopes || [],
+  connectedAt: row.created_at ? new Date(row.created_at).getTime() : Date.now(),
+});
+
+/**
+ * POST to the github-connection function as the signed-in user
+ */
+async function callFunction(body: Record<string, unknown>): Promise<Response> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  if (!session) throw new Error("Sign in to use GitHub");
+
+  return fetch(FUNCTION_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${session.access_token}`,
+      apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+async function callAction<T>(body: Record<string, unknown>): Promise<T> {
+  const response = await callFunction(body);
+  const data = await response.json();
+  if (!response.ok) throw new Error(data?.error || `GitHub connection request failed (${response.status})`);
+  return data as T;
+}
+
+/**
+ * The current user's GitHub connection, if they connected one
+ */
+export async function loadGitHubConnection(): Promise<GitHubConnection | null> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return null;
+
+  const { data, error } = await supabase
+    .from("github_connections")
+    .select(PUBLIC_COLUMNS)
+    .eq("user_id", user.id)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? mapRow(data) : null;
+}
+
+/**
+ * Check a token with GitHub and store it for the current user, replacing any previous one
+ */
+export async function saveGitHubConnection(token: string): Promise<GitHubConnection> {
+  const { connection } = await callAction<{ connection: Tables<"github_connections"> }>({ action: "connect", token });
+  return mapRow(connection);
+}
+
+/**
+ * Re-check the stored token's account and scopes with GitHub
+ */
+export async function refreshGitHubConnection(): Promise<GitHubConnection> {
+  const { connection } = await callAction<{ connection: Tables<"github_connections"> }>({ action: "refresh" });
+  return mapRow(connection);
+}
+
+/**
+ * Revoke the current user's token on GitHub and delete it. `revoked` is false when GitHub
+ * did not accept the revocation; the token is deleted either way.
+ */
+export async function deleteGitHubConnection(): Promise<{ revoked: boolean }> {
+  return callAction<{ revoked: boolean }>({ action: "disconnect" });
+}
+
+/**
+ * fetch for Octokit that sends GitHub API requests through the github-connection function,
+ * which adds the user's stored token. Responses come back with GitHub's status and headers.
+ */
+export const githubProxyFetch: typeof fetch = async (input, init) => {
+  const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+  const headers = new Headers(init?.headers);
+  return callFunction({
+    action: "request",
+    url,
+    method: init?.method || "GET",
+    accept: headers.get("accept"),
+    body: typeof init?.body === "string" ? init.body : null,
+  });
+};
@@ -1,9 +1,14 @@
 /**
  * GitHub Service
- * Handles GitHub API operations for repository cloning and file fetching
+ * Handles GitHub API operations for repository cloning, file fetching and
+ * pushing commits (through the Git Data API). Requests wait for the rate limit
+ * to reset (reported in x-ratelimit-* headers) instead of failing.
  */
 
 import { Octokit } from "@octokit/rest";
+import { isBinaryPath } from "./FileTypes";
+import type { FileNode } from "./IDEFileSystem";
+import { detectLanguage } from "./LanguageRegistry";
 
 export interface GitHubRepo {
   owner: string;
@@ -19,24 +24,174 @@ export interface GitHubFile {
   size?: number;
   content?: string;
   encoding?: string;
+  /** Git blob SHA */
+  sha?: string;
+  /** Git file mode, e.g. "100644" or "100755" for executables */
+  mode?: string;
 }
 
+export interface GitHubRef {
+  /** Branch or tag name, or the commit SHA as given */
+  name: string;
+  type: "branch" | "tag" | "commit";
+  /** Commit the ref points to */
+  sha: string;
+}
+
+export interface CloneProgress {
+  /** Files fetched so far */
+  loaded: number;
+  /** Files to fetch (0 for lazy clones) */
+  total: number;
+}
+
+export interface CloneOptions {
+  ref?: GitHubRef;
+  /** Clone only this folder of the repository */
+  subdir?: string;
+  /**
+   * Fetch file contents only when a file is opened. Defaults to lazy for repositories
+   * with more than LAZY_CLONE_THRESHOLD files.
+   */
+  lazy?: boolean;
+  onProgress?: (progress: CloneProgress) => void;
+}
+
+export interface RateLimitState {
+  limit: number;
+  remaining: number;
+  /** When the quota resets (ms since epoch) */
+  resetAt: number;
+}
+
+export interface ClonedFiles {
+  files: Record<string, FileNode>;
+  ref: GitHubRef;
+  /** Blob SHA and mode of each cloned file, by path inside the cloned folder */
+  baseFiles: Record<string, { sha: string; mode: string }>;
+}
+
+/** A file to write (content) or delete (content: null) in a commit */
+export interface GitHubFileChange {
+  path: string;
+  content: string | null;
+  mode?: string;
+}
+
+/** Thrown when GitHub's rate limit is used up for longer than we are willing to wait */
+export class GitHubRateLimitError extends Error {
+  constructor(public resetAt: number) {
+    super(
+      `GitHub rate limit reached; it resets at ${new Date(resetAt).toLocaleTimeString()}. ` +
+        "Connect a GitHub account for a higher limit."
+    );
+    this.name = "GitHubRateLimitError";
+  }
+}
+
+/** Thrown by resolveRef when the repository has no branch, tag or commit by that name */
+export class GitHubRefNotFoundError extends Error {
+  constructor(owner: string, repo: string, public ref: string) {
+    super(`No branch, tag or commit named "${ref}" in ${owner}/${repo}`);
+    this.name = "GitHubRefNotFoundError";
+  }
+}
+
+type ResponseHeaders = Record<string, string | number | undefined>;
+
+// Blob requests in flight at once while cloning
+const CLONE_CONCURRENCY = 8;
+// Larger repositories are cloned lazily unless asked otherwise
+export const LAZY_CLONE_THRESHOLD = 300;
+// Longest wait for the rate limit to reset before giving up
+const MAX_RATE_LIMIT_WAIT_MS = 60_000;
+const MAX_RETRIES = 3;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const isNotFound = (error: unknown) => (error as { status?: number }).status === 404;
+
+// GitHub returns file contents as base64 of the raw bytes; decode them as UTF-8
+const decodeBase64 = (content: string) =>
+  new TextDecoder().decode(Uint8Array.from(atob(content.replace(/\n/g, "")), (c) => c.charCodeAt(0)));
+
 export class GitHubService {
   private octokit: Octokit;
+  private rateLimit: RateLimitState | null = null;
 
-  constructor(token?: string) {
+  /**
+   * With `fetch`, requests go through it instead (e.g. a server-side proxy that adds the token)
+   */
+  constructor(token?: string, options: { fetch?: typeof fetch } = {}) {
     this.octokit = new Octokit({
       auth: token,
+      ...(options.fetch ? { request: { fetch: options.fetch } } : {}),
+    });
+    this.octokit.hook.wrap("request", async (request, options) => {
+      for (let attempt = 0; ; attempt++) {
+        await this.waitForQuota();
+        try {
+          const response = await request(options);
+          this.recordRateLimit(response.headers);
+          return response;
+        } catch (error) {
+          const { status, response } = error as { status?: number; response?: { headers: ResponseHeaders } };
+          if (response) this.recordRateLimit(response.headers);
+          // 403/429 with rate limit headers means "slow down"; other 403s are permission errors
+          const delay = status === 403 || status === 429 ? this.retryDelay(response?.headers) : null;
+          if (delay === null || attempt >= MAX_RETRIES) throw error;
+          if (delay > MAX_RATE_LIMIT_WAIT_MS) throw new GitHubRateLimitError(Date.now() + delay);
+          await sleep(delay);
+        }
+      }
     });
   }
 
   /**
-   * Parse GitHub URL to extract owner and repo
+   * Rate limit reported by the latest response, if any
    */
-  parseGitHubUrl(url: string): { owner: string; repo: string } | null {
-    const match = url.match(/github\.com\/([^\/]+)\/([^\/]+?)(?:\.git)?(?:\/.*)?$/);
-    if (!match) return null;
-    return { owner: match[1], repo: match[2] };
+  getRateLimit(): RateLimitState | null {
+    return this.rateLimit;
+  }
+
+  private recordRateLimit(headers: ResponseHeaders) {
+    if (headers["x-ratelimit-remaining"] === undefined) return;
+    this.rateLimit = {
+      limit: Number(headers["x-ratelimit-limit"]),
+      remaining: Number(headers["x-ratelimit-remaining"]),
+      resetAt: Number(headers["x-ratelimit-reset"]) * 1000,
+    };
+  }
+
+  private retryDelay(headers?: ResponseHeaders): number | null {
+    if (!headers) return null;
+    if (headers["retry-after"] !== undefined) return Number(headers["retry-after"]) * 1000;
+    if (Number(headers["x-ratelimit-remaining"]) === 0 && headers["x-ratelimit-reset"] !== undefined) {
+      return Math.max(Number(headers["x-ratelimit-reset"]) * 1000 - Date.now(), 1000);
+    }
+    return null;
+  }
+
+  private async waitForQuota() {
+    if (!this.rateLimit || this.rateLimit.remaining > 0) return;
+    const wait = this.rateLimit.resetAt - Date.now();
+    if (wait <= 0) return;
+    if (wait > MAX_RATE_LIMIT_WAIT_MS) throw new GitHubRateLimitError(this.rateLimit.resetAt);
+    await sleep(wait);
+  }
+
+  /**
+   * Parse GitHub URL to extract owner and repo. For /tree/, /blob/ and /commit/ URLs,
+   * refPath is what follows: a ref, possibly followed by a folder or file path
+   * (resolve it with resolveRefPath, since branch names can contain slashes).
+   */
+  parseGitHubUrl(url: string): { owner: string; repo: string; refPath?: string } | null {
+    const match = url.match(/github\.com\/([^/]+)\/([^/]+?)(?:\.git)?(?:\/(?:tree|blob|commit)\/([^?#]+?))?\/?(?:[?#].*)?$/);
+    if (!match) {
+      const repoOnly = url.match(/github\.com\/([^\/]+)\/([^\/]+?)(?:\.git)?(?:\/.*)?$/);
+      return repoOnly ? { owner: repoOnly[1], repo: repoOnly[2] } : null;
+    }
+    return { owner: match[1], repo: match[2], refPath: match[3] ? decodeURIComponent(match[3]) : undefined };
   }
 
   /**
@@ -54,49 +209,129 @@ export class GitHubService {
   }
 
   /**
-   * Get repository tree recursively
+   * Resolve a branch, tag or commit SHA to the commit it points to.
+   * Without a ref, the repository's default branch is used.
    */
-  async getRepoTree(owner: string, repo: string, branch = "main"): Promise<GitHubFile[]> {
-    try {
-      // First try the default branch
-      const { data: ref } = await this.octokit.git.getRef({
-        owner,
-        repo,
-        ref: `heads/${branch}`,
-      });
+  async resolveRef(owner: string, repo: string, ref?: string): Promise<GitHubRef> {
+    const name = ref || (await this.getRepo(owner, repo)).default_branch;
 
-      const { data: tree } = await this.octokit.git.getTree({
-        owner,
-        repo,
-        tree_sha: ref.object.sha,
-        recursive: "true",
-      });
+    try {
+      const { data } = await this.octokit.git.getRef({ owner, repo, ref: `heads/${name}` });
+      return { name, type: "branch", sha: data.object.sha };
+    } catch (error) {
+      if (!isNotFound(error)) throw error;
+    }
 
-      return tree.tree
-        .filter(item => item.type === "blob" && !this.isBinaryFile(item.path))
-        .map(item => ({
-          path: item.path,
-          type: item.type === "tree" ? "dir" : "file",
-          size: item.size,
-        }));
+    try {
+      const { data } = await this.octokit.git.getRef({ owner, repo, ref: `tags/${name}` });
+      let target = data.object;
+      // Annotated tags point to a tag object; follow it to the commit
+      while (target.type === "tag") {
+        const { data: tag } = await this.octokit.git.getTag({ owner, repo, tag_sha: target.sha });
+        target = tag.object;
+      }
+      return { name, type: "tag", sha: target.sha };
     } catch (error) {
-      // If branch doesn't exist, try 'master'
-      if (branch === "main") {
-        return this.getRepoTree(owner, repo, "master");
+      if (!isNotFound(error)) throw error;
+    }
+
+    if (/^[0-9a-f]{7,40}$/i.test(name)) {
+      try {
+        const { data } = await this.octokit.repos.getCommit({ owner, repo, ref: name });
+        return { name, type: "commit", sha: data.sha };
+      } catch (error) {
+        if (!isNotFound(error)) throw error;
       }
-      throw error;
     }
+
+    throw new GitHubRefNotFoundError(owner, repo, name);
+  }
+
+  /**
+   * Split the "<ref>/<path>" part of a /tree/ URL into the ref and the path after it.
+   * Shorter refs are tried first, so branches with slashes like "feature/login" resolve too.
+   * Only a missing ref moves on to the next, longer one; other errors (rate limit, network,
+   * access) are thrown as they are.
+   */
+  async resolveRefPath(owner: string, repo: string, refPath: string): Promise<{ ref: GitHubRef; path?: string }> {
+    const segments = refPath.split("/").filter(Boolean);
+    for (let i = 1; i <= segments.length; i++) {
+      try {
+        const ref = await this.resolveRef(owner, repo, segments.slice(0, i).join("/"));
+        const path = segments.slice(i).join("/");
+        return { ref, path: path || undefined };
+      } catch (error) {
+        if (!(error instanceof GitHubRefNotFoundError) || i === segments.length) throw error;
+      }
+    }
+    throw new Error(`Could not find a branch, tag or commit in "${refPath}"`);
+  }
+
+  /**
+   * Get a file's content by its blob SHA
+   */
+  async getBlob(owner: string, repo: string, sha: string): Promise<string> {
+    const { data } = await this.octokit.git.getBlob({ owner, repo, file_sha: sha });
+    return data.encoding === "base64" ? decodeBase64(data.content) : data.content;
+  }
+
+  /**
+   * Get several files' contents by blob SHA, a few requests at a time
+   */
+  async getBlobs(owner: string, repo: string, shas: string[]): Promise<Record<string, string>> {
+    const contents: Record<string, string> = {};
+    const queue = [...new Set(shas)];
+    const worker = async () => {
+      for (let sha = queue.shift(); sha; sha = queue.shift()) {
+        contents[sha] = await this.getBlob(owner, repo, sha);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(CLONE_CONCURRENCY, queue.length) }, worker));
+    return contents;
+  }
+
+  /**
+   * Get repository tree recursively (the default branch when no ref is given)
+   */
+  async getRepoTree(owner: string, repo: string, ref?: string): Promise<GitHubFile[]> {
+    const { sha } = await this.resolveRef(owner, repo, ref);
+    return this.getTree(owner, repo, sha);
+  }
+
+  /**
+   * Get a commit's (or tree's) files recursively
+   */
+  async getTree(owner: string, repo: string, treeSha: string): Promise<GitHubFile[]> {
+    const { data: tree } = await this.octokit.git.getTree({
+      owner,
+      repo,
+      tree_sha: treeSha,
+      recursive: "true",
+    });
+    if (tree.truncated) {
+      throw new Error(`${owner}/${repo} is too large to clone in the browser`);
+    }
+
+    return tree.tree
+      .filter(item => item.type === "blob" && !isBinaryPath(item.path))
+      .map(item => ({
+        path: item.path,
+        type: item.type === "tree" ? "dir" : "file",
+        size: item.size,
+        sha: item.sha,
+        mode: item.mode,
+      }));
   }
 
   /**
    * Get file content
    */
-  async getFileContent(owner: string, repo: string, path: string, branch = "main"): Promise<string> {
+  async getFileContent(owner: string, repo: string, path: string, ref?: string): Promise<string> {
     const { data } = await this.octokit.repos.getContent({
       owner,
       repo,
       path,
-      ref: branch,
+      ref,
     });
 
     if (Array.isArray(data)) {
@@ -108,99 +343,162 @@ export class GitHubService {
     }
 
     if (data.encoding === "base64" && data.content) {
-      return atob(data.content.replace(/\n/g, ""));
+      return decodeBase64(data.content);
     }
 
     return data.content || "";
   }
 
   /**
-   * Clone repository to file system
+   * Clone repository to file system, at a ref (default branch by default) and optionally
+   * only one folder of it. Contents are fetched by blob SHA a few at a time, or left to be
+   * fetched when each file is opened (FileNode.lazy).
    */
-  async cloneRepo(owner: string, repo: string, targetPath: string): Promise<Record<string, any>> {
-    const files: Record<string, any> = {};
-    const tree = await this.getRepoTree(owner, repo);
+  async cloneRepo(owner: string, repo: string, targetPath: string, options: CloneOptions = {}): Promise<ClonedFiles> {
+    const files: Record<string, FileNode> = {};
+    const baseFiles: ClonedFiles["baseFiles"] = {};
+    const ref = options.ref || (await this.resolveRef(owner, repo));
+    const prefix = options.subdir ? `${options.subdir}/` : "";
+    const tree = (await this.getTree(owner, repo, ref.sha)).filter(
+      (item) => item.type === "file" && item.sha && item.path.startsWith(prefix)
+    );
+
+    if (prefix && tree.length === 0) {
+      throw new Error(`${options.subdir} is not a folder in ${owner}/${repo}@${ref.name}`);
+    }
+
+    const lazy = options.lazy ?? tree.length > LAZY_CLONE_THRESHOLD;
+    const addFile = (item: GitHubFile, content: string) => {
+      const relativePath = item.path.slice(prefix.length);
+      const filePath = `${targetPath}/${relativePath}`;
+      files[filePath] = {
+        id: `github-${owner}-${repo}-${item.path.replace(/\//g, "-")}`,
+        path: filePath,
+        name: item.path.split("/").pop() || item.path,
+        type: "file",
+        content,
+        language: detectLanguage(item.path, content),
+        ...(lazy ? { lazy: { owner, repo, sha: item.sha || "" } } : {}),
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      };
+      baseFiles[relativePath] = { sha: item.sha || "", mode: item.mode || "100644" };
+    };
 
-    // Limit to reasonable size
-    if (tree.length > 1000) {
-      throw new Error("Repository too large (>1000 files). Cloning not supported.");
+    if (lazy) {
+      tree.forEach((item) => addFile(item, ""));
+      options.onProgress?.({ loaded: 0, total: 0 });
+      return { files, ref, baseFiles };
     }
 
-    for (const item of tree) {
-      if (item.type === "file") {
+    const queue = [...tree];
+    let loaded = 0;
+    options.onProgress?.({ loaded, total: tree.length });
+    const worker = async () => {
+      for (let item = queue.shift(); item; item = queue.shift()) {
         try {
-          const content = await this.getFileContent(owner, repo, item.path);
-          const filePath = `${targetPath}/${item.path}`;
-          files[filePath] = {
-            id: `github-${owner}-${repo}-${item.path.replace(/\//g, "-")}`,
-            path: filePath,
-            name: item.path.split("/").pop() || item.path,
-            type: "file",
-            content,
-            language: this.getLanguageFromPath(item.path),
-            createdAt: Date.now(),
-            updatedAt: Date.now(),
-          };
+          addFile(item, await this.getBlob(owner, repo, item.sha || ""));
         } catch (error) {
+          if (error instanceof GitHubRateLimitError) throw error;
           console.warn(`Failed to fetch ${item.path}:`, error);
           // Skip binary or problematic files
         }
+        options.onProgress?.({ loaded: ++loaded, total: tree.length });
       }
+    };
+    await Promise.all(Array.from({ length: Math.min(CLONE_CONCURRENCY, queue.length) }, worker));
+
+    return { files, ref, baseFiles };
+  }
+
+  /**
+   * Whether a branch exists in the repository
+   */
+  async branchExists(owner: string, repo: string, branch: string): Promise<boolean> {
+    try {
+      await this.octokit.git.getRef({ owner, repo, ref: `heads/${branch}` });
+      return true;
+    } catch (error) {
+      if (isNotFound(error)) return false;
+      throw error;
     }
+  }
 
-    return files;
-  }
-
-  /**
-   * Check if file is likely binary
-   */
-  private isBinaryFile(path: string): boolean {
-    const binaryExtensions = [
-      ".png", ".jpg", ".jpeg", ".gif", ".bmp", ".ico", ".svg",
-      ".mp4", ".avi", ".mov", ".wmv", ".flv",
-      ".mp3", ".wav", ".flac", ".aac",
-      ".zip", ".rar", ".7z", ".tar", ".gz",
-      ".pdf", ".doc", ".docx", ".xls", ".xlsx",
-      ".exe", ".dll", ".so", ".dylib",
-    ];
-
-    const ext = path.toLowerCase().substring(path.lastIndexOf("."));
-    return binaryExtensions.includes(ext);
-  }
-
-  /**
-   * Get language from file path
-   */
-  private getLanguageFromPath(path: string): string {
-    const ext = path.toLowerCase().substring(path.lastIndexOf("."));
-    const langMap: Record<string, string> = {
-      ".ts": "typescript",
-      ".tsx": "typescript",
-      ".js": "javascript",
-      ".jsx": "javascript",
-      ".py": "python",
-      ".java": "java",
-      ".cpp": "cpp",
-      ".c": "c",
-      ".cs": "csharp",
-      ".php": "php",
-      ".rb": "ruby",
-      ".go": "go",
-      ".rs": "rust",
-      ".html": "html",
-      ".css": "css",
-      ".scss": "scss",
-      ".less": "less",
-      ".json": "json",
-      ".xml": "xml",
-      ".yaml": "yaml",
-      ".yml": "yaml",
-      ".md": "markdown",
-      ".sql": "sql",
-      ".sh": "shell",
-      ".bash": "shell",
-    };
-    return langMap[ext] || "text";
+  /**
+   * Create a commit on top of parentSha with the given files written or deleted.
+   * Returns the new commit's SHA and the blob SHA of each written file.
+   */
+  async createCommit(
+    owner: string,
+    repo: string,
+    parentSha: string,
+    message: string,
+    changes: GitHubFileChange[]
+  ): Promise<{ sha: string; blobs: Record<string, string> }> {
+    const blobs: Record<string, string> = {};
+    for (const change of changes) {
+      if (change.content === null) continue;
+      const { data } = await this.octokit.git.createBlob({
+        owner,
+        repo,
+        content: change.content,
+        encoding: "utf-8",
+      });
+      blobs[change.path] = data.sha;
+    }
+
+    const { data: parent } = await this.octokit.git.getCommit({ owner, repo, commit_sha: parentSha });
+    const { data: tree } = await this.octokit.git.createTree({
+      owner,
+      repo,
+      base_tree: parent.tree.sha,
+      tree: changes.map((change) => ({
+        path: change.path,
+        mode: (change.mode || "100644") as "100644" | "100755",
+        type: "blob" as const,
+        // A null SHA deletes the path from the base tree
+        sha: change.content === null ? null : blobs[change.path],
+      })),
+    });
+    const { data: commit } = await this.octokit.git.createCommit({
+      owner,
+      repo,
+      message,
+      tree: tree.sha,
+      parents: [parentSha],
+    });
+    return { sha: commit.sha, blobs };
+  }
+
+  /**
+   * Point a branch at a commit, creating the branch if needed. Existing branches are only
+   * fast-forwarded, so commits pushed by others are never overwritten.
+   */
+  async pushBranch(owner: string, repo: string, branch: string, commitSha: string): Promise<void> {
+    if (await this.branchExists(owner, repo, branch)) {
+      try {
+        await this.octokit.git.updateRef({ owner, repo, ref: `heads/${branch}`, sha: commitSha, force: false });
+      } catch (error) {
+        if ((error as { status?: number }).status === 422) {
+          throw new Error(`${branch} has commits that are not in this workspace. Push to a new branch instead.`);
+        }
+        throw error;
+      }
+      return;
+    }
+    await this.octokit.git.createRef({ owner, repo, ref: `refs/heads/${branch}`, sha: commitSha });
+  }
+
+  /**
+   * Open a pull request from head into base
+   */
+  async createPullRequest(
+    owner: string,
+    repo: string,
+    options: { title: string; body?: string; head: string; base: string }
+  ): Promise<{ number: number; url: string }> {
+    const { data } = await this.octokit.pulls.create({ owner, repo, ...options });
+    return { number: data.number, url: data.html_url };
   }
 }
 
@@ -1,9 +1,15 @@
 /**
  * IDEFileSystem Service
- * Manages file operations (create, read, update, delete, rename)
- * with localStorage persistence and directory structure
+ * Manages file operations (create, read, update, delete, rename, move)
+ * with pluggable persistence (see IDEStorage) and directory structure
  */
 
+import JSZip from "jszip";
+import { createStorageAdapter, FileStorageAdapter, withoutHistory } from "./IDEStorage";
+import { isBinaryPath, looksBinary } from "./FileTypes";
+import { detectLanguage } from "./LanguageRegistry";
+import type { ProjectTemplate } from "./ProjectTemplates";
+
 export interface FileNode {
   id: string;
   path: string;
@@ -12,16 +18,93 @@ export interface FileNode {
   content?: string;
   children?: FileNode[];
   language?: string;
+  /** Earlier contents; kept in IndexedDB but left out of exports and other serialised copies */
+  history?: FileRevision[];
+  /** Restricts what the student can do with the file (and, on a folder, everything inside it) */
+  lock?: FileLock;
+  /** Content not downloaded yet (large GitHub clones); fetched from GitHub when the file is opened */
+  lazy?: { owner: string; repo: string; sha: string };
   createdAt: number;
   updatedAt: number;
 }
 
+/**
+ * What has to happen for a lock to lift: a milestone approved by a mentor, a task marked
+ * complete, or the test files at `paths` (exact paths, unmodified) passing in the latest test run
+ */
+export type LockCondition =
+  | { type: "milestone"; milestoneId: string }
+  | { type: "task"; taskId: string }
+  | { type: "tests"; paths: string[] };
+
+export interface FileLock {
+  /** readonly: visible but not editable; hidden: left out of the IDE entirely */
+  mode: "readonly" | "hidden";
+  /** Lifts the lock once met; without it the lock is permanent */
+  until?: LockCondition;
+  /** Shown to the student, e.g. "Unlocks when the tests in src/api/auth.test.ts pass" */
+  reason?: string;
+}
+
+export interface FileRevision {
+  rev: number;
+  content: string;
+  timestamp: number;
+  /** Set for revisions created by a restore rather than an edit */
+  label?: string;
+}
+
+export interface ImportOptions {
+  /** "merge" adds/overwrites files; "replace" discards the current project first */
+  mode: "merge" | "replace";
+  /** Folder the imported paths are placed under (defaults to the root) */
+  targetPath?: string;
+}
+
+export interface ImportEntry {
+  path: string;
+  type?: "file" | "folder";
+  content?: string;
+  language?: string;
+}
+
+export interface ImportResult {
+  imported: string[];
+  skipped: { path: string; reason: string }[];
+}
+
 export interface FileSystemState {
   files: Record<string, FileNode>;
   root: FileNode;
 }
 
-const STORAGE_KEY = "BODHIT_IDE_FILES";
+const SAVE_DEBOUNCE_MS = 300;
+const MAX_REVISIONS = 50;
+// Autosave fires on every keystroke; edits this close together share one revision
+const REVISION_COALESCE_MS = 10000;
+
+/**
+ * Normalize a path to the canonical "/a/b/c" form used as the file map key
+ */
+export function normalizePath(path: string): string {
+  const parts = path.split("/").filter((p) => p && p !== ".");
+  return "/" + parts.join("/");
+}
+
+/**
+ * Get the parent folder of a path ("/" for top-level entries)
+ */
+export function getParentPath(path: string): string {
+  const parts = normalizePath(path).split("/").filter(Boolean);
+  parts.pop();
+  return "/" + parts.join("/");
+}
+
+const sortNodes = (a: FileNode, b: FileNode) => {
+  if (a.type !== b.type) return a.type === "folder" ? -1 : 1;
+  return a.name.localeCompare(b.name);
+};
+
 const DEFAULT_FILES: Record<string, FileNode> = {
   "/src/components/Auth.tsx": {
     id: "auth-component",
@@ -120,10 +203,15 @@ export default Auth;`,
     name: "Dashboard.tsx",
     type: "file",
     language: "typescript",
+    lock: {
+      mode: "readonly",
+      until: { type: "tests", paths: ["/src/api/auth.test.ts"] },
+      reason: "Unlocks when the tests in src/api/auth.test.ts pass",
+    },
     content: `import { useEffect, useState } from 'react';
 
 // Dashboard component - Shows after successful authentication
-// This file is LOCKED until Auth.tsx passes all tests
+// This file is LOCKED until the tests in src/api/auth.test.ts pass
 
 const Dashboard = () => {
   return (
@@ -164,41 +252,273 @@ export const logout = () => {
     createdAt: Date.now(),
     updatedAt: Date.now(),
   },
+  "/src/api/auth.test.ts": {
+    id: "auth-api-test",
+    path: "/src/api/auth.test.ts",
+    name: "auth.test.ts",
+    type: "file",
+    language: "typescript",
+    lock: { mode: "readonly", reason: "Tests are provided by your mentor" },
+    content: `import { describe, it, expect } from 'vitest';
+import { verifyToken } from './auth';
+
+// Provided by your mentor: Dashboard.tsx unlocks once these tests pass.
+// A JWT is three base64url parts: header.payload.signature
+const encode = (value: object) =>
+  btoa(JSON.stringify(value)).replace(/=+$/, '').replace(/\\+/g, '-').replace(/\\//g, '_');
+
+const token = (payload: object) => [encode({ alg: 'HS256', typ: 'JWT' }), encode(payload), 'signature'].join('.');
+
+const now = () => Math.floor(Date.now() / 1000);
+
+describe('verifyToken', () => {
+  it('accepts a token that has not expired', () => {
+    expect(verifyToken(token({ sub: 'student', exp: now() + 3600 }))).toBe(true);
+  });
+
+  it('rejects an expired token', () => {
+    expect(verifyToken(token({ sub: 'student', exp: now() - 60 }))).toBe(false);
+  });
+
+  it('rejects a token without an expiry', () => {
+    expect(verifyToken(token({ sub: 'student' }))).toBe(false);
+  });
+
+  it('rejects malformed tokens', () => {
+    expect(verifyToken('')).toBe(false);
+    expect(verifyToken('not-a-token')).toBe(false);
+    expect(verifyToken('a.b.c')).toBe(false);
+  });
+});`,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+  },
 };
 
 export class IDEFileSystem {
   private files: Record<string, FileNode>;
   private listeners: Set<() => void> = new Set();
+  private adapter: FileStorageAdapter;
+  private loaded = false;
+  private pendingUpdated = new Set<string>();
+  private pendingRemoved = new Set<string>();
+  private pendingFull = false;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private managedLocks: Record<string, FileLock> = {};
+  private isConditionMet: (condition: LockCondition) => boolean = () => false;
+  private template: ProjectTemplate | null = null;
+
+  /**
+   * Resolves once files have been loaded from the storage adapter
+   */
+  readonly ready: Promise<void>;
 
-  constructor() {
-    this.files = this.loadFromStorage();
+  /**
+   * `initialFiles` are used until (and unless) the adapter has stored files; new
+   * workspaces pass an empty map to start blank instead of with the example project
+   */
+  constructor(adapter: FileStorageAdapter = createStorageAdapter(), initialFiles: Record<string, FileNode> = DEFAULT_FILES) {
+    this.adapter = adapter;
+    this.files = { ...initialFiles };
+    this.inferFolders();
+    this.ready = this.loadFromStorage();
+
+    if (typeof window !== "undefined") {
+      window.addEventListener("pagehide", this.handlePageHide);
+    }
   }
 
+  private handlePageHide = () => void this.flush();
+
   /**
-   * Load files from localStorage or use defaults
+   * Load files from the storage adapter or keep the defaults
    */
-  private loadFromStorage(): Record<string, FileNode> {
+  private async loadFromStorage(): Promise<void> {
     try {
-      const stored = localStorage.getItem(STORAGE_KEY);
+      const stored = await this.adapter.load();
       if (stored) {
-        return JSON.parse(stored);
+        this.files = stored;
+        this.inferFolders();
+        this.pendingFull = false;
+        this.pendingUpdated.clear();
+        this.pendingRemoved.clear();
+        this.upgradeExampleLock();
+      } else {
+        this.pendingFull = true;
       }
     } catch (err) {
       console.warn("Failed to load files from storage:", err);
     }
-    return { ...DEFAULT_FILES };
+    this.loaded = true;
+    this.saveToStorage();
+  }
+
+  /**
+   * Record changed paths and schedule an incremental save
+   */
+  private markChanged(updated: string[] = [], removed: string[] = []) {
+    for (const p of removed) {
+      this.pendingUpdated.delete(p);
+      this.pendingRemoved.add(p);
+    }
+    for (const p of updated) {
+      this.pendingRemoved.delete(p);
+      this.pendingUpdated.add(p);
+    }
   }
 
   /**
-   * Save files to localStorage
+   * Schedule a debounced save of pending changes and notify subscribers
    */
   private saveToStorage() {
+    if (this.loaded && !this.saveTimer) {
+      this.saveTimer = setTimeout(() => void this.flush(), SAVE_DEBOUNCE_MS);
+    }
+    this.notifyListeners();
+  }
+
+  /**
+   * The example project once locked Dashboard.tsx on a test name filter. Give saved copies the
+   * current lock, which names the provided test file, and add that file if it is missing.
+   */
+  private upgradeExampleLock() {
+    const dashboard = this.files["/src/components/Dashboard.tsx"];
+    const until = dashboard?.lock?.until;
+    if (!until || until.type !== "tests" || Array.isArray(until.paths)) return;
+
+    const testPath = "/src/api/auth.test.ts";
+    dashboard.lock = DEFAULT_FILES[dashboard.path].lock;
+    if (!this.files[testPath]) {
+      this.ensureParentFolders(testPath);
+      this.files[testPath] = { ...DEFAULT_FILES[testPath] };
+    }
+    this.markChanged([dashboard.path, testPath]);
+  }
+
+  /**
+   * Write pending changes to the storage adapter immediately
+   */
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    if (!this.loaded) return;
+    if (!this.pendingFull && !this.pendingUpdated.size && !this.pendingRemoved.size) return;
+
+    const changes = {
+      updated: Array.from(this.pendingUpdated),
+      removed: Array.from(this.pendingRemoved),
+      full: this.pendingFull,
+    };
+    this.pendingUpdated.clear();
+    this.pendingRemoved.clear();
+    this.pendingFull = false;
+
     try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.files));
+      await this.adapter.save(this.files, changes);
     } catch (err) {
-      console.error("Failed to save files to storage:", err);
+      console.error(`Failed to save files to ${this.adapter.name}:`, err);
+      // Retry the same changes with the next save
+      this.markChanged(changes.updated, changes.removed);
+      this.pendingFull = this.pendingFull || changes.full;
+    }
+  }
+
+  /**
+   * Save pending changes, then detach from the page and close the storage connection
+   * (e.g. when a workspace is switched away from). The instance must not be used afterwards.
+   */
+  async dispose(): Promise<void> {
+    if (typeof window !== "undefined") {
+      window.removeEventListener("pagehide", this.handlePageHide);
+    }
+    await this.ready;
+    await this.flush();
+    this.listeners.clear();
+    this.adapter.close();
+  }
+
+  /**
+   * Erase the stored files (e.g. when a workspace is deleted). Later changes are no longer saved.
+   */
+  async clearStorage(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    this.loaded = false;
+    this.pendingUpdated.clear();
+    this.pendingRemoved.clear();
+    this.pendingFull = false;
+    await this.adapter.clear();
+  }
+
+  /**
+   * Empty the project in memory and in storage, and keep saving later changes (e.g. when the
+   * default workspace, whose file system stays in use, is deleted)
+   */
+  async clear(): Promise<void> {
+    await this.ready;
+    await this.clearStorage();
+    this.files = {};
+    this.template = null;
+    this.loaded = true;
+    // Store the empty project so the next load does not fall back to the example one
+    this.pendingFull = true;
+    this.saveToStorage();
+  }
+
+  /**
+   * Create folder nodes for every ancestor of a path that does not exist yet
+   */
+  private ensureParentFolders(path: string) {
+    const parts = normalizePath(path).split("/").filter(Boolean);
+    parts.pop();
+
+    let current = "";
+    for (const part of parts) {
+      current += `/${part}`;
+      const existing = this.files[current];
+      if (existing) {
+        if (existing.type !== "folder") {
+          throw new Error(`Not a directory: ${current}`);
+        }
+        continue;
+      }
+      this.files[current] = {
+        id: `folder-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        path: current,
+        name: part,
+        type: "folder",
+        children: [],
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      };
+      this.markChanged([current]);
     }
-    this.notifyListeners();
+  }
+
+  /**
+   * Materialize implicit parent folders for files loaded from older
+   * flat snapshots (which only stored file entries)
+   */
+  private inferFolders() {
+    for (const path of Object.keys(this.files)) {
+      try {
+        this.ensureParentFolders(path);
+      } catch (err) {
+        console.warn("Failed to infer parent folders:", err);
+      }
+    }
+  }
+
+  /**
+   * Get all paths at or below a given path
+   */
+  private getSubtreePaths(path: string): string[] {
+    const prefix = path === "/" ? "/" : `${path}/`;
+    return Object.keys(this.files).filter((p) => p === path || p.startsWith(prefix));
   }
 
   /**
@@ -220,20 +540,160 @@ export class IDEFileSystem {
     return this.files;
   }
 
+  /**
+   * Name of the active storage backend
+   */
+  getStorageBackend(): string {
+    return this.adapter.name;
+  }
+
   /**
    * Get a specific file by path
    */
   getFile(path: string): FileNode | null {
-    return this.files[path] || null;
+    return this.files[normalizePath(path)] || null;
+  }
+
+  /**
+   * Check whether a path refers to a folder (the root always does)
+   */
+  isDirectory(path: string): boolean {
+    const normalized = normalizePath(path);
+    return normalized === "/" || this.files[normalized]?.type === "folder";
+  }
+
+  /**
+   * Set locks managed outside the project files (e.g. by a mentor). They apply to paths
+   * whether or not the file exists yet and take precedence over `FileNode.lock`.
+   */
+  setManagedLocks(locks: Record<string, FileLock>) {
+    this.managedLocks = {};
+    for (const [path, lock] of Object.entries(locks)) {
+      this.managedLocks[normalizePath(path)] = lock;
+    }
+    this.notifyListeners();
+  }
+
+  /**
+   * Decide whether a lock condition has been met. Until this is set every condition
+   * counts as unmet, so conditional locks stay in place.
+   */
+  setLockConditionCheck(check: (condition: LockCondition) => boolean) {
+    this.isConditionMet = check;
+    this.notifyListeners();
   }
 
   /**
-   * Create a new file
+   * The lock in effect for a path: its own or the nearest locked folder's,
+   * unless that lock's condition has been met
    */
-  createFile(path: string, content: string = "", language: string = "text"): FileNode {
+  getLock(path: string): FileLock | null {
+    let current = normalizePath(path);
+    for (;;) {
+      const lock = this.managedLocks[current] || this.template?.locks?.[current] || this.files[current]?.lock;
+      if (lock && !(lock.until && this.isConditionMet(lock.until))) {
+        return lock;
+      }
+      if (current === "/") {
+        return null;
+      }
+      current = getParentPath(current);
+    }
+  }
+
+  /**
+   * Whether a lock without a condition covers a path (its own or a folder's), so the file
+   * cannot have been edited in the IDE
+   */
+  isPermanentlyLocked(path: string): boolean {
+    let current = normalizePath(path);
+    for (;;) {
+      const lock = this.managedLocks[current] || this.template?.locks?.[current] || this.files[current]?.lock;
+      if (lock && !lock.until) {
+        return true;
+      }
+      if (current === "/") {
+        return false;
+      }
+      current = getParentPath(current);
+    }
+  }
+
+  /**
+   * The content a file was provided with: the project template's version, or the example
+   * project's when the workspace has no template
+   */
+  getProvidedContent(path: string): string | undefined {
+    const normalized = normalizePath(path);
+    if (this.template) return this.template.files[normalized];
+    return DEFAULT_FILES[normalized]?.content;
+  }
+
+  private assertUnlocked(paths: string[]) {
+    for (const path of paths) {
+      const lock = this.getLock(path);
+      if (lock) {
+        throw new Error(`${normalizePath(path)} is locked${lock.reason ? `: ${lock.reason}` : ""}`);
+      }
+    }
+  }
+
+  private hasLocks(): boolean {
+    return (
+      Object.keys(this.managedLocks).length > 0 ||
+      Object.keys(this.template?.locks || {}).length > 0 ||
+      Object.values(this.files).some((n) => n.lock)
+    );
+  }
+
+  /**
+   * Nodes that are currently locked; kept when the project is replaced wholesale
+   */
+  private lockedNodes(): Record<string, FileNode> {
+    if (!this.hasLocks()) return {};
+    return Object.fromEntries(Object.entries(this.files).filter(([p]) => this.getLock(p)));
+  }
+
+  /**
+   * The file map without nodes hidden by a lock
+   */
+  getVisibleFiles(files: Record<string, FileNode> = this.files): Record<string, FileNode> {
+    if (!this.hasLocks()) return files;
+    return Object.fromEntries(Object.entries(files).filter(([p]) => this.getLock(p)?.mode !== "hidden"));
+  }
+
+  /**
+   * Create a new file. The language is detected from the name and content when not given.
+   */
+  createFile(path: string, content: string = "", language?: string): FileNode {
+    const normalized = normalizePath(path);
+    this.assertUnlocked([normalized]);
+    const newFile = this.addFile(normalized, content, language || detectLanguage(normalized, content));
+    this.saveToStorage();
+    return newFile;
+  }
+
+  /**
+   * Create a new folder
+   */
+  createFolder(path: string): FileNode {
+    this.assertUnlocked([path]);
+    const newFolder = this.addFolder(normalizePath(path));
+    this.saveToStorage();
+    return newFolder;
+  }
+
+  /**
+   * Add a file node without saving (callers batch the save)
+   */
+  private addFile(path: string, content: string, language: string): FileNode {
+    if (path === "/") {
+      throw new Error("Invalid file path");
+    }
     if (this.files[path]) {
       throw new Error(`File already exists: ${path}`);
     }
+    this.ensureParentFolders(path);
 
     const fileName = path.split("/").pop() || "untitled";
     const newFile: FileNode = {
@@ -243,22 +703,27 @@ export class IDEFileSystem {
       type: "file",
       content,
       language,
+      history: [{ rev: 1, content, timestamp: Date.now() }],
       createdAt: Date.now(),
       updatedAt: Date.now(),
     };
 
     this.files[path] = newFile;
-    this.saveToStorage();
+    this.markChanged([path]);
     return newFile;
   }
 
   /**
-   * Create a new folder
+   * Add a folder node without saving (callers batch the save)
    */
-  createFolder(path: string): FileNode {
+  private addFolder(path: string): FileNode {
+    if (path === "/") {
+      throw new Error("Invalid folder path");
+    }
     if (this.files[path]) {
       throw new Error(`Folder already exists: ${path}`);
     }
+    this.ensureParentFolders(path);
 
     const folderName = path.split("/").pop() || "untitled";
     const newFolder: FileNode = {
@@ -272,7 +737,7 @@ export class IDEFileSystem {
     };
 
     this.files[path] = newFolder;
-    this.saveToStorage();
+    this.markChanged([path]);
     return newFolder;
   }
 
@@ -280,6 +745,7 @@ export class IDEFileSystem {
    * Update file content
    */
   updateFile(path: string, content: string): FileNode {
+    path = normalizePath(path);
     const file = this.files[path];
     if (!file) {
       throw new Error(`File not found: ${path}`);
@@ -287,45 +753,295 @@ export class IDEFileSystem {
     if (file.type !== "file") {
       throw new Error(`Path is not a file: ${path}`);
     }
+    this.assertUnlocked([path]);
+    this.assertLoaded([file]);
+
+    this.writeContent(file, content);
+    this.saveToStorage();
+    return file;
+  }
+
+  /**
+   * Update several files at once with a single save, e.g. for a project-wide
+   * replace. Every path is checked first so nothing is written on error.
+   * Returns the previous contents so the batch can be undone.
+   */
+  updateFiles(updates: Record<string, string>, label?: string): Record<string, string> {
+    const targets = Object.entries(updates).map(([p, content]) => {
+      const file = this.files[normalizePath(p)];
+      if (!file || file.type !== "file") {
+        throw new Error(`File not found: ${p}`);
+      }
+      this.assertUnlocked([file.path]);
+      this.assertLoaded([file]);
+      return { file, content };
+    });
+
+    const previous: Record<string, string> = {};
+    for (const { file, content } of targets) {
+      previous[file.path] = file.content || "";
+      this.writeContent(file, content, label);
+    }
+
+    this.saveToStorage();
+    return previous;
+  }
+
+  /**
+   * Fill in the content of a lazily cloned file (FileNode.lazy). Not recorded as an edit.
+   */
+  loadLazyContent(path: string, content: string) {
+    const file = this.files[normalizePath(path)];
+    if (!file?.lazy) return;
+    this.fillLazy(file, content);
+    this.saveToStorage();
+  }
+
+  private fillLazy(file: FileNode, content: string) {
+    file.content = content;
+    file.language = detectLanguage(file.path, content);
+    delete file.lazy;
+    this.markChanged([file.path]);
+  }
+
+  /**
+   * Write (creating as needed) and delete several files with a single save, e.g. for a
+   * pull. Every path is checked first so nothing changes on error. Lazy placeholders
+   * are filled in rather than recorded as edits.
+   */
+  applyFiles(writes: Record<string, string>, removals: string[], label?: string) {
+    const targets = Object.entries(writes).map(([p, content]) => {
+      const path = normalizePath(p);
+      if (path === "/") {
+        throw new Error("Invalid file path");
+      }
+      const file = this.files[path];
+      if (file && file.type !== "file") {
+        throw new Error(`Path is not a file: ${path}`);
+      }
+      for (let parent = getParentPath(path); !file && parent !== "/"; parent = getParentPath(parent)) {
+        if (this.files[parent] && this.files[parent].type !== "folder") {
+          throw new Error(`Not a directory: ${parent}`);
+        }
+      }
+      this.assertUnlocked([path]);
+      return { path, file, content };
+    });
+    const removed = removals.map((p) => {
+      const file = this.files[normalizePath(p)];
+      if (!file || file.type !== "file") {
+        throw new Error(`File not found: ${p}`);
+      }
+      this.assertUnlocked([file.path]);
+      return file.path;
+    });
+
+    for (const { path, file, content } of targets) {
+      if (!file) {
+        this.addFile(path, content, detectLanguage(path, content));
+      } else if (file.lazy) {
+        this.fillLazy(file, content);
+      } else {
+        this.writeContent(file, content, label);
+      }
+    }
+    for (const path of removed) {
+      delete this.files[path];
+    }
+
+    this.markChanged([], removed);
+    this.saveToStorage();
+  }
+
+  // Editing a placeholder would replace the real content with whatever was typed into it
+  private assertLoaded(files: FileNode[]) {
+    const pending = files.find((f) => f.lazy);
+    if (pending) {
+      throw new Error(`${pending.path} is still loading from GitHub`);
+    }
+  }
+
+  /**
+   * Set file content and record it in the file's revision history
+   */
+  private writeContent(file: FileNode, content: string, label?: string) {
+    const history = file.history ? [...file.history] : [];
+    if (history.length === 0) {
+      // Files from older snapshots have no history; keep their current content as r1
+      history.push({ rev: 1, content: file.content || "", timestamp: file.updatedAt });
+    }
 
     file.content = content;
     file.updatedAt = Date.now();
+
+    const last = history[history.length - 1];
+    if (last.content !== content) {
+      const canCoalesce =
+        !label && !last.label && history.length > 1 && file.updatedAt - last.timestamp < REVISION_COALESCE_MS;
+      if (canCoalesce) {
+        history[history.length - 1] = { ...last, content };
+      } else {
+        history.push({ rev: last.rev + 1, content, timestamp: file.updatedAt, label });
+      }
+    }
+
+    file.history = history.slice(-MAX_REVISIONS);
+    this.markChanged([file.path]);
+  }
+
+  /**
+   * Get the revision history of a file (oldest first)
+   */
+  getFileHistory(path: string): FileRevision[] {
+    const file = this.getFile(path);
+    if (!file || file.type !== "file") {
+      throw new Error(`File not found: ${path}`);
+    }
+    return file.history ? [...file.history] : [{ rev: 1, content: file.content || "", timestamp: file.updatedAt }];
+  }
+
+  /**
+   * Restore a file to an earlier revision (recorded as a new revision)
+   */
+  restoreRevision(path: string, rev: number): FileNode {
+    const revision = this.getFileHistory(path).find((r) => r.rev === rev);
+    if (!revision) {
+      throw new Error(`Revision not found: ${path}@r${rev}`);
+    }
+    const file = this.files[normalizePath(path)];
+    this.assertUnlocked([file.path]);
+    this.writeContent(file, revision.content, `restored r${rev}`);
     this.saveToStorage();
     return file;
   }
 
   /**
-   * Rename a file or folder
+   * Rebuild the project as it was at a point in time: file contents roll back
+   * to their latest revision at or before `timestamp`, and files/folders created
+   * after it are removed. Files deleted before now cannot be brought back here, and
+   * locked files are left as they are. Returns the removed nodes so callers can offer an undo.
+   */
+  restoreToTimestamp(timestamp: number): Record<string, FileNode> {
+    const removed: Record<string, FileNode> = {};
+    const label = `restored to ${new Date(timestamp).toISOString()}`;
+
+    for (const file of Object.values(this.files)) {
+      if (file.type !== "file" || this.getLock(file.path)) continue;
+      if (file.createdAt > timestamp) {
+        removed[file.path] = file;
+        continue;
+      }
+      const history = this.getFileHistory(file.path);
+      const revision = [...history].reverse().find((r) => r.timestamp <= timestamp) || history[0];
+      if (revision.content !== (file.content || "")) {
+        this.writeContent(file, revision.content, label);
+      }
+    }
+
+    for (const path of Object.keys(removed)) {
+      delete this.files[path];
+    }
+
+    // Drop folders created after the timestamp once they are empty (deepest first)
+    const folders = Object.values(this.files)
+      .filter((n) => n.type === "folder" && n.createdAt > timestamp)
+      .sort((a, b) => b.path.length - a.path.length);
+    for (const folder of folders) {
+      if (this.getSubtreePaths(folder.path).length === 1) {
+        removed[folder.path] = folder;
+        delete this.files[folder.path];
+      }
+    }
+
+    this.markChanged([], Object.keys(removed));
+    this.saveToStorage();
+    return removed;
+  }
+
+  /**
+   * Rename a file or folder in place
    */
   rename(oldPath: string, newName: string): FileNode {
-    const file = this.files[oldPath];
+    if (!newName || newName.includes("/")) {
+      throw new Error(`Invalid name: ${newName}`);
+    }
+    return this.relocate(normalizePath(oldPath), `${getParentPath(oldPath).replace(/\/$/, "")}/${newName}`);
+  }
+
+  /**
+   * Move a file or folder (with its whole subtree) to a new path.
+   * If `to` is an existing folder the node is moved inside it, like `mv`.
+   */
+  move(from: string, to: string): FileNode {
+    from = normalizePath(from);
+    const file = this.files[from];
+    if (!file) {
+      throw new Error(`Path not found: ${from}`);
+    }
+
+    let target = normalizePath(to);
+    if (this.isDirectory(target) && target !== from) {
+      target = `${target.replace(/\/$/, "")}/${file.name}`;
+    }
+
+    return this.relocate(from, target);
+  }
+
+  /**
+   * Re-key a node and all of its descendants from `from` to `target`
+   */
+  private relocate(from: string, target: string): FileNode {
+    const file = this.files[from];
     if (!file) {
-      throw new Error(`Path not found: ${oldPath}`);
+      throw new Error(`Path not found: ${from}`);
+    }
+    if (target === from) {
+      return file;
     }
+    if (target.startsWith(`${from}/`)) {
+      throw new Error(`Cannot move ${from} into itself`);
+    }
+    if (this.files[target]) {
+      throw new Error(`Destination already exists: ${target}`);
+    }
+    this.assertUnlocked([...this.getSubtreePaths(from), target]);
 
-    // Calculate new path
-    const pathParts = oldPath.split("/");
-    pathParts[pathParts.length - 1] = newName;
-    const newPath = pathParts.join("/");
+    // Re-key the whole subtree in one pass so a failure leaves nothing half-moved
+    const moved: Record<string, FileNode> = {};
+    for (const p of this.getSubtreePaths(from)) {
+      const newPath = target + p.slice(from.length);
+      moved[newPath] = {
+        ...this.files[p],
+        path: newPath,
+        name: newPath.split("/").pop() || this.files[p].name,
+      };
+    }
 
-    if (this.files[newPath]) {
-      throw new Error(`Destination already exists: ${newPath}`);
+    const previous = { ...this.files };
+    const oldPaths = this.getSubtreePaths(from);
+    try {
+      for (const p of oldPaths) {
+        delete this.files[p];
+      }
+      this.ensureParentFolders(target);
+    } catch (err) {
+      this.files = previous;
+      throw err;
     }
 
-    // Move file to new path
-    file.path = newPath;
-    file.name = newName;
-    file.updatedAt = Date.now();
-    this.files[newPath] = file;
-    delete this.files[oldPath];
+    moved[target].updatedAt = Date.now();
+    Object.assign(this.files, moved);
+    this.markChanged(Object.keys(moved), oldPaths);
     this.saveToStorage();
-    return file;
+    return moved[target];
   }
 
   /**
-   * Delete a file or folder
+   * Delete a file or folder. `force` skips lock checks, for changes that did not come
+   * from the student (e.g. applying a synced deletion).
    */
-  delete(path: string, recursive = false): Record<string, FileNode> {
+  delete(path: string, recursive = false, force = false): Record<string, FileNode> {
+    path = normalizePath(path);
     if (!this.files[path]) {
       throw new Error(`Path not found: ${path}`);
     }
@@ -336,12 +1052,8 @@ export class IDEFileSystem {
     const toDelete: Record<string, FileNode> = {};
 
     if (file.type === "folder") {
-      // Find children under this folder
-      const prefix = path.endsWith("/") ? path : path + "/";
-      for (const [p, node] of Object.entries(this.files)) {
-        if (p === path || p.startsWith(prefix)) {
-          toDelete[p] = node;
-        }
+      for (const p of this.getSubtreePaths(path)) {
+        toDelete[p] = this.files[p];
       }
 
       if (Object.keys(toDelete).length > 1 && !recursive) {
@@ -350,34 +1062,32 @@ export class IDEFileSystem {
     } else {
       toDelete[path] = file;
     }
+    if (!force) {
+      this.assertUnlocked(Object.keys(toDelete));
+    }
 
     // Perform deletion
     for (const p of Object.keys(toDelete)) {
       delete this.files[p];
     }
 
+    this.markChanged([], Object.keys(toDelete));
     this.saveToStorage();
     return toDelete;
   }
 
   /**
-   * List files in a directory
+   * List the direct children of a directory
    */
   listDirectory(dirPath: string): FileNode[] {
-    const items: FileNode[] = [];
-    const dirWithSlash = dirPath.endsWith("/") ? dirPath : dirPath + "/";
-
-    for (const [path, file] of Object.entries(this.files)) {
-      if (path.startsWith(dirWithSlash) && path !== dirPath) {
-        // Check if it's a direct child (no more slashes after the dir)
-        const relative = path.slice(dirWithSlash.length);
-        if (!relative.includes("/")) {
-          items.push(file);
-        }
-      }
+    dirPath = normalizePath(dirPath);
+    if (!this.isDirectory(dirPath)) {
+      throw new Error(`Not a directory: ${dirPath}`);
     }
 
-    return items;
+    return Object.values(this.files)
+      .filter((file) => file.path !== dirPath && getParentPath(file.path) === dirPath)
+      .sort(sortNodes);
   }
 
   /**
@@ -405,10 +1115,10 @@ export class IDEFileSystem {
   }
 
   /**
-   * Export all files as a JSON object
+   * Export all files as a JSON object (without revision history)
    */
   exportToJSON(): string {
-    return JSON.stringify(this.files, null, 2);
+    return JSON.stringify(withoutHistory(this.files), null, 2);
   }
 
   /**
@@ -418,77 +1128,213 @@ export class IDEFileSystem {
     for (const [p, node] of Object.entries(deletedFiles)) {
       this.files[p] = node;
     }
+    this.markChanged(Object.keys(deletedFiles));
+    this.inferFolders();
     this.saveToStorage();
   }
 
   /**
-   * Export all files as a zip-like structure (as JSON string)
+   * Export all files as a ZIP archive that mirrors the folder hierarchy
    */
-  exportAsZip(): Blob {
-    const json = this.exportToJSON();
-    return new Blob([json], { type: "application/json" });
+  async exportAsZip(): Promise<Blob> {
+    const zip = new JSZip();
+    for (const node of Object.values(this.files)) {
+      const relative = node.path.slice(1);
+      if (node.type === "folder") {
+        zip.folder(relative);
+      } else {
+        zip.file(relative, node.content || "");
+      }
+    }
+    return zip.generateAsync({ type: "blob", compression: "DEFLATE" });
   }
 
   /**
-   * Import files from JSON
+   * Import a ZIP archive. Binary entries are skipped and reported in the result.
    */
-  importFromJSON(jsonString: string): void {
+  async importFromZip(data: Blob | ArrayBuffer | Uint8Array, options: ImportOptions): Promise<ImportResult> {
+    let zip: JSZip;
     try {
-      const imported = JSON.parse(jsonString);
-      if (typeof imported !== "object" || imported === null) {
+      zip = await JSZip.loadAsync(data);
+    } catch (err) {
+      throw new Error(`Failed to read ZIP archive: ${err}`);
+    }
+
+    const entries: ImportEntry[] = [];
+    const skipped: ImportResult["skipped"] = [];
+    const decoder = new TextDecoder();
+
+    for (const entry of Object.values(zip.files)) {
+      const name = entry.name.replace(/\/$/, "");
+      // macOS archiver metadata
+      if (name.startsWith("__MACOSX") || name.endsWith(".DS_Store")) continue;
+
+      if (entry.dir) {
+        entries.push({ path: name, type: "folder" });
+        continue;
+      }
+      if (isBinaryPath(name)) {
+        skipped.push({ path: name, reason: "binary file" });
+        continue;
+      }
+      const bytes = await entry.async("uint8array");
+      if (looksBinary(bytes)) {
+        skipped.push({ path: name, reason: "binary file" });
+        continue;
+      }
+      entries.push({ path: name, content: decoder.decode(bytes) });
+    }
+
+    const result = this.importFiles(entries, options);
+    result.skipped.unshift(...skipped);
+    return result;
+  }
+
+  /**
+   * Import a batch of files and folders with a single save.
+   * Existing files are overwritten (keeping their history); entries that clash with
+   * a node of the other type, escape the target or are locked are skipped.
+   * Replacing the project keeps locked files.
+   */
+  importFiles(entries: ImportEntry[], options: ImportOptions): ImportResult {
+    const result: ImportResult = { imported: [], skipped: [] };
+    const base = normalizePath(options.targetPath || "/");
+
+    if (options.mode === "replace") {
+      this.files = this.lockedNodes();
+      this.pendingFull = true;
+      this.inferFolders();
+    } else if (this.files[base] && this.files[base].type !== "folder") {
+      throw new Error(`Not a directory: ${base}`);
+    }
+
+    for (const entry of entries) {
+      if (entry.path.split(/[\\/]/).includes("..")) {
+        result.skipped.push({ path: entry.path, reason: "path escapes the import folder" });
+        continue;
+      }
+      const path = normalizePath(`${base}/${entry.path}`);
+      if (path === base) continue;
+
+      const existing = this.files[path];
+      const type = entry.type || "file";
+      try {
+        this.assertUnlocked([path]);
+        if (type === "folder") {
+          if (existing?.type === "file") {
+            throw new Error("a file with this name exists");
+          }
+          if (!existing) this.addFolder(path);
+        } else if (existing) {
+          if (existing.type === "folder") {
+            throw new Error("a folder with this name exists");
+          }
+          this.writeContent(existing, entry.content || "", "imported");
+        } else {
+          this.addFile(path, entry.content || "", entry.language || detectLanguage(path, entry.content));
+        }
+        result.imported.push(path);
+      } catch (err) {
+        const reason = err instanceof Error ? err.message : String(err);
+        result.skipped.push({ path: entry.path, reason });
+      }
+    }
+
+    this.saveToStorage();
+    return result;
+  }
+
+  /**
+   * Import files from a JSON export. Replacing the whole project restores the
+   * snapshot as-is; merging (or importing into a folder) adds its files.
+   */
+  importFromJSON(jsonString: string, options: ImportOptions = { mode: "replace" }): ImportResult {
+    let imported: Record<string, FileNode>;
+    try {
+      imported = JSON.parse(jsonString);
+      if (typeof imported !== "object" || imported === null || Array.isArray(imported)) {
         throw new Error("Invalid JSON format");
       }
-      this.files = imported;
-      this.saveToStorage();
     } catch (err) {
       throw new Error(`Failed to import files: ${err}`);
     }
+
+    if (options.mode === "replace" && normalizePath(options.targetPath || "/") === "/") {
+      this.files = { ...imported, ...this.lockedNodes() };
+      this.pendingFull = true;
+      this.inferFolders();
+      this.saveToStorage();
+      return { imported: Object.keys(imported), skipped: [] };
+    }
+
+    const entries = Object.entries(imported).map(([path, node]) => ({
+      path,
+      type: node.type,
+      content: node.content,
+      language: node.language,
+    }));
+    return this.importFiles(entries, options);
   }
 
   /**
-   * Clear all files and reset to defaults
+   * Set the project template the workspace was started from. Its locks apply on top of
+   * the files' own, and reset() restores its files instead of the defaults.
+   */
+  setTemplate(template: ProjectTemplate | null) {
+    this.template = template;
+    this.notifyListeners();
+  }
+
+  getTemplate(): ProjectTemplate | null {
+    return this.template;
+  }
+
+  /**
+   * Clear all files and reset to the template's files, or the defaults without one
    */
   reset(): void {
-    this.files = { ...DEFAULT_FILES };
+    if (this.template) {
+      this.files = {};
+      const { files, readme } = this.template;
+      for (const [path, content] of Object.entries({ "/README.md": readme, ...files })) {
+        this.addFile(normalizePath(path), content, detectLanguage(path, content));
+      }
+    } else {
+      this.files = { ...DEFAULT_FILES };
+      this.inferFolders();
+    }
+    this.pendingFull = true;
     this.saveToStorage();
   }
 
   /**
-   * Get a tree structure of all files (for UI rendering)
+   * Get a tree structure of all files, or of the given subset (for UI rendering).
+   * Returned nodes are copies with nested `children`; the flat map is untouched.
    */
-  getFileTree(): FileNode[] {
-    const tree: FileNode[] = [];
-    const processed = new Set<string>();
+  getFileTree(files: Record<string, FileNode> = this.files): FileNode[] {
+    const nodes: Record<string, FileNode> = {};
+    const roots: FileNode[] = [];
 
-    // Group files by top-level directory
-    const dirs: Record<string, FileNode[]> = {};
-
-    for (const file of Object.values(this.files)) {
-      const pathParts = file.path.split("/").filter(Boolean);
-      if (pathParts.length === 0) continue;
+    for (const file of Object.values(files)) {
+      nodes[file.path] = file.type === "folder" ? { ...file, children: [] } : { ...file };
+    }
 
-      const topDir = pathParts[0];
-      if (!dirs[topDir]) {
-        dirs[topDir] = [];
+    for (const node of Object.values(nodes)) {
+      const parent = nodes[getParentPath(node.path)];
+      if (parent && parent !== node) {
+        parent.children!.push(node);
+      } else {
+        roots.push(node);
       }
-      dirs[topDir].push(file);
     }
 
-    // Build tree
-    for (const [dirName, files] of Object.entries(dirs)) {
-      const dirNode: FileNode = {
-        id: `dir-${dirName}`,
-        path: `/${dirName}`,
-        name: dirName,
-        type: "folder",
-        children: files.sort((a, b) => a.name.localeCompare(b.name)),
-        createdAt: Date.now(),
-        updatedAt: Date.now(),
-      };
-      tree.push(dirNode);
-    }
+    const sortTree = (list: FileNode[]) => {
+      list.sort(sortNodes);
+      list.forEach((n) => n.children && sortTree(n.children));
+      return list;
+    };
 
-    return tree.sort((a, b) => a.name.localeCompare(b.name));
+    return sortTree(roots);
   }
 }
 
@@ -0,0 +1,229 @@
+/**
+ * IDE Storage Adapters
+ * Pluggable persistence backends for IDEFileSystem (localStorage, IndexedDB)
+ */
+
+import type { FileNode } from "./IDEFileSystem";
+
+export const LEGACY_STORAGE_KEY = "BODHIT_IDE_FILES";
+
+/**
+ * Copies of the nodes without their revision history, for serialising them (exports, the
+ * localStorage blob, chat context) where every stored revision would only add bulk
+ */
+export function withoutHistory(files: Record<string, FileNode>): Record<string, FileNode> {
+  return Object.fromEntries(Object.entries(files).map(([path, node]) => [path, { ...node, history: undefined }]));
+}
+
+export interface StorageChangeSet {
+  /** Paths that were created or modified since the last save */
+  updated: string[];
+  /** Paths that were removed since the last save */
+  removed: string[];
+  /** The whole file map was replaced (import/reset); rewrite everything */
+  full: boolean;
+}
+
+export interface FileStorageAdapter {
+  readonly name: string;
+  /** Returns null when nothing has been stored yet */
+  load(): Promise<Record<string, FileNode> | null>;
+  save(files: Record<string, FileNode>, changes: StorageChangeSet): Promise<void>;
+  clear(): Promise<void>;
+  /** Release open connections; the adapter reopens them if used again */
+  close(): void;
+}
+
+/**
+ * Stores the whole file map as one JSON blob under a single localStorage key.
+ * Simple and synchronous underneath, but limited by the ~5MB quota, so revision
+ * history is not kept across reloads.
+ */
+export class LocalStorageAdapter implements FileStorageAdapter {
+  readonly name = "localStorage";
+
+  constructor(private key: string = LEGACY_STORAGE_KEY) {}
+
+  async load(): Promise<Record<string, FileNode> | null> {
+    const stored = localStorage.getItem(this.key);
+    return stored ? JSON.parse(stored) : null;
+  }
+
+  async save(files: Record<string, FileNode>): Promise<void> {
+    localStorage.setItem(this.key, JSON.stringify(withoutHistory(files)));
+  }
+
+  async clear(): Promise<void> {
+    localStorage.removeItem(this.key);
+  }
+
+  close(): void {}
+}
+
+/**
+ * Keeps files in memory only. Used for read-only views (e.g. a mentor
+ * opening a student's synced workspace) that must not touch local storage.
+ */
+export class MemoryStorageAdapter implements FileStorageAdapter {
+  readonly name = "memory";
+
+  constructor(private files: Record<string, FileNode> | null = null) {}
+
+  async load(): Promise<Record<string, FileNode> | null> {
+    return this.files;
+  }
+
+  async save(files: Record<string, FileNode>): Promise<void> {
+    this.files = files;
+  }
+
+  async clear(): Promise<void> {
+    this.files = null;
+  }
+
+  close(): void {}
+}
+
+const DB_VERSION = 1;
+const FILES_STORE = "files";
+const META_STORE = "meta";
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+/**
+ * Stores one record per file keyed by path, so a keystroke only rewrites the
+ * file that changed. Migrates the legacy localStorage blob on first load.
+ */
+export class IndexedDBAdapter implements FileStorageAdapter {
+  readonly name = "indexedDB";
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(private dbName: string = "BODHIT_IDE", private legacyKey: string = LEGACY_STORAGE_KEY) {}
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== "undefined";
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(FILES_STORE)) {
+            db.createObjectStore(FILES_STORE, { keyPath: "path" });
+          }
+          if (!db.objectStoreNames.contains(META_STORE)) {
+            db.createObjectStore(META_STORE);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  async load(): Promise<Record<string, FileNode> | null> {
+    const db = await this.open();
+    const tx = db.transaction([FILES_STORE, META_STORE], "readonly");
+    const [initialized, records] = await Promise.all([
+      requestToPromise(tx.objectStore(META_STORE).get("initialized")),
+      requestToPromise(tx.objectStore(FILES_STORE).getAll() as IDBRequest<FileNode[]>),
+    ]);
+
+    if (initialized) {
+      const files: Record<string, FileNode> = {};
+      for (const record of records) {
+        files[record.path] = record;
+      }
+      return files;
+    }
+
+    return this.migrateLegacy();
+  }
+
+  /**
+   * One-time import of the single-key localStorage snapshot
+   */
+  private async migrateLegacy(): Promise<Record<string, FileNode> | null> {
+    const legacy = localStorage.getItem(this.legacyKey);
+    if (!legacy) return null;
+
+    const files = JSON.parse(legacy) as Record<string, FileNode>;
+    await this.save(files, { updated: [], removed: [], full: true });
+    localStorage.removeItem(this.legacyKey);
+    return files;
+  }
+
+  async save(files: Record<string, FileNode>, changes: StorageChangeSet): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([FILES_STORE, META_STORE], "readwrite");
+    const store = tx.objectStore(FILES_STORE);
+
+    if (changes.full) {
+      store.clear();
+      Object.values(files).forEach((file) => store.put(file));
+    } else {
+      changes.removed.forEach((path) => store.delete(path));
+      changes.updated.forEach((path) => {
+        if (files[path]) store.put(files[path]);
+      });
+    }
+    tx.objectStore(META_STORE).put(true, "initialized");
+
+    await transactionDone(tx);
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([FILES_STORE, META_STORE], "readwrite");
+    tx.objectStore(FILES_STORE).clear();
+    tx.objectStore(META_STORE).clear();
+    await transactionDone(tx);
+  }
+
+  close(): void {
+    const dbPromise = this.dbPromise;
+    this.dbPromise = null;
+    dbPromise?.then((db) => db.close()).catch(() => undefined);
+  }
+}
+
+const databaseName = (namespace?: string) => (namespace ? `BODHIT_IDE_${namespace}` : "BODHIT_IDE");
+
+/**
+ * Pick the storage backend. IndexedDB is preferred when the browser has it;
+ * set VITE_IDE_STORAGE="localStorage" to force the legacy backend.
+ * A namespace keeps a workspace's files apart from the others; without one the
+ * original (pre-workspaces) database and key are used.
+ */
+export function createStorageAdapter(namespace?: string): FileStorageAdapter {
+  const key = namespace ? `${LEGACY_STORAGE_KEY}_${namespace}` : LEGACY_STORAGE_KEY;
+  const preferred = import.meta.env?.VITE_IDE_STORAGE;
+  if (preferred !== "localStorage" && IndexedDBAdapter.isSupported()) {
+    return new IndexedDBAdapter(databaseName(namespace), key);
+  }
+  return new LocalStorageAdapter(key);
+}
+
+/**
+ * Delete everything stored for a namespace: its IndexedDB database and localStorage key.
+ * Adapters using it must be closed first, or the database deletion waits for them.
+ */
+export async function deleteStorage(namespace: string): Promise<void> {
+  localStorage.removeItem(`${LEGACY_STORAGE_KEY}_${namespace}`);
+  if (!IndexedDBAdapter.isSupported()) return;
+  await requestToPromise(indexedDB.deleteDatabase(databaseName(namespace)));
+}
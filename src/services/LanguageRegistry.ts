@@ -0,0 +1,207 @@
+/**
+ * Language Registry
+ * Single source of truth for language detection in the IDE: drives the Monaco language,
+ * file icons in the explorer and `FileNode.language`. Languages are matched by file name,
+ * extension and (for extensionless scripts) shebang. Languages Monaco lacks can bring
+ * their own Monarch grammar.
+ */
+
+import type { Monaco } from "@monaco-editor/react";
+import type { languages } from "monaco-editor";
+
+export type LanguageIcon = "code" | "markup" | "style" | "data" | "markdown" | "script" | "config" | "database" | "text";
+
+export interface LanguageDefinition {
+  /** Monaco language id, also stored as `FileNode.language` */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Extensions including the dot, e.g. ".ts" */
+  extensions?: string[];
+  /** Exact file names, e.g. "Dockerfile" (matched case-insensitively) */
+  filenames?: string[];
+  /** Interpreters named in a `#!` line, e.g. "python" for `#!/usr/bin/env python3` */
+  interpreters?: string[];
+  icon?: LanguageIcon;
+  /** Monarch grammar for languages Monaco has no built-in support for */
+  monarch?: languages.IMonarchLanguage;
+}
+
+export const PLAINTEXT = "plaintext";
+
+const makefileGrammar: languages.IMonarchLanguage = {
+  defaultToken: "",
+  tokenizer: {
+    root: [
+      [/^#.*$/, "comment"],
+      [/^\t/, { token: "", next: "@recipe" }],
+      [/^\s*(include|-include|ifeq|ifneq|ifdef|ifndef|else|endif|define|endef|export|override)\b/, "keyword"],
+      [/^[\w.%/$() -]+(?=\s*:(?!=))/, "type"],
+      [/^\s*[\w.]+(?=\s*(\?|:|\+|::)?=)/, "variable"],
+      [/\$[@<^?*%]/, "variable.predefined"],
+      [/\$[({][^)}]*[)}]/, "variable"],
+      [/"([^"\\]|\\.)*"/, "string"],
+      [/'[^']*'/, "string"],
+    ],
+    recipe: [
+      [/$/, { token: "", next: "@pop" }],
+      [/\$[@<^?*%]/, "variable.predefined"],
+      [/\$[({][^)}]*[)}]/, "variable"],
+      [/"([^"\\]|\\.)*"/, "string"],
+      [/'[^']*'/, "string"],
+      [/#.*$/, "comment"],
+    ],
+  },
+};
+
+const tomlGrammar: languages.IMonarchLanguage = {
+  defaultToken: "",
+  tokenizer: {
+    root: [
+      [/#.*$/, "comment"],
+      [/^\s*\[\[?[^\]]+\]\]?/, "type"],
+      [/[\w.-]+(?=\s*=)/, "key"],
+      [/"""/, { token: "string", next: "@multiline" }],
+      [/"([^"\\]|\\.)*"/, "string"],
+      [/'[^']*'/, "string"],
+      [/\b(true|false)\b/, "keyword"],
+      [/\d{4}-\d{2}-\d{2}([T ][\d:.]+)?(Z|[+-]\d{2}:\d{2})?/, "number"],
+      [/[+-]?(\d[\d_]*)(\.\d+)?([eE][+-]?\d+)?/, "number"],
+    ],
+    multiline: [
+      [/"""/, { token: "string", next: "@pop" }],
+      [/./, "string"],
+    ],
+  },
+};
+
+const definitions: LanguageDefinition[] = [
+  { id: "typescript", name: "TypeScript", extensions: [".ts", ".tsx", ".mts", ".cts"], icon: "code", interpreters: ["ts-node", "deno"] },
+  { id: "javascript", name: "JavaScript", extensions: [".js", ".jsx", ".mjs", ".cjs"], icon: "code", interpreters: ["node"] },
+  { id: "python", name: "Python", extensions: [".py", ".pyw"], icon: "code", interpreters: ["python"] },
+  { id: "java", name: "Java", extensions: [".java"], icon: "code" },
+  { id: "kotlin", name: "Kotlin", extensions: [".kt", ".kts"], icon: "code" },
+  { id: "c", name: "C", extensions: [".c", ".h"], icon: "code" },
+  { id: "cpp", name: "C++", extensions: [".cpp", ".cc", ".cxx", ".hpp", ".hh"], icon: "code" },
+  { id: "csharp", name: "C#", extensions: [".cs"], icon: "code" },
+  { id: "go", name: "Go", extensions: [".go"], icon: "code" },
+  { id: "rust", name: "Rust", extensions: [".rs"], icon: "code" },
+  { id: "swift", name: "Swift", extensions: [".swift"], icon: "code" },
+  { id: "dart", name: "Dart", extensions: [".dart"], icon: "code" },
+  { id: "php", name: "PHP", extensions: [".php"], icon: "code", interpreters: ["php"] },
+  { id: "ruby", name: "Ruby", extensions: [".rb"], filenames: ["Gemfile", "Rakefile"], icon: "code", interpreters: ["ruby"] },
+  { id: "perl", name: "Perl", extensions: [".pl", ".pm"], icon: "code", interpreters: ["perl"] },
+  { id: "lua", name: "Lua", extensions: [".lua"], icon: "code", interpreters: ["lua"] },
+  { id: "r", name: "R", extensions: [".r"], icon: "code", interpreters: ["Rscript"] },
+  { id: "html", name: "HTML", extensions: [".html", ".htm"], icon: "markup" },
+  { id: "xml", name: "XML", extensions: [".xml", ".xsd", ".xsl"], icon: "markup" },
+  { id: "css", name: "CSS", extensions: [".css"], icon: "style" },
+  { id: "scss", name: "SCSS", extensions: [".scss"], icon: "style" },
+  { id: "less", name: "Less", extensions: [".less"], icon: "style" },
+  { id: "json", name: "JSON", extensions: [".json", ".jsonc"], filenames: [".babelrc", ".eslintrc", ".prettierrc"], icon: "data" },
+  { id: "yaml", name: "YAML", extensions: [".yaml", ".yml"], icon: "data" },
+  { id: "toml", name: "TOML", extensions: [".toml"], icon: "config", monarch: tomlGrammar },
+  { id: "ini", name: "INI", extensions: [".ini", ".cfg", ".conf", ".properties"], filenames: [".env", ".editorconfig", ".gitconfig", ".npmrc"], icon: "config" },
+  { id: "markdown", name: "Markdown", extensions: [".md", ".markdown"], icon: "markdown" },
+  { id: "sql", name: "SQL", extensions: [".sql"], icon: "database" },
+  { id: "graphql", name: "GraphQL", extensions: [".graphql", ".gql"], icon: "data" },
+  { id: "shell", name: "Shell", extensions: [".sh", ".bash", ".zsh"], filenames: [".bashrc", ".zshrc", ".profile"], icon: "script", interpreters: ["sh", "bash", "zsh", "dash"] },
+  { id: "powershell", name: "PowerShell", extensions: [".ps1", ".psm1"], icon: "script", interpreters: ["pwsh"] },
+  { id: "bat", name: "Batch", extensions: [".bat", ".cmd"], icon: "script" },
+  { id: "dockerfile", name: "Dockerfile", extensions: [".dockerfile"], filenames: ["Dockerfile", "Containerfile"], icon: "config" },
+  { id: "makefile", name: "Makefile", extensions: [".mk"], filenames: ["Makefile", "GNUmakefile"], icon: "config", monarch: makefileGrammar },
+  { id: PLAINTEXT, name: "Plain Text", extensions: [".txt", ".log"], icon: "text" },
+];
+
+const byExtension = new Map<string, LanguageDefinition>();
+const byFilename = new Map<string, LanguageDefinition>();
+const byInterpreter = new Map<string, LanguageDefinition>();
+const byId = new Map<string, LanguageDefinition>();
+
+const index = (def: LanguageDefinition) => {
+  byId.set(def.id, def);
+  def.extensions?.forEach((ext) => byExtension.set(ext.toLowerCase(), def));
+  def.filenames?.forEach((name) => byFilename.set(name.toLowerCase(), def));
+  def.interpreters?.forEach((name) => byInterpreter.set(name, def));
+};
+
+definitions.forEach(index);
+
+/**
+ * Add (or replace) a language. Later registrations win for shared extensions and file names.
+ */
+export function registerLanguage(def: LanguageDefinition): void {
+  const existing = definitions.findIndex((d) => d.id === def.id);
+  if (existing >= 0) {
+    definitions[existing] = def;
+  } else {
+    definitions.push(def);
+  }
+  index(def);
+}
+
+export function getLanguages(): LanguageDefinition[] {
+  return [...definitions];
+}
+
+export function getLanguage(id: string): LanguageDefinition | undefined {
+  return byId.get(id);
+}
+
+/**
+ * Interpreter named by a `#!` line: "#!/usr/bin/env -S python3 -u" -> "python"
+ */
+const parseShebang = (content: string): string | null => {
+  const match = /^#!\s*(\S+)([^\n]*)/.exec(content.slice(0, 200));
+  if (!match) return null;
+  let program = match[1].split("/").pop() || "";
+  if (program === "env") {
+    program = match[2].trim().split(/\s+/).find((arg) => !arg.startsWith("-") && !arg.includes("=")) || "";
+  }
+  // Drop version suffixes such as python3.11 or node18
+  return program.replace(/[\d.]+$/, "") || null;
+};
+
+/**
+ * Detect the language of a file from its name, extension or, failing those, its shebang line
+ */
+export function detectLanguage(path: string, content?: string): string {
+  const name = (path.split("/").pop() || "").toLowerCase();
+
+  const named = byFilename.get(name);
+  if (named) return named.id;
+
+  const dot = name.lastIndexOf(".");
+  if (dot > 0) {
+    const def = byExtension.get(name.substring(dot));
+    if (def) return def.id;
+  }
+
+  if (content?.startsWith("#!")) {
+    const interpreter = parseShebang(content);
+    const def = interpreter ? byInterpreter.get(interpreter) : undefined;
+    if (def) return def.id;
+  }
+
+  return PLAINTEXT;
+}
+
+/**
+ * Icon kind for a file, based on its detected language
+ */
+export function getLanguageIcon(path: string, content?: string): LanguageIcon {
+  return byId.get(detectLanguage(path, content))?.icon || "text";
+}
+
+/**
+ * Register custom languages with a Monaco instance. Pass as `beforeMount` to editors;
+ * safe to call more than once.
+ */
+export function registerMonacoLanguages(monaco: Monaco): void {
+  const known = new Set(monaco.languages.getLanguages().map((l) => l.id));
+  for (const def of definitions) {
+    if (!def.monarch || known.has(def.id)) continue;
+    monaco.languages.register({ id: def.id, extensions: def.extensions, filenames: def.filenames, aliases: [def.name] });
+    monaco.languages.setMonarchTokensProvider(def.id, def.monarch);
+  }
+}
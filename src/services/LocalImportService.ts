@@ -0,0 +1,257 @@
+/**
+ * Local Import Service
+ * Collects files dropped onto the IDE or picked with a directory input and
+ * imports them into the IDE file system, honouring .gitignore and size limits
+ */
+
+import { IDEFileSystem, ImportEntry, ImportResult } from "./IDEFileSystem";
+import { isBinaryPath, looksBinary } from "./FileTypes";
+import { globToRegExp } from "./SearchService";
+
+export interface LocalFile {
+  /** Path relative to the dropped/picked folder, e.g. "my-app/src/index.ts" */
+  path: string;
+  file: File;
+}
+
+export interface LocalFileSelection {
+  files: LocalFile[];
+  /** Entries pruned while walking (e.g. node_modules) */
+  skipped: ImportResult["skipped"];
+}
+
+export interface LocalImportProgress {
+  done: number;
+  total: number;
+  current?: string;
+}
+
+export interface LocalImportState {
+  running: boolean;
+  targetPath: string;
+  progress: LocalImportProgress;
+  result?: ImportResult;
+}
+
+export const MAX_FILE_SIZE = 1024 * 1024;
+export const MAX_TOTAL_SIZE = 25 * 1024 * 1024;
+export const MAX_FILES = 2000;
+
+// Never worth importing into the browser IDE, whatever .gitignore says
+const SKIPPED_DIRECTORIES = new Set(["node_modules", ".git", ".svn", ".hg"]);
+
+const isSkippedDirectory = (path: string) => path.split("/").some((part) => SKIPPED_DIRECTORIES.has(part));
+
+interface IgnoreRule {
+  base: string;
+  regex: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+}
+
+/**
+ * Parse a .gitignore file located in `base` (a folder path relative to the import root)
+ */
+const parseGitignore = (content: string, base: string): IgnoreRule[] => {
+  const rules: IgnoreRule[] = [];
+  for (const raw of content.split(/\r?\n/)) {
+    let line = raw.trim();
+    if (!line || line.startsWith("#")) continue;
+
+    const negate = line.startsWith("!");
+    if (negate) line = line.slice(1);
+    const dirOnly = line.endsWith("/");
+    line = line.replace(/\/+$/, "");
+    if (!line) continue;
+
+    // Patterns with a slash are relative to the .gitignore; others match at any depth
+    const anchored = line.includes("/");
+    line = line.replace(/^\//, "");
+    const prefix = anchored ? "^" : "^(?:.*/)?";
+    rules.push({ base, regex: new RegExp(`${prefix}${globToRegExp(line)}$`), negate, dirOnly });
+  }
+  return rules;
+};
+
+/**
+ * Build an `isIgnored(path)` check from every .gitignore in the selection
+ */
+const createIgnoreMatcher = async (files: LocalFile[]) => {
+  const rules: IgnoreRule[] = [];
+  const gitignores = files
+    .filter((f) => f.path.split("/").pop() === ".gitignore")
+    .sort((a, b) => a.path.split("/").length - b.path.split("/").length);
+
+  for (const gitignore of gitignores) {
+    const base = gitignore.path.split("/").slice(0, -1).join("/");
+    try {
+      rules.push(...parseGitignore(await gitignore.file.text(), base));
+    } catch (err) {
+      console.warn(`Failed to read ${gitignore.path}:`, err);
+    }
+  }
+
+  const matches = (path: string, isDir: boolean) => {
+    let ignored = false;
+    for (const rule of rules) {
+      if (rule.dirOnly && !isDir) continue;
+      if (rule.base && !path.startsWith(`${rule.base}/`)) continue;
+      const relative = rule.base ? path.slice(rule.base.length + 1) : path;
+      if (rule.regex.test(relative)) ignored = !rule.negate;
+    }
+    return ignored;
+  };
+
+  return (path: string) => {
+    // A file inside an ignored folder is ignored too
+    const parts = path.split("/");
+    for (let i = 1; i < parts.length; i++) {
+      if (matches(parts.slice(0, i).join("/"), true)) return true;
+    }
+    return matches(path, false);
+  };
+};
+
+/**
+ * Read every entry of a directory (readEntries returns results in chunks)
+ */
+const readDirectory = (entry: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = entry.createReader();
+  const all: FileSystemEntry[] = [];
+  return new Promise((resolve, reject) => {
+    const next = () =>
+      reader.readEntries((entries) => {
+        if (entries.length === 0) {
+          resolve(all);
+          return;
+        }
+        all.push(...entries);
+        next();
+      }, reject);
+    next();
+  });
+};
+
+/**
+ * Collect files from a drop event. Must be called synchronously in the drop
+ * handler since the browser clears the DataTransfer afterwards.
+ */
+export function collectDroppedFiles(dataTransfer: DataTransfer): Promise<LocalFileSelection> {
+  const roots = Array.from(dataTransfer.items)
+    .filter((item) => item.kind === "file")
+    .map((item) => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  const selection: LocalFileSelection = { files: [], skipped: [] };
+
+  const walk = async (entry: FileSystemEntry, path: string): Promise<void> => {
+    if (entry.isDirectory) {
+      if (SKIPPED_DIRECTORIES.has(entry.name)) {
+        selection.skipped.push({ path, reason: "ignored directory" });
+        return;
+      }
+      for (const child of await readDirectory(entry as FileSystemDirectoryEntry)) {
+        await walk(child, `${path}/${child.name}`);
+      }
+    } else {
+      const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+      selection.files.push({ path, file });
+    }
+  };
+
+  return (async () => {
+    for (const root of roots) {
+      try {
+        await walk(root, root.name);
+      } catch (err) {
+        selection.skipped.push({ path: root.name, reason: `could not be read: ${err}` });
+      }
+    }
+    return selection;
+  })();
+}
+
+/**
+ * Collect files from an <input type="file"> (with or without `webkitdirectory`)
+ */
+export function collectInputFiles(fileList: FileList): LocalFileSelection {
+  const selection: LocalFileSelection = { files: [], skipped: [] };
+  const prunedDirectories = new Set<string>();
+
+  for (const file of Array.from(fileList)) {
+    const path = file.webkitRelativePath || file.name;
+    if (isSkippedDirectory(path)) {
+      const parts = path.split("/");
+      const dir = parts.slice(0, parts.findIndex((part) => SKIPPED_DIRECTORIES.has(part)) + 1).join("/");
+      if (!prunedDirectories.has(dir)) {
+        prunedDirectories.add(dir);
+        selection.skipped.push({ path: dir, reason: "ignored directory" });
+      }
+      continue;
+    }
+    selection.files.push({ path, file });
+  }
+
+  return selection;
+}
+
+/**
+ * Read the selected files and merge them into the file system under `targetPath`.
+ * Ignored, binary and oversized files are skipped and reported in the result.
+ */
+export async function importLocalFiles(
+  fileSystem: IDEFileSystem,
+  selection: LocalFileSelection,
+  targetPath: string,
+  onProgress?: (progress: LocalImportProgress) => void
+): Promise<ImportResult> {
+  const skipped: ImportResult["skipped"] = [...selection.skipped];
+  const entries: ImportEntry[] = [];
+  const isIgnored = await createIgnoreMatcher(selection.files);
+  const total = selection.files.length;
+  let totalSize = 0;
+  let done = 0;
+
+  for (const { path, file } of selection.files) {
+    onProgress?.({ done, total, current: path });
+    done++;
+
+    if (isSkippedDirectory(path)) {
+      skipped.push({ path, reason: "ignored directory" });
+      continue;
+    }
+    if (isIgnored(path)) {
+      skipped.push({ path, reason: "ignored by .gitignore" });
+      continue;
+    }
+    if (isBinaryPath(path)) {
+      skipped.push({ path, reason: "binary file" });
+      continue;
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      skipped.push({ path, reason: `larger than ${MAX_FILE_SIZE / 1024} KB` });
+      continue;
+    }
+    if (entries.length >= MAX_FILES || totalSize + file.size > MAX_TOTAL_SIZE) {
+      skipped.push({ path, reason: "import size limit reached" });
+      continue;
+    }
+
+    try {
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      if (looksBinary(bytes)) {
+        skipped.push({ path, reason: "binary file" });
+        continue;
+      }
+      entries.push({ path, content: new TextDecoder().decode(bytes) });
+      totalSize += file.size;
+    } catch (err) {
+      skipped.push({ path, reason: `could not be read: ${err}` });
+    }
+  }
+
+  onProgress?.({ done: total, total });
+  const result = fileSystem.importFiles(entries, { mode: "merge", targetPath });
+  result.skipped.unshift(...skipped);
+  return result;
+}
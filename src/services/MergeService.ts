@@ -0,0 +1,185 @@
+/**
+ * Merge Service
+ * Line-based three-way merge (diff3) of a file's base, local and upstream versions, and
+ * helpers for the Git-style conflict markers it writes when both sides changed the same lines.
+ */
+
+export interface MergeResult {
+  content: string;
+  /** Number of regions both sides changed differently, marked with conflict markers */
+  conflicts: number;
+}
+
+/** A conflict marked in a file, with 1-based line numbers of its markers */
+export interface ConflictRegion {
+  startLine: number;
+  separatorLine: number;
+  endLine: number;
+  local: string[];
+  upstream: string[];
+}
+
+export type ConflictChoice = "local" | "upstream" | "both";
+
+const LOCAL_MARKER = "<<<<<<<";
+const SEPARATOR = "=======";
+const UPSTREAM_MARKER = ">>>>>>>";
+
+// Edit distance past which two versions are treated as unrelated rather than diffed
+const MAX_EDIT_DISTANCE = 1000;
+
+/**
+ * For each line of `a`, the index of the line of `b` it is kept as (-1 when removed),
+ * using Myers' diff on the part between the common prefix and suffix
+ */
+function matchLines(a: string[], b: string[]): number[] {
+  const matches = new Array<number>(a.length).fill(-1);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    matches[start] = start;
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    matches[--endA] = --endB;
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 2);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[start + x] === b[start + y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        // Walk back through the edit path, recording the diagonal (unchanged) runs
+        let px = n;
+        let py = m;
+        for (let step = d; step >= 0; step--) {
+          const prev = trace[step];
+          const pk = px - py;
+          const prevK =
+            pk === -step || (pk !== step && prev[offset + pk - 1] < prev[offset + pk + 1]) ? pk + 1 : pk - 1;
+          const prevX = prev[offset + prevK];
+          const prevY = prevX - prevK;
+          while (px > prevX && py > prevY) {
+            px--;
+            py--;
+            matches[start + px] = start + py;
+          }
+          px = prevX;
+          py = prevY;
+        }
+        return matches;
+      }
+    }
+  }
+
+  return matches;
+}
+
+const sameLines = (a: string[], b: string[]) => a.length === b.length && a.every((line, i) => line === b[i]);
+
+/**
+ * Merge local and upstream edits of the same base text. Regions changed on only one side
+ * (or identically on both) are applied; the rest are written between conflict markers.
+ */
+export function mergeText(base: string, local: string, upstream: string, upstreamLabel = "upstream"): MergeResult {
+  const baseLines = base.split("\n");
+  const localLines = local.split("\n");
+  const upstreamLines = upstream.split("\n");
+  const toLocal = matchLines(baseLines, localLines);
+  const toUpstream = matchLines(baseLines, upstreamLines);
+
+  const output: string[] = [];
+  let conflicts = 0;
+  let i = 0;
+  let l = 0;
+  let u = 0;
+
+  while (i < baseLines.length || l < localLines.length || u < upstreamLines.length) {
+    // Lines unchanged on both sides
+    if (i < baseLines.length && toLocal[i] === l && toUpstream[i] === u) {
+      output.push(baseLines[i]);
+      i++;
+      l++;
+      u++;
+      continue;
+    }
+
+    // Otherwise the chunk runs up to the next base line both sides kept
+    let j = i;
+    while (j < baseLines.length && (toLocal[j] < 0 || toUpstream[j] < 0)) j++;
+    const localEnd = j < baseLines.length ? toLocal[j] : localLines.length;
+    const upstreamEnd = j < baseLines.length ? toUpstream[j] : upstreamLines.length;
+
+    const baseChunk = baseLines.slice(i, j);
+    const localChunk = localLines.slice(l, localEnd);
+    const upstreamChunk = upstreamLines.slice(u, upstreamEnd);
+
+    if (sameLines(localChunk, baseChunk)) {
+      output.push(...upstreamChunk);
+    } else if (sameLines(upstreamChunk, baseChunk) || sameLines(localChunk, upstreamChunk)) {
+      output.push(...localChunk);
+    } else {
+      conflicts++;
+      output.push(`${LOCAL_MARKER} local`, ...localChunk, SEPARATOR, ...upstreamChunk, `${UPSTREAM_MARKER} ${upstreamLabel}`);
+    }
+
+    i = j;
+    l = localEnd;
+    u = upstreamEnd;
+  }
+
+  return { content: output.join("\n"), conflicts };
+}
+
+/**
+ * Conflicts marked in a file, in order
+ */
+export function findConflicts(content: string): ConflictRegion[] {
+  const lines = content.split("\n").map((line) => line.replace(/\r$/, ""));
+  const regions: ConflictRegion[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!lines[i].startsWith(LOCAL_MARKER)) continue;
+    const separator = lines.indexOf(SEPARATOR, i + 1);
+    const end = separator < 0 ? -1 : lines.findIndex((line, n) => n > separator && line.startsWith(UPSTREAM_MARKER));
+    if (end < 0) break;
+    regions.push({
+      startLine: i + 1,
+      separatorLine: separator + 1,
+      endLine: end + 1,
+      local: lines.slice(i + 1, separator),
+      upstream: lines.slice(separator + 1, end),
+    });
+    i = end;
+  }
+
+  return regions;
+}
+
+export function hasConflicts(content: string): boolean {
+  return content.includes(LOCAL_MARKER) && findConflicts(content).length > 0;
+}
+
+/**
+ * The lines that replace a conflict region for the chosen side
+ */
+export function resolveConflict(conflict: ConflictRegion, choice: ConflictChoice): string[] {
+  if (choice === "local") return conflict.local;
+  if (choice === "upstream") return conflict.upstream;
+  return [...conflict.local, ...conflict.upstream];
+}
@@ -0,0 +1,222 @@
+/**
+ * Preview Builder
+ * Turns the project in the IDE file system into a self-contained HTML document for the live
+ * preview iframe. Plain HTML projects get their local stylesheets and scripts inlined; JS/TS
+ * modules (including React components) are bundled with the same transpiler as `node`/`run`.
+ */
+
+import { FileNode } from "./IDEFileSystem";
+import { BundledModule, bundleModules, isRunnable, resolveModule } from "./SandboxRunner";
+
+/** Marks messages posted from the preview iframe to the IDE */
+export const PREVIEW_MESSAGE_SOURCE = "bodhit-preview";
+
+export interface PreviewEntry {
+  /** html: a page; module: a script that renders itself; component: a default export to mount */
+  kind: "html" | "module" | "component";
+  path: string;
+}
+
+export interface PreviewMessage {
+  source: typeof PREVIEW_MESSAGE_SOURCE;
+  type: "error" | "console";
+  level?: "error" | "warn";
+  message: string;
+}
+
+const HTML_ENTRIES = ["/index.html", "/public/index.html", "/src/index.html"];
+const MODULE_ENTRIES = ["main", "index"].flatMap((name) =>
+  [".tsx", ".jsx", ".ts", ".js"].map((ext) => `/src/${name}${ext}`)
+);
+const COMPONENT_ENTRIES = ["/src/App.tsx", "/src/App.jsx"];
+
+// React 18 is the last release with UMD builds, which the preview loads as globals
+const REACT_SCRIPTS = [
+  "https://unpkg.com/react@18.3.1/umd/react.development.js",
+  "https://unpkg.com/react-dom@18.3.1/umd/react-dom.development.js",
+];
+
+/**
+ * Pick what to preview: an opened HTML page, the project's index.html, a main/index
+ * script, App.tsx, or finally the component open in the editor
+ */
+export function findPreviewEntry(files: Record<string, FileNode>, selectedFile: string | null): PreviewEntry | null {
+  const isFile = (p: string | null): p is string => !!p && files[p]?.type === "file";
+
+  if (isFile(selectedFile) && selectedFile.endsWith(".html")) return { kind: "html", path: selectedFile };
+
+  const html =
+    HTML_ENTRIES.find(isFile) ||
+    Object.keys(files)
+      .filter((p) => isFile(p) && p.endsWith("/index.html"))
+      .sort((a, b) => a.split("/").length - b.split("/").length)[0];
+  if (html) return { kind: "html", path: html };
+
+  const main = MODULE_ENTRIES.find(isFile);
+  if (main) return { kind: "module", path: main };
+
+  const app = COMPONENT_ENTRIES.find(isFile);
+  if (app) return { kind: "component", path: app };
+
+  if (isFile(selectedFile) && /\.(tsx|jsx)$/.test(selectedFile)) return { kind: "component", path: selectedFile };
+  return null;
+}
+
+// Runs first inside the iframe: error overlay, forwarding to the IDE and the module loader
+const RUNTIME_SOURCE = `
+(function () {
+  var SOURCE = "${PREVIEW_MESSAGE_SOURCE}";
+  var send = function (type, message, level) {
+    try { parent.postMessage({ source: SOURCE, type: type, level: level, message: message }, "*"); } catch (e) {}
+  };
+  var overlay = function (message) {
+    var el = document.getElementById("__preview_error");
+    if (!el) {
+      el = document.createElement("pre");
+      el.id = "__preview_error";
+      el.style.cssText = "position:fixed;inset:0;margin:0;padding:16px;background:rgba(24,0,0,.94);color:#ff8a8a;" +
+        "font:12px/1.5 monospace;white-space:pre-wrap;overflow:auto;z-index:2147483647";
+      el.title = "Click to dismiss";
+      el.onclick = function () { el.remove(); };
+      (document.body || document.documentElement).appendChild(el);
+    }
+    el.textContent += message + "\\n\\n";
+  };
+  var report = function (err) {
+    var message = err && err.stack ? String(err.stack) : String(err);
+    if (document.body) overlay(message);
+    else window.addEventListener("DOMContentLoaded", function () { overlay(message); });
+    send("error", message);
+  };
+  window.addEventListener("error", function (e) { report(e.error || e.message); });
+  window.addEventListener("unhandledrejection", function (e) { report(e.reason); });
+  ["error", "warn"].forEach(function (level) {
+    var original = console[level];
+    console[level] = function () {
+      original.apply(console, arguments);
+      send("console", Array.prototype.map.call(arguments, String).join(" "), level);
+    };
+  });
+
+  window.__injectStyle = function (path, css) {
+    var style = document.createElement("style");
+    style.setAttribute("data-path", path);
+    style.textContent = css;
+    document.head.appendChild(style);
+  };
+
+  var modules = window.__previewModules || {};
+  var cache = {};
+  var external = function (name) {
+    if (window.React && window.ReactDOM) {
+      var internals = ReactDOM.__SECRET_INTERNALS_DO_NOT_USE_OR_YOU_WILL_BE_FIRED;
+      // Same as importing react-dom/client: no warning for createRoot
+      if (internals) internals.usingClientEntryPoint = true;
+      var jsx = function (type, props, key) {
+        return React.createElement(type, key === undefined ? props : Object.assign({}, props, { key: key }));
+      };
+      var runtime = { jsx: jsx, jsxs: jsx, jsxDEV: jsx, Fragment: React.Fragment };
+      var table = { "react": React, "react-dom": ReactDOM, "react-dom/client": ReactDOM,
+        "react/jsx-runtime": runtime, "react/jsx-dev-runtime": runtime };
+      if (table[name]) return table[name];
+    }
+    throw new Error("Cannot import '" + name + "' in the preview: only project files and React are available");
+  };
+  var load = function (path) {
+    if (cache[path]) return cache[path].exports;
+    var mod = modules[path];
+    var module = { exports: {} };
+    cache[path] = module;
+    var require = function (specifier) {
+      var target = mod.deps[specifier];
+      return target ? load(target) : external(specifier);
+    };
+    var fn = new Function("require", "module", "exports", mod.code + "\\n//# sourceURL=" + path);
+    fn(require, module, module.exports);
+    return module.exports;
+  };
+
+  window.__previewRun = function (path) {
+    try { load(path); } catch (e) { report(e); }
+  };
+  window.__previewMount = function (path) {
+    try {
+      var exports = load(path);
+      var Component = exports.default || Object.keys(exports).map(function (k) { return exports[k]; })
+        .find(function (v) { return typeof v === "function"; });
+      if (!Component) throw new Error(path + " has no component export to render");
+      external("react-dom/client").createRoot(document.getElementById("root")).render(React.createElement(Component));
+    } catch (e) { report(e); }
+  };
+})();
+`;
+
+// Keep inlined code from closing the surrounding <script> element
+const escapeScript = (code: string) => code.replace(/<\/script/gi, "<\\/script");
+
+const usesReact = (modules: Record<string, BundledModule>) =>
+  Object.values(modules).some((m) => /\brequire\(\s*['"]react(-dom)?(\/[^'"]*)?['"]\s*\)/.test(m.code));
+
+const headScripts = (modules: Record<string, BundledModule>) => {
+  const data = JSON.stringify(modules).replace(/</g, "\\u003c");
+  const react = usesReact(modules) ? REACT_SCRIPTS.map((src) => `<script src="${src}" crossorigin></script>`) : [];
+  return [...react, `<script>window.__previewModules = ${data};</script>`, `<script>${escapeScript(RUNTIME_SOURCE)}</script>`].join("\n");
+};
+
+const buildHtmlPage = (files: Record<string, FileNode>, htmlPath: string): string => {
+  const doc = new DOMParser().parseFromString(files[htmlPath].content || "", "text/html");
+  const modules: Record<string, BundledModule> = {};
+  const resolveLocal = (ref: string | null) => {
+    if (!ref || /^([a-z]+:)?\/\//i.test(ref) || ref.startsWith("data:")) return null;
+    const clean = ref.split(/[?#]/)[0];
+    return resolveModule(files, htmlPath, /^[./]/.test(clean) ? clean : `./${clean}`);
+  };
+
+  doc.querySelectorAll<HTMLLinkElement>('link[rel="stylesheet"][href]').forEach((link) => {
+    const path = resolveLocal(link.getAttribute("href"));
+    if (!path) return;
+    const style = doc.createElement("style");
+    style.setAttribute("data-path", path);
+    style.textContent = files[path].content || "";
+    link.replaceWith(style);
+  });
+
+  doc.querySelectorAll<HTMLScriptElement>("script[src]").forEach((script) => {
+    const path = resolveLocal(script.getAttribute("src"));
+    if (!path) return;
+    const inline = doc.createElement("script");
+    if (script.type === "module" || (isRunnable(path) && !path.endsWith(".js"))) {
+      // Modules go through the bundler so their imports resolve against the project
+      Object.assign(modules, bundleModules(files, path));
+      inline.textContent = `__previewRun(${JSON.stringify(path)});`;
+    } else {
+      // Classic scripts keep their globals, so inline handlers like onclick="start()" work
+      inline.textContent = escapeScript(files[path].content || "");
+    }
+    script.replaceWith(inline);
+  });
+
+  doc.head.insertAdjacentHTML("afterbegin", headScripts(modules));
+  return `<!DOCTYPE html>\n${doc.documentElement.outerHTML}`;
+};
+
+/**
+ * Build the preview document for an entry. Throws when a file fails to compile.
+ */
+export function buildPreview(files: Record<string, FileNode>, entry: PreviewEntry): string {
+  if (entry.kind === "html") return buildHtmlPage(files, entry.path);
+
+  const modules = bundleModules(files, entry.path);
+  const start = entry.kind === "module" ? "__previewRun" : "__previewMount";
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+${headScripts(modules)}
+</head>
+<body>
+<div id="root"></div>
+<script>${start}(${JSON.stringify(entry.path)});</script>
+</body>
+</html>`;
+}
@@ -0,0 +1,412 @@
+/**
+ * Project Templates
+ * Starter kits a new IDE workspace is seeded from. Each template has its files, a README and,
+ * optionally, locks (e.g. read-only tests written by a mentor). A submission's template is
+ * picked from its `tech_stack`.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { FileLock } from "./IDEFileSystem";
+
+export interface ProjectTemplate {
+  id: string;
+  name: string;
+  description: string;
+  /** `tech_stack` entries (lower-case, letters and digits only) this template is picked for */
+  stacks: string[];
+  readme: string;
+  /** File contents by absolute path */
+  files: Record<string, string>;
+  locks?: Record<string, FileLock>;
+}
+
+const REACT_VITE: ProjectTemplate = {
+  id: "react-vite",
+  name: "React + Vite",
+  description: "A React single-page app in TypeScript, built with Vite",
+  stacks: ["react", "reactjs", "vite", "typescript", "ts", "tailwind", "tailwindcss", "frontend", "nextjs"],
+  readme: `# React + Vite Starter
+
+A React app written in TypeScript.
+
+## Getting started
+- \`src/main.tsx\` mounts the app, \`src/App.tsx\` is the root component
+- Open \`src/App.tsx\` and switch to the Preview tab to see it running
+- Run the tests with \`test\` in the terminal or from the Tests tab
+
+## Locked files
+- \`src/utils/format.test.ts\` is provided by your mentor and cannot be edited
+- \`src/components/Dashboard.tsx\` unlocks once the format tests pass
+`,
+  files: {
+    "/package.json": `{
+  "name": "react-vite-starter",
+  "private": true,
+  "version": "0.0.0",
+  "type": "module",
+  "scripts": {
+    "dev": "vite",
+    "build": "tsc && vite build",
+    "test": "vitest"
+  },
+  "dependencies": {
+    "react": "^18.3.1",
+    "react-dom": "^18.3.1"
+  },
+  "devDependencies": {
+    "@vitejs/plugin-react": "^4.3.1",
+    "typescript": "^5.5.3",
+    "vite": "^5.4.1",
+    "vitest": "^2.0.5"
+  }
+}
+`,
+    "/index.html": `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <title>React + Vite</title>
+  </head>
+  <body>
+    <div id="root"></div>
+    <script type="module" src="/src/main.tsx"></script>
+  </body>
+</html>
+`,
+    "/vite.config.ts": `import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+
+export default defineConfig({
+  plugins: [react()],
+});
+`,
+    "/src/main.tsx": `import React from 'react';
+import { createRoot } from 'react-dom/client';
+import App from './App';
+
+createRoot(document.getElementById('root')!).render(
+  <React.StrictMode>
+    <App />
+  </React.StrictMode>
+);
+`,
+    "/src/App.tsx": `import { useState } from 'react';
+import { formatCount } from './utils/format';
+
+const App = () => {
+  const [count, setCount] = useState(0);
+
+  return (
+    <main style={{ fontFamily: 'sans-serif', padding: 24 }}>
+      <h1>Hello from React</h1>
+      <button onClick={() => setCount((c) => c + 1)}>Clicked {formatCount(count)}</button>
+    </main>
+  );
+};
+
+export default App;
+`,
+    "/src/utils/format.ts": `/**
+ * Format a click count, e.g. "1 time" or "3 times"
+ */
+export const formatCount = (count: number): string => {
+  // TODO: make the tests in format.test.ts pass
+  return String(count);
+};
+`,
+    "/src/utils/format.test.ts": `import { describe, it, expect } from 'vitest';
+import { formatCount } from './format';
+
+describe('formatCount', () => {
+  it('uses the singular for one', () => {
+    expect(formatCount(1)).toBe('1 time');
+  });
+
+  it('uses the plural otherwise', () => {
+    expect(formatCount(0)).toBe('0 times');
+    expect(formatCount(3)).toBe('3 times');
+  });
+});
+`,
+    "/src/components/Dashboard.tsx": `const Dashboard = () => {
+  // TODO: show the user's stats here
+  return <section>Dashboard</section>;
+};
+
+export default Dashboard;
+`,
+  },
+  locks: {
+    "/src/utils/format.test.ts": { mode: "readonly", reason: "Tests are provided by your mentor" },
+    "/src/components/Dashboard.tsx": {
+      mode: "readonly",
+      until: { type: "tests", paths: ["/src/utils/format.test.ts"] },
+      reason: "Unlocks when the format tests pass",
+    },
+  },
+};
+
+const EXPRESS_API: ProjectTemplate = {
+  id: "express-api",
+  name: "Express API",
+  description: "A REST API with Node.js and Express",
+  stacks: ["express", "expressjs", "node", "nodejs", "api", "rest", "restapi", "backend", "mongodb", "postgresql"],
+  readme: `# Express API Starter
+
+A small REST API for a todo list.
+
+## Getting started
+- \`src/server.js\` sets up Express and the routes in \`src/routes/todos.js\`
+- \`src/store.js\` keeps the todos in memory; replace it with a database later
+- Run the store tests with \`test\` in the terminal or from the Tests tab
+
+## Endpoints
+- \`GET /api/todos\` lists todos
+- \`POST /api/todos\` creates one from \`{ "title": "..." }\`
+- \`PATCH /api/todos/:id\` toggles \`done\`
+
+## Locked files
+- \`src/store.test.js\` is provided by your mentor and cannot be edited
+`,
+  files: {
+    "/package.json": `{
+  "name": "express-api-starter",
+  "version": "1.0.0",
+  "main": "src/server.js",
+  "scripts": {
+    "start": "node src/server.js",
+    "test": "vitest"
+  },
+  "dependencies": {
+    "express": "^4.19.2"
+  },
+  "devDependencies": {
+    "vitest": "^2.0.5"
+  }
+}
+`,
+    "/src/server.js": `const express = require('express');
+const todos = require('./routes/todos');
+
+const app = express();
+app.use(express.json());
+app.use('/api/todos', todos);
+
+const port = process.env.PORT || 3000;
+app.listen(port, () => console.log('API listening on port ' + port));
+`,
+    "/src/routes/todos.js": `const { Router } = require('express');
+const store = require('../store');
+
+const router = Router();
+
+router.get('/', (req, res) => {
+  res.json(store.list());
+});
+
+router.post('/', (req, res) => {
+  try {
+    res.status(201).json(store.add(req.body.title));
+  } catch (err) {
+    res.status(400).json({ error: err.message });
+  }
+});
+
+// TODO: PATCH /:id should toggle the todo's "done" flag using store.toggle
+
+module.exports = router;
+`,
+    "/src/store.js": `let todos = [];
+let nextId = 1;
+
+const list = () => todos;
+
+const add = (title) => {
+  if (!title || !title.trim()) throw new Error('Title is required');
+  const todo = { id: nextId++, title: title.trim(), done: false };
+  todos.push(todo);
+  return todo;
+};
+
+const toggle = (id) => {
+  // TODO: flip "done" on the todo with this id and return it
+  return null;
+};
+
+const clear = () => {
+  todos = [];
+  nextId = 1;
+};
+
+module.exports = { list, add, toggle, clear };
+`,
+    "/src/store.test.js": `const store = require('./store');
+
+describe('todo store', () => {
+  beforeEach(() => store.clear());
+
+  it('adds todos', () => {
+    const todo = store.add('  Write tests ');
+    expect(todo).toEqual({ id: 1, title: 'Write tests', done: false });
+    expect(store.list()).toHaveLength(1);
+  });
+
+  it('rejects empty titles', () => {
+    expect(() => store.add(' ')).toThrow('Title is required');
+  });
+
+  it('toggles todos', () => {
+    const todo = store.add('Ship it');
+    expect(store.toggle(todo.id)).toMatchObject({ done: true });
+  });
+});
+`,
+  },
+  locks: {
+    "/src/store.test.js": { mode: "readonly", reason: "Tests are provided by your mentor" },
+  },
+};
+
+const PYTHON_FLASK: ProjectTemplate = {
+  id: "python-flask",
+  name: "Python Flask",
+  description: "A Flask web app with pytest",
+  stacks: ["python", "python3", "flask", "django", "fastapi", "pytest"],
+  readme: `# Flask Starter
+
+A minimal Flask app.
+
+## Getting started
+\`\`\`
+pip install -r requirements.txt
+flask --app app run
+pytest
+\`\`\`
+
+- \`app.py\` defines the routes
+- \`tests/\` holds the pytest suite (provided by your mentor, read-only)
+`,
+  files: {
+    "/requirements.txt": `flask>=3.0
+pytest>=8.0
+`,
+    "/app.py": `from flask import Flask, jsonify
+
+app = Flask(__name__)
+
+
+@app.get("/")
+def index():
+    return jsonify(message="Hello from Flask")
+
+
+@app.get("/health")
+def health():
+    # TODO: return {"status": "ok"}
+    return jsonify()
+
+
+if __name__ == "__main__":
+    app.run(debug=True)
+`,
+    "/tests/test_app.py": `from app import app
+
+
+def test_index():
+    response = app.test_client().get("/")
+    assert response.get_json() == {"message": "Hello from Flask"}
+
+
+def test_health():
+    response = app.test_client().get("/health")
+    assert response.get_json() == {"status": "ok"}
+`,
+  },
+  locks: {
+    "/tests": { mode: "readonly", reason: "Tests are provided by your mentor" },
+  },
+};
+
+const PLAIN_HTML: ProjectTemplate = {
+  id: "html",
+  name: "HTML, CSS & JavaScript",
+  description: "A static web page without a build step",
+  stacks: ["html", "html5", "css", "css3", "javascript", "js", "vanilla", "vanillajs", "static"],
+  readme: `# HTML Starter
+
+A static page: \`index.html\`, \`styles.css\` and \`script.js\`.
+
+Open \`index.html\` and switch to the Preview tab to see your changes live.
+`,
+  files: {
+    "/index.html": `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <title>My Page</title>
+    <link rel="stylesheet" href="styles.css" />
+  </head>
+  <body>
+    <h1>Hello, world</h1>
+    <button id="greet">Greet</button>
+    <p id="output"></p>
+    <script src="script.js"></script>
+  </body>
+</html>
+`,
+    "/styles.css": `body {
+  font-family: sans-serif;
+  margin: 2rem;
+}
+
+button {
+  padding: 0.5rem 1rem;
+}
+`,
+    "/script.js": `document.getElementById('greet').addEventListener('click', () => {
+  document.getElementById('output').textContent = 'Hi there!';
+});
+`,
+  },
+};
+
+export const PROJECT_TEMPLATES: ProjectTemplate[] = [REACT_VITE, EXPRESS_API, PYTHON_FLASK, PLAIN_HTML];
+
+export const DEFAULT_TEMPLATE_ID = REACT_VITE.id;
+
+export function getTemplate(id: string): ProjectTemplate | undefined {
+  return PROJECT_TEMPLATES.find((t) => t.id === id);
+}
+
+const normalizeStack = (tech: string) => tech.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * The template matching most entries of a tech stack, e.g. ["React.js", "Tailwind"] -> React + Vite.
+ * Ties go to the earlier template; with no match at all the default template is used.
+ */
+export function findTemplateForStack(techStack: string[]): ProjectTemplate {
+  const stack = new Set(techStack.map(normalizeStack));
+  let best = getTemplate(DEFAULT_TEMPLATE_ID)!;
+  let bestScore = 0;
+  for (const template of PROJECT_TEMPLATES) {
+    const score = template.stacks.filter((s) => stack.has(s)).length;
+    if (score > bestScore) {
+      best = template;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * The template for a project submission, from its `tech_stack`
+ */
+export async function loadSubmissionTemplate(submissionId: string): Promise<ProjectTemplate> {
+  const { data, error } = await supabase
+    .from("project_submissions")
+    .select("tech_stack")
+    .eq("id", submissionId)
+    .single();
+  if (error) throw error;
+  return findTemplateForStack(data?.tech_stack || []);
+}
@@ -0,0 +1,422 @@
+/**
+ * Sandbox Runner
+ * Runs JavaScript/TypeScript from the IDE file system in a locked-down Web Worker.
+ * Files are transpiled with sucrase to CommonJS, bundled with their relative imports and
+ * executed off the main thread, so a runaway program can be terminated and never sees the
+ * host page, its storage or the Supabase session. Run time and output are limited; memory
+ * is not, as browsers give no reliable way to measure a worker's heap.
+ */
+
+import { transform, Transform } from "sucrase";
+import { FileNode } from "./IDEFileSystem";
+
+export type OutputStream = "stdout" | "stderr";
+
+export interface SandboxOptions {
+  /** Extra arguments, available as process.argv.slice(2) */
+  args?: string[];
+  /** Wall-clock limit for the whole run */
+  timeoutMs?: number;
+  /** Output lines after which the program is stopped */
+  maxOutputLines?: number;
+  /** Characters of output after which the program is stopped (checked in the worker, so a
+   * program printing huge strings cannot flood the page with messages) */
+  maxOutputChars?: number;
+  onOutput: (stream: OutputStream, text: string) => void;
+  /** Pre-bundled modules to run instead of bundling the entry from the file system */
+  modules?: Record<string, BundledModule>;
+  /** Structured data posted by internal modules (e.g. test results) */
+  onReport?: (data: unknown) => void;
+}
+
+export interface SandboxResult {
+  exitCode: number;
+  reason: "exit" | "error" | "timeout" | "output" | "cancelled";
+}
+
+export interface SandboxRun {
+  done: Promise<SandboxResult>;
+  cancel: () => void;
+}
+
+export interface BundledModule {
+  code: string;
+  /** Import specifier -> resolved project path */
+  deps: Record<string, string>;
+  /** Runtime code supplied by the IDE; only these modules receive the `__report` channel */
+  internal?: boolean;
+}
+
+export const DEFAULT_TIMEOUT_MS = 10_000;
+export const DEFAULT_MAX_OUTPUT_LINES = 2000;
+export const DEFAULT_MAX_OUTPUT_CHARS = 1_000_000;
+
+const RUNNABLE_EXTENSIONS = [".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs"];
+const RESOLVE_EXTENSIONS = [...RUNNABLE_EXTENSIONS, ".json"];
+
+const extensionOf = (path: string) => {
+  const name = path.split("/").pop() || "";
+  const dot = name.lastIndexOf(".");
+  return dot > 0 ? name.substring(dot).toLowerCase() : "";
+};
+
+export function isRunnable(path: string): boolean {
+  return RUNNABLE_EXTENSIONS.includes(extensionOf(path));
+}
+
+const dirname = (path: string) => path.substring(0, path.lastIndexOf("/")) || "/";
+
+const joinPath = (base: string, relative: string) => {
+  const parts = relative.startsWith("/") ? [] : base.split("/").filter(Boolean);
+  for (const segment of relative.split("/")) {
+    if (!segment || segment === ".") continue;
+    if (segment === "..") parts.pop();
+    else parts.push(segment);
+  }
+  return "/" + parts.join("/");
+};
+
+/**
+ * Resolve an import the way Node/bundlers do for project files: exact path, then
+ * added extensions, then an index file. Bare package imports are not resolvable.
+ */
+export function resolveModule(files: Record<string, FileNode>, fromPath: string, specifier: string): string | null {
+  if (!specifier.startsWith(".") && !specifier.startsWith("/")) return null;
+  const base = joinPath(dirname(fromPath), specifier);
+  const isFile = (p: string) => files[p]?.type === "file";
+
+  if (isFile(base)) return base;
+  // TypeScript sources are often imported with a .js extension
+  const withoutJs = base.replace(/\.(c|m)?js$/, "");
+  for (const ext of RESOLVE_EXTENSIONS) {
+    if (isFile(base + ext)) return base + ext;
+    if (withoutJs !== base && isFile(withoutJs + ext)) return withoutJs + ext;
+  }
+  for (const ext of RESOLVE_EXTENSIONS) {
+    if (isFile(`${base}/index${ext}`)) return `${base}/index${ext}`;
+  }
+  return null;
+}
+
+const transpile = (path: string, source: string): string => {
+  const ext = extensionOf(path);
+  if (ext === ".json") return `module.exports = ${source.trim() || "null"};`;
+  // Stylesheets are applied by runtimes that render (the preview); elsewhere they are no-ops
+  if (ext === ".css") {
+    return `if (typeof __injectStyle === "function") __injectStyle(${JSON.stringify(path)}, ${JSON.stringify(source)});`;
+  }
+  // Other assets resolve to their project path
+  if (!RUNNABLE_EXTENSIONS.includes(ext)) return `module.exports = ${JSON.stringify(path)};`;
+
+  const transforms: Transform[] = ["imports"];
+  if ([".ts", ".tsx", ".mts", ".cts"].includes(ext)) transforms.push("typescript");
+  if ([".tsx", ".jsx"].includes(ext)) transforms.push("jsx");
+  try {
+    return transform(source, { transforms, filePath: path, jsxRuntime: "automatic", production: true }).code;
+  } catch (err) {
+    throw new Error(`${path}: ${err instanceof Error ? err.message : err}`);
+  }
+};
+
+/**
+ * Transpile the entry file and every project file it (transitively) requires
+ */
+export function bundleModules(files: Record<string, FileNode>, entryPath: string): Record<string, BundledModule> {
+  const modules: Record<string, BundledModule> = {};
+  const queue = [entryPath];
+
+  while (queue.length > 0) {
+    const path = queue.shift()!;
+    if (modules[path]) continue;
+
+    const code = transpile(path, files[path]?.content || "");
+    const deps: Record<string, string> = {};
+    for (const match of code.matchAll(/\brequire\(\s*(['"])([^'"]+)\1\s*\)/g)) {
+      const resolved = resolveModule(files, path, match[2]);
+      if (resolved) {
+        deps[match[2]] = resolved;
+        queue.push(resolved);
+      }
+    }
+    modules[path] = { code, deps };
+  }
+
+  return modules;
+}
+
+// Runs inside the worker. Kept as plain JavaScript source so it is loaded from a Blob
+// exactly as written, without depending on anything from the app bundle.
+const WORKER_SOURCE = `
+// Everything is scoped to this function: top-level declarations of a classic script are
+// global bindings that programs run through new Function could call (post, report, realFetch)
+(() => {
+  "use strict";
+  const post = self.postMessage.bind(self);
+  const realFetch = self.fetch ? self.fetch.bind(self) : null;
+  const realSetTimeout = self.setTimeout.bind(self);
+  const realClearTimeout = self.clearTimeout.bind(self);
+  const realSetInterval = self.setInterval.bind(self);
+  const realClearInterval = self.clearInterval.bind(self);
+
+  // Shadow an API on an object (the global by default) and every prototype that defines it
+  const lock = (name, value, target = self) => {
+    for (let o = target; o; o = Object.getPrototypeOf(o)) {
+      if (Object.prototype.hasOwnProperty.call(o, name)) {
+        try {
+          Object.defineProperty(o, name, { value, writable: false, configurable: false });
+        } catch (e) {}
+      }
+    }
+  };
+
+  const timeouts = new Set();
+  const intervals = new Set();
+  let pending = 0;
+  let exited = false;
+  let outputChars = 0;
+  let maxOutputChars = Infinity;
+
+  const format = (value) => {
+    if (typeof value === "string") return value;
+    if (value instanceof Error) return value.stack || String(value);
+    if (typeof value === "function") return "[Function: " + (value.name || "anonymous") + "]";
+    if (typeof value === "object" && value !== null) {
+      try {
+        const json = JSON.stringify(value);
+        return json.length <= 72 ? json : JSON.stringify(value, null, 2);
+      } catch (e) {
+        return String(value);
+      }
+    }
+    return String(value);
+  };
+
+  const write = (stream, args) => {
+    if (exited) return;
+    const text = args.map(format).join(" ");
+    outputChars += text.length;
+    if (outputChars > maxOutputChars) {
+      exited = true;
+      post({ type: "output-limit" });
+      return;
+    }
+    post({ type: "output", stream, text });
+  };
+
+  const report = (data) => {
+    if (!exited) post({ type: "report", data });
+  };
+
+  const exit = (code) => {
+    if (exited) return;
+    exited = true;
+    post({ type: "exit", code });
+  };
+
+  class ExitSignal {}
+
+  const checkIdle = () => {
+    realSetTimeout(() => {
+      if (!timeouts.size && !intervals.size && !pending) exit(0);
+    }, 0);
+  };
+
+  const guard = (fn, args) => {
+    try {
+      if (typeof fn === "function") fn(...args);
+    } catch (err) {
+      if (!(err instanceof ExitSignal)) {
+        write("stderr", ["Uncaught", err]);
+        exit(1);
+      }
+    }
+  };
+
+  const sandboxConsole = {
+    log: (...a) => write("stdout", a),
+    info: (...a) => write("stdout", a),
+    debug: (...a) => write("stdout", a),
+    warn: (...a) => write("stderr", a),
+    error: (...a) => write("stderr", a),
+    trace: (...a) => write("stderr", ["Trace:", ...a]),
+    table: (data) => write("stdout", [data]),
+    dir: (data) => write("stdout", [data]),
+    clear: () => {},
+  };
+
+  const sandboxTimers = {
+    setTimeout: (fn, ms, ...args) => {
+      const id = realSetTimeout(() => {
+        timeouts.delete(id);
+        guard(fn, args);
+        checkIdle();
+      }, ms);
+      timeouts.add(id);
+      return id;
+    },
+    clearTimeout: (id) => {
+      timeouts.delete(id);
+      realClearTimeout(id);
+      checkIdle();
+    },
+    setInterval: (fn, ms, ...args) => {
+      const id = realSetInterval(() => guard(fn, args), ms);
+      intervals.add(id);
+      return id;
+    },
+    clearInterval: (id) => {
+      intervals.delete(id);
+      realClearInterval(id);
+      checkIdle();
+    },
+  };
+
+  // No storage, no credentials and no way to spawn more workers or load scripts
+  ["indexedDB", "caches", "cookieStore", "importScripts", "XMLHttpRequest", "EventSource", "WebSocket",
+   "Worker", "SharedWorker", "BroadcastChannel", "postMessage", "close"].forEach((name) => lock(name, undefined));
+  lock("fetch", realFetch
+    ? (input, init) => {
+        pending++;
+        return realFetch(input, Object.assign({}, init, { credentials: "omit" })).finally(() => {
+          pending--;
+          checkIdle();
+        });
+      }
+    : undefined);
+  if (self.navigator) lock("storage", undefined, self.navigator);
+  lock("console", sandboxConsole);
+  Object.keys(sandboxTimers).forEach((name) => lock(name, sandboxTimers[name]));
+
+  self.addEventListener("error", (event) => {
+    event.preventDefault();
+    if (event.error instanceof ExitSignal) return;
+    write("stderr", ["Uncaught", event.error || event.message]);
+    exit(1);
+  });
+  self.addEventListener("unhandledrejection", (event) => {
+    event.preventDefault();
+    if (event.reason instanceof ExitSignal) return;
+    write("stderr", ["Unhandled promise rejection:", event.reason]);
+    exit(1);
+  });
+
+  // Runs once: a program calling self.onmessage again must not get to load internal modules
+  let started = false;
+  self.onmessage = (event) => {
+    if (started) return;
+    started = true;
+    self.onmessage = null;
+    const { modules, entry, args } = event.data;
+    maxOutputChars = event.data.maxOutputChars;
+    const cache = {};
+    const process = {
+      argv: ["node", entry, ...args],
+      env: {},
+      platform: "browser",
+      version: "v0.0.0-sandbox",
+      exitCode: undefined,
+      cwd: () => entry.substring(0, entry.lastIndexOf("/")) || "/",
+      exit: (code) => {
+        exit(code === undefined ? process.exitCode || 0 : code);
+        throw new ExitSignal();
+      },
+      nextTick: (fn, ...a) => Promise.resolve().then(() => fn(...a)),
+      stdout: { write: (text) => (write("stdout", [String(text).replace(/\\n$/, "")]), true) },
+      stderr: { write: (text) => (write("stderr", [String(text).replace(/\\n$/, "")]), true) },
+    };
+
+    const load = (path) => {
+      if (cache[path]) return cache[path].exports;
+      const mod = modules[path];
+      const module = { exports: {} };
+      cache[path] = module;
+      const require = (specifier) => {
+        const target = mod.deps[specifier];
+        if (!target) throw new Error("Cannot find module '" + specifier + "' from '" + path + "'");
+        return load(target);
+      };
+      const fn = new Function("require", "module", "exports", "__filename", "__dirname", "process", "__report",
+        mod.code + "\\n//# sourceURL=" + path);
+      fn(require, module, module.exports, path, path.substring(0, path.lastIndexOf("/")) || "/", process,
+        mod.internal ? report : undefined);
+      return module.exports;
+    };
+
+    try {
+      load(entry);
+    } catch (err) {
+      if (err instanceof ExitSignal) return;
+      write("stderr", [err]);
+      exit(1);
+      return;
+    }
+    checkIdle();
+  };
+})();
+`;
+
+/**
+ * Run a project file in a sandboxed worker. Output is streamed through `onOutput`;
+ * `done` resolves when the program exits, fails or hits a limit.
+ */
+export function runInSandbox(files: Record<string, FileNode>, entryPath: string, options: SandboxOptions): SandboxRun {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxOutputLines = options.maxOutputLines ?? DEFAULT_MAX_OUTPUT_LINES;
+  const maxOutputChars = options.maxOutputChars ?? DEFAULT_MAX_OUTPUT_CHARS;
+
+  // Throws on syntax errors before a worker is started
+  const modules = options.modules || bundleModules(files, entryPath);
+
+  const url = URL.createObjectURL(new Blob([WORKER_SOURCE], { type: "text/javascript" }));
+  const worker = new Worker(url);
+  URL.revokeObjectURL(url);
+
+  let outputLines = 0;
+  let settled = false;
+  let finish: (result: SandboxResult) => void = () => undefined;
+  const done = new Promise<SandboxResult>((resolve) => {
+    finish = (result) => {
+      settled = true;
+      worker.terminate();
+      clearTimeout(timer);
+      resolve(result);
+    };
+  });
+
+  const stop = (reason: SandboxResult["reason"], message: string) => {
+    if (settled) return;
+    options.onOutput("stderr", message);
+    finish({ exitCode: 1, reason });
+  };
+
+  const timer = setTimeout(() => stop("timeout", `Stopped: exceeded the ${timeoutMs / 1000}s time limit`), timeoutMs);
+
+  worker.onmessage = (event: MessageEvent) => {
+    const msg = event.data;
+    if (settled) return;
+    if (msg.type === "output") {
+      outputLines += String(msg.text).split("\n").length;
+      options.onOutput(msg.stream, msg.text);
+      if (outputLines > maxOutputLines) {
+        stop("output", `Stopped: more than ${maxOutputLines} lines of output`);
+      }
+    } else if (msg.type === "output-limit") {
+      stop("output", `Stopped: more than ${maxOutputChars.toLocaleString()} characters of output`);
+    } else if (msg.type === "report") {
+      options.onReport?.(msg.data);
+    } else if (msg.type === "exit") {
+      finish({ exitCode: msg.code, reason: msg.code === 0 ? "exit" : "error" });
+    }
+  };
+  worker.onerror = (event) => {
+    event.preventDefault();
+    stop("error", event.message || "Worker failed to start");
+  };
+
+  worker.postMessage({ modules, entry: entryPath, args: options.args || [], maxOutputChars });
+
+  return {
+    done,
+    cancel: () => stop("cancelled", "^C"),
+  };
+}
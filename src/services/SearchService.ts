@@ -0,0 +1,235 @@
+/**
+ * Search Service
+ * Filename glob matching and full-text/regex content search over IDE files
+ */
+
+import { FileNode, normalizePath } from "./IDEFileSystem";
+
+export interface SearchMatch {
+  path: string;
+  /** 1-based line number */
+  line: number;
+  /** 1-based column of the match start */
+  column: number;
+  length: number;
+  /** The matching line, trimmed to a reasonable length for display */
+  preview: string;
+}
+
+export interface FindOptions {
+  /** Folder to search under (defaults to the root) */
+  root?: string;
+  type?: "file" | "folder";
+}
+
+export interface ContentSearchOptions {
+  /** Treat the query as a regular expression instead of plain text */
+  regex?: boolean;
+  caseSensitive?: boolean;
+  wholeWord?: boolean;
+  /** Folder or file to search under (defaults to the root) */
+  root?: string;
+  /** Only search files matching this glob (e.g. "*.ts" or "src/**\/*.tsx") */
+  include?: string;
+  /** Skip files matching this glob */
+  exclude?: string;
+  maxResults?: number;
+}
+
+const DEFAULT_MAX_RESULTS = 1000;
+const MAX_PREVIEW_LENGTH = 200;
+
+/**
+ * Turn a glob into a regular expression source.
+ * Supports `*`, `**`, `?` and `{a,b}` alternatives.
+ */
+export function globToRegExp(glob: string): string {
+  let source = "";
+  let inBraces = false;
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*") {
+      if (glob[i + 1] === "*") {
+        i++;
+        if (glob[i + 1] === "/") {
+          i++;
+          source += "(?:.*/)?";
+        } else {
+          source += ".*";
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (c === "?") {
+      source += "[^/]";
+    } else if (c === "{") {
+      inBraces = true;
+      source += "(?:";
+    } else if (c === "}" && inBraces) {
+      inBraces = false;
+      source += ")";
+    } else if (c === "," && inBraces) {
+      source += "|";
+    } else {
+      source += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return source;
+}
+
+/**
+ * Match a path against a glob. Globs without a slash match the file name
+ * at any depth (like `find -name`); others match the path relative to `root`.
+ */
+export function matchGlob(path: string, glob: string, root = "/"): boolean {
+  const pattern = glob.replace(/^\.\//, "");
+  if (!pattern.includes("/")) {
+    return new RegExp(`^${globToRegExp(pattern)}$`).test(path.split("/").pop() || "");
+  }
+  const base = normalizePath(root);
+  const relative = base === "/" ? path.slice(1) : path.slice(base.length + 1);
+  return new RegExp(`^${globToRegExp(pattern.replace(/^\//, ""))}$`).test(relative);
+}
+
+const isUnder = (path: string, root: string) => root === "/" || path === root || path.startsWith(`${root}/`);
+
+/**
+ * Find files/folders whose name (or relative path) matches a glob
+ */
+export function findFiles(files: Record<string, FileNode>, pattern: string, options: FindOptions = {}): FileNode[] {
+  const root = normalizePath(options.root || "/");
+  return Object.values(files)
+    .filter((node) => isUnder(node.path, root) && node.path !== root)
+    .filter((node) => !options.type || node.type === options.type)
+    .filter((node) => !pattern || matchGlob(node.path, pattern, root))
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Build the RegExp used for a content search. Throws on an invalid regex.
+ */
+export function buildSearchRegExp(query: string, options: ContentSearchOptions = {}): RegExp {
+  let source = options.regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  if (options.wholeWord) {
+    source = `\\b(?:${source})\\b`;
+  }
+  try {
+    return new RegExp(source, options.caseSensitive ? "g" : "gi");
+  } catch {
+    throw new Error(`Invalid regular expression: ${query}`);
+  }
+}
+
+/**
+ * Search file contents and return every hit with its line and column
+ */
+export function searchContent(
+  files: Record<string, FileNode>,
+  query: string,
+  options: ContentSearchOptions = {}
+): SearchMatch[] {
+  if (!query) return [];
+
+  const regex = buildSearchRegExp(query, options);
+  const root = normalizePath(options.root || "/");
+  const maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS;
+  const matches: SearchMatch[] = [];
+
+  const candidates = Object.values(files)
+    .filter((node) => node.type === "file" && isUnder(node.path, root))
+    .filter((node) => !options.include || matchGlob(node.path, options.include, root))
+    .filter((node) => !options.exclude || !matchGlob(node.path, options.exclude, root))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  for (const file of candidates) {
+    const lines = (file.content || "").split(/\r?\n/);
+    for (let i = 0; i < lines.length; i++) {
+      const text = lines[i];
+      regex.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = regex.exec(text)) !== null) {
+        matches.push({
+          path: file.path,
+          line: i + 1,
+          column: match.index + 1,
+          length: match[0].length,
+          preview: text.length > MAX_PREVIEW_LENGTH ? text.slice(0, MAX_PREVIEW_LENGTH) + "…" : text,
+        });
+        if (matches.length >= maxResults) return matches;
+        // Avoid looping forever on empty matches (e.g. /^/)
+        if (match[0].length === 0) regex.lastIndex++;
+      }
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Expand `$&`, `$1`..`$99`, `$<name>` and `$$` in a regex replacement
+ */
+const expandReplacement = (template: string, match: RegExpExecArray): string =>
+  template.replace(/\$(\$|&|\d{1,2}|<([^>]+)>)/g, (token, key: string, name?: string) => {
+    if (key === "$") return "$";
+    if (key === "&") return match[0];
+    if (name !== undefined) return match.groups?.[name] ?? "";
+    // Like String.replace: "$12" is group 12 if it exists, otherwise group 1 followed by "2"
+    if (Number(key) > 0 && Number(key) < match.length) return match[Number(key)] ?? "";
+    if (key.length === 2 && Number(key[0]) > 0 && Number(key[0]) < match.length) {
+      return (match[Number(key[0])] ?? "") + key[1];
+    }
+    return token;
+  });
+
+/**
+ * Create a function giving the replacement text for the hit at `column` of `line`.
+ * In regex mode the replacement may reference capture groups.
+ */
+export function createReplacer(query: string, replacement: string, options: ContentSearchOptions = {}) {
+  const global = buildSearchRegExp(query, options);
+  const sticky = new RegExp(global.source, global.flags.replace("g", "") + "y");
+
+  return (line: string, column: number): string => {
+    if (!options.regex) return replacement;
+    sticky.lastIndex = column - 1;
+    const match = sticky.exec(line);
+    return match ? expandReplacement(replacement, match) : replacement;
+  };
+}
+
+/**
+ * Compute new contents for every file with hits. `shouldReplace` can veto
+ * individual hits (e.g. ones the user unticked in the preview).
+ */
+export function replaceMatches(
+  files: Record<string, FileNode>,
+  query: string,
+  replacement: string,
+  options: ContentSearchOptions = {},
+  shouldReplace: (match: SearchMatch) => boolean = () => true
+): { updates: Record<string, string>; replaced: number } {
+  const replacer = createReplacer(query, replacement, options);
+  const hits = searchContent(files, query, { ...options, maxResults: Infinity }).filter(shouldReplace);
+  const updates: Record<string, string> = {};
+
+  const byFile: Record<string, SearchMatch[]> = {};
+  for (const hit of hits) {
+    (byFile[hit.path] = byFile[hit.path] || []).push(hit);
+  }
+
+  for (const [path, fileHits] of Object.entries(byFile)) {
+    // Keep the original line endings: separators sit at the odd indices
+    const original = (files[path].content || "").split(/(\r?\n)/);
+    const parts = [...original];
+    // Right to left, so earlier columns on the same line stay valid
+    for (const hit of [...fileHits].reverse()) {
+      const index = (hit.line - 1) * 2;
+      const start = hit.column - 1;
+      const line = parts[index];
+      parts[index] = line.slice(0, start) + replacer(original[index], hit.column) + line.slice(start + hit.length);
+    }
+    updates[path] = parts.join("");
+  }
+
+  return { updates, replaced: hits.length };
+}
@@ -0,0 +1,255 @@
+/**
+ * Snapshot Service
+ * Freezes an IDE workspace into an immutable, content-addressed snapshot in Supabase and
+ * shares it through a read-only link. File contents are stored once per SHA-256 hash
+ * (`snapshot_blobs`); a snapshot (`workspace_snapshots`) is the manifest of paths to hashes,
+ * addressed by the hash of that manifest.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import { FileNode } from "./IDEFileSystem";
+
+export interface WorkspaceSnapshot {
+  id: string;
+  title: string;
+  workspaceName: string;
+  rootHash: string;
+  fileCount: number;
+  shareToken: string;
+  createdAt: number;
+  expiresAt: number | null;
+  revokedAt: number | null;
+}
+
+export interface SharedSnapshot {
+  title: string;
+  workspaceName: string;
+  rootHash: string;
+  createdAt: number;
+  expiresAt: number | null;
+  files: Record<string, FileNode>;
+  /** The workspace's snapshot before this one, for diffing */
+  previous: { title: string; createdAt: number; files: Record<string, FileNode> } | null;
+}
+
+interface ManifestEntry {
+  type: "file" | "folder";
+  hash?: string;
+  language?: string;
+}
+
+interface SharedFileEntry {
+  type: "file" | "folder";
+  language: string | null;
+  content: string | null;
+}
+
+// Rows per blob insert request
+const BLOB_BATCH_SIZE = 50;
+
+const toTime = (value: string | null) => (value ? new Date(value).getTime() : null);
+
+/**
+ * Hex SHA-256 of a string (UTF-8)
+ */
+export async function hashContent(content: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+const createShareToken = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+};
+
+const mapRow = (row: Tables<"workspace_snapshots">): WorkspaceSnapshot => ({
+  id: row.id,
+  title: row.title,
+  workspaceName: row.workspace_name,
+  rootHash: row.root_hash,
+  fileCount: Object.values((row.manifest || {}) as unknown as Record<string, ManifestEntry>).filter((e) => e.type === "file")
+    .length,
+  shareToken: row.share_token,
+  createdAt: toTime(row.created_at) ?? Date.now(),
+  expiresAt: toTime(row.expires_at),
+  revokedAt: toTime(row.revoked_at),
+});
+
+const toFileNodes = (entries: Record<string, SharedFileEntry>, timestamp: number): Record<string, FileNode> =>
+  Object.fromEntries(
+    Object.entries(entries).map(([path, entry]): [string, FileNode] => [
+      path,
+      {
+        id: `snapshot-${path}`,
+        path,
+        name: path.split("/").pop() || path,
+        type: entry.type === "folder" ? "folder" : "file",
+        content: entry.type === "folder" ? undefined : entry.content || "",
+        children: entry.type === "folder" ? [] : undefined,
+        language: entry.language || undefined,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      },
+    ])
+  );
+
+export function getSnapshotUrl(shareToken: string): string {
+  return `${window.location.origin}/snapshot/${shareToken}`;
+}
+
+export function isSnapshotLive(snapshot: WorkspaceSnapshot): boolean {
+  return !snapshot.revokedAt && (!snapshot.expiresAt || snapshot.expiresAt > Date.now());
+}
+
+/**
+ * Snapshot a workspace's files and create a share link for it. Unchanged file contents
+ * are not uploaded again.
+ */
+export async function createSnapshot(
+  files: Record<string, FileNode>,
+  options: {
+    title: string;
+    workspaceKey: string;
+    workspaceName: string;
+    submissionId?: string | null;
+    expiresAt?: number | null;
+  }
+): Promise<WorkspaceSnapshot> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) throw new Error("Sign in to share a snapshot");
+
+  const manifest: Record<string, ManifestEntry> = {};
+  const blobs = new Map<string, string>();
+  for (const path of Object.keys(files).sort()) {
+    const node = files[path];
+    if (node.type === "folder") {
+      manifest[path] = { type: "folder" };
+      continue;
+    }
+    const content = node.content || "";
+    const hash = await hashContent(content);
+    blobs.set(hash, content);
+    manifest[path] = { type: "file", hash, ...(node.language ? { language: node.language } : {}) };
+  }
+  const rootHash = await hashContent(JSON.stringify(manifest));
+
+  const rows = Array.from(blobs, ([hash, content]) => ({ hash, content }));
+  for (let i = 0; i < rows.length; i += BLOB_BATCH_SIZE) {
+    const { error } = await supabase
+      .from("snapshot_blobs")
+      .upsert(rows.slice(i, i + BLOB_BATCH_SIZE), { onConflict: "hash", ignoreDuplicates: true });
+    if (error) throw error;
+  }
+
+  const { data: previous, error: previousError } = await supabase
+    .from("workspace_snapshots")
+    .select("id")
+    .eq("owner_id", user.id)
+    .eq("workspace_key", options.workspaceKey)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (previousError) throw previousError;
+
+  const { data, error } = await supabase
+    .from("workspace_snapshots")
+    .insert({
+      owner_id: user.id,
+      workspace_key: options.workspaceKey,
+      workspace_name: options.workspaceName,
+      submission_id: options.submissionId ?? null,
+      title: options.title.trim() || new Date().toLocaleString(),
+      root_hash: rootHash,
+      manifest: manifest as unknown as Json,
+      previous_id: previous?.id ?? null,
+      share_token: createShareToken(),
+      expires_at: options.expiresAt ? new Date(options.expiresAt).toISOString() : null,
+    })
+    .select()
+    .single();
+  if (error || !data) throw error || new Error("Snapshot was not saved");
+  return mapRow(data);
+}
+
+/**
+ * The current user's snapshots of a workspace, newest first
+ */
+export async function listSnapshots(workspaceKey: string): Promise<WorkspaceSnapshot[]> {
+  const { data, error } = await supabase
+    .from("workspace_snapshots")
+    .select("*")
+    .eq("workspace_key", workspaceKey)
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+  return (data || []).map(mapRow);
+}
+
+export async function revokeSnapshot(id: string): Promise<WorkspaceSnapshot> {
+  const { data, error } = await supabase
+    .from("workspace_snapshots")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", id)
+    .select()
+    .single();
+  if (error || !data) throw error || new Error("Snapshot not found");
+  return mapRow(data);
+}
+
+/**
+ * Change when a share link stops working (null: never)
+ */
+export async function setSnapshotExpiry(id: string, expiresAt: number | null): Promise<WorkspaceSnapshot> {
+  const { data, error } = await supabase
+    .from("workspace_snapshots")
+    .update({ expires_at: expiresAt ? new Date(expiresAt).toISOString() : null })
+    .eq("id", id)
+    .select()
+    .single();
+  if (error || !data) throw error || new Error("Snapshot not found");
+  return mapRow(data);
+}
+
+/**
+ * Open a shared snapshot by its token. Returns null for unknown, revoked or expired links.
+ */
+export async function loadSharedSnapshot(shareToken: string): Promise<SharedSnapshot | null> {
+  const { data, error } = await supabase.rpc("get_shared_snapshot", { p_token: shareToken });
+  if (error) throw error;
+  if (!data) return null;
+
+  const snapshot = data as unknown as {
+    title: string;
+    workspace_name: string;
+    root_hash: string;
+    created_at: string;
+    expires_at: string | null;
+    files: Record<string, SharedFileEntry>;
+    previous: { title: string; created_at: string; files: Record<string, SharedFileEntry> } | null;
+  };
+  const createdAt = toTime(snapshot.created_at) ?? Date.now();
+  const previousAt = snapshot.previous ? toTime(snapshot.previous.created_at) ?? createdAt : createdAt;
+
+  return {
+    title: snapshot.title,
+    workspaceName: snapshot.workspace_name,
+    rootHash: snapshot.root_hash,
+    createdAt,
+    expiresAt: toTime(snapshot.expires_at),
+    files: toFileNodes(snapshot.files || {}, createdAt),
+    previous: snapshot.previous
+      ? {
+          title: snapshot.previous.title,
+          createdAt: previousAt,
+          files: toFileNodes(snapshot.previous.files || {}, previousAt),
+        }
+      : null,
+  };
+}
@@ -0,0 +1,286 @@
+/**
+ * Source Control Service
+ * Compares a cloned repository folder with the commit it was cloned from, pushes the
+ * changes back to GitHub as a commit (optionally opening a pull request) and pulls newer
+ * upstream commits in with a three-way merge.
+ */
+
+import { ClonedRepo, CloneRegistry } from "./CloneRegistry";
+import { GitHubService } from "./GitHubService";
+import { FileNode, IDEFileSystem } from "./IDEFileSystem";
+import { hasConflicts, mergeText } from "./MergeService";
+
+/** "conflicted": changed, and still containing conflict markers from a pull */
+export type ChangeStatus = "added" | "modified" | "deleted" | "conflicted";
+
+export interface WorkspaceChange {
+  /** Path in the IDE file system */
+  path: string;
+  /** Path inside the cloned folder */
+  relativePath: string;
+  status: ChangeStatus;
+}
+
+export interface PushOptions {
+  message: string;
+  branch: string;
+  /** Open a pull request from branch into the branch the repository was cloned from */
+  pullRequest?: { title: string; body?: string };
+}
+
+export interface PushResult {
+  commitSha: string;
+  branch: string;
+  pullRequestUrl?: string;
+}
+
+/** Files are listed by their path inside the cloned folder */
+export interface PullResult {
+  commitSha: string;
+  /** The branch had no commits since the clone's base */
+  upToDate: boolean;
+  /** Files added, changed or deleted upstream that had no local edits */
+  updated: string[];
+  /** Files edited on both sides whose changes merged cleanly */
+  merged: string[];
+  /** Files edited on both sides with conflict markers left to resolve */
+  conflicted: string[];
+  /** Files deleted on one side and changed on the other; the changed version is kept */
+  kept: string[];
+}
+
+/**
+ * Git blob SHA-1 of a file's content, as GitHub computes it ("blob <size>\0<bytes>")
+ */
+export async function gitBlobSha(content: string): Promise<string> {
+  const body = new TextEncoder().encode(content);
+  const header = new TextEncoder().encode(`blob ${body.length}\0`);
+  const data = new Uint8Array(header.length + body.length);
+  data.set(header);
+  data.set(body, header.length);
+  const digest = await crypto.subtle.digest("SHA-1", data);
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Whether the clone recorded the files it started from (clones made before pushing was
+ * supported did not)
+ */
+export function canTrackChanges(clone: ClonedRepo): boolean {
+  return !!clone.baseCommit && !!clone.baseFiles;
+}
+
+/**
+ * Files added, modified or deleted in a clone's folder since its base commit
+ */
+export async function getChanges(clone: ClonedRepo, files: Record<string, FileNode>): Promise<WorkspaceChange[]> {
+  const baseFiles = clone.baseFiles || {};
+  const changes: WorkspaceChange[] = [];
+  const seen = new Set<string>();
+
+  for (const node of Object.values(files)) {
+    if (node.type !== "file" || !node.path.startsWith(`${clone.path}/`)) continue;
+    const relativePath = node.path.slice(clone.path.length + 1);
+    seen.add(relativePath);
+    const base = baseFiles[relativePath];
+    // Not fetched yet, so not edited either
+    if (node.lazy && base) continue;
+    const status = !base ? "added" : (await gitBlobSha(node.content || "")) !== base.sha ? "modified" : null;
+    if (status) {
+      changes.push({ path: node.path, relativePath, status: hasConflicts(node.content || "") ? "conflicted" : status });
+    }
+  }
+
+  for (const relativePath of Object.keys(baseFiles)) {
+    if (!seen.has(relativePath)) {
+      changes.push({ path: `${clone.path}/${relativePath}`, relativePath, status: "deleted" });
+    }
+  }
+
+  return changes.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+}
+
+/**
+ * Commit the given changes on top of the clone's base commit, push them to a branch and
+ * optionally open a pull request. The pushed commit becomes the clone's new base.
+ */
+export async function pushChanges(
+  github: GitHubService,
+  clone: ClonedRepo,
+  files: Record<string, FileNode>,
+  changes: WorkspaceChange[],
+  options: PushOptions
+): Promise<PushResult> {
+  if (!clone.baseCommit || !clone.baseFiles) {
+    throw new Error("This repository was cloned before pushing was supported. Clone it again to push changes.");
+  }
+  if (changes.length === 0) throw new Error("There are no changes to commit");
+  const conflicted = changes.filter((change) => change.status === "conflicted");
+  if (conflicted.length > 0) {
+    throw new Error(`Resolve the merge conflicts in ${conflicted.map((c) => c.relativePath).join(", ")} before pushing`);
+  }
+
+  const baseFiles = clone.baseFiles;
+  const { sha, blobs } = await github.createCommit(
+    clone.owner,
+    clone.repo,
+    clone.baseCommit,
+    options.message,
+    changes.map((change) => ({
+      path: CloneRegistry.repoPath(clone, change.relativePath),
+      content: change.status === "deleted" ? null : files[change.path]?.content || "",
+      mode: baseFiles[change.relativePath]?.mode,
+    }))
+  );
+  await github.pushBranch(clone.owner, clone.repo, options.branch, sha);
+
+  let pullRequestUrl: string | undefined;
+  if (options.pullRequest && clone.branch && clone.branch !== options.branch) {
+    const pr = await github.createPullRequest(clone.owner, clone.repo, {
+      ...options.pullRequest,
+      head: options.branch,
+      base: clone.branch,
+    });
+    pullRequestUrl = pr.url;
+  }
+
+  const nextBase = { ...baseFiles };
+  for (const change of changes) {
+    if (change.status === "deleted") {
+      delete nextBase[change.relativePath];
+    } else {
+      nextBase[change.relativePath] = {
+        sha: blobs[CloneRegistry.repoPath(clone, change.relativePath)],
+        mode: baseFiles[change.relativePath]?.mode || "100644",
+      };
+    }
+  }
+  CloneRegistry.update(clone.path, {
+    baseCommit: sha,
+    baseFiles: nextBase,
+    branch: options.branch,
+    ref: options.branch,
+    refType: "branch",
+  });
+
+  return { commitSha: sha, branch: options.branch, pullRequestUrl };
+}
+
+/**
+ * Bring the clone up to date with its branch on GitHub. Files changed only upstream are
+ * replaced, files changed on both sides are merged line by line against the base commit, and
+ * overlapping edits are left between conflict markers. The fetched commit becomes the new base.
+ */
+export async function pullChanges(github: GitHubService, clone: ClonedRepo, fileSystem: IDEFileSystem): Promise<PullResult> {
+  if (!clone.baseCommit || !clone.baseFiles) {
+    throw new Error("This repository was cloned before pulling was supported. Clone it again to pull changes.");
+  }
+  if (!clone.branch) {
+    throw new Error(`This clone is pinned to ${clone.refType || "commit"} ${clone.ref}. Clone a branch to pull changes.`);
+  }
+
+  const pending = (await getChanges(clone, fileSystem.getAllFiles())).filter((c) => c.status === "conflicted");
+  if (pending.length > 0) {
+    throw new Error(`Resolve the merge conflicts in ${pending.map((c) => c.relativePath).join(", ")} before pulling again`);
+  }
+
+  const upstream = await github.resolveRef(clone.owner, clone.repo, clone.branch);
+  const result: PullResult = {
+    commitSha: upstream.sha,
+    upToDate: upstream.sha === clone.baseCommit,
+    updated: [],
+    merged: [],
+    conflicted: [],
+    kept: [],
+  };
+  if (result.upToDate) return result;
+
+  const prefix = clone.subdir ? `${clone.subdir}/` : "";
+  const upstreamFiles: Record<string, { sha: string; mode: string }> = {};
+  for (const item of await github.getTree(clone.owner, clone.repo, upstream.sha)) {
+    if (item.type === "file" && item.sha && item.path.startsWith(prefix)) {
+      upstreamFiles[item.path.slice(prefix.length)] = { sha: item.sha, mode: item.mode || "100644" };
+    }
+  }
+  if (prefix && Object.keys(upstreamFiles).length === 0) {
+    throw new Error(`${clone.subdir} no longer exists on ${clone.branch}`);
+  }
+
+  const localFiles: Record<string, FileNode> = {};
+  for (const node of Object.values(fileSystem.getAllFiles())) {
+    if (node.type === "file" && node.path.startsWith(`${clone.path}/`)) {
+      localFiles[node.path.slice(clone.path.length + 1)] = node;
+    }
+  }
+
+  // Decide per file from blob SHAs, before fetching anything
+  const take: { relativePath: string; sha: string }[] = [];
+  const remove: string[] = [];
+  const merge: { relativePath: string; baseSha?: string; upstreamSha: string }[] = [];
+  const paths = new Set([...Object.keys(clone.baseFiles), ...Object.keys(upstreamFiles), ...Object.keys(localFiles)]);
+
+  for (const relativePath of [...paths].sort()) {
+    const baseSha = clone.baseFiles[relativePath]?.sha;
+    const upstreamSha = upstreamFiles[relativePath]?.sha;
+    if (upstreamSha === baseSha) continue;
+
+    const node = localFiles[relativePath];
+    // Lazy placeholders are unedited by definition
+    const localSha = node ? (node.lazy ? node.lazy.sha : await gitBlobSha(node.content || "")) : undefined;
+    if (localSha === upstreamSha) continue;
+
+    if (localSha === baseSha) {
+      if (upstreamSha) {
+        take.push({ relativePath, sha: upstreamSha });
+      } else {
+        remove.push(relativePath);
+      }
+      result.updated.push(relativePath);
+    } else if (!upstreamSha) {
+      // Deleted upstream, edited here: keep the edits
+      result.kept.push(relativePath);
+    } else if (!node) {
+      // Deleted here, changed upstream: bring back the upstream version
+      take.push({ relativePath, sha: upstreamSha });
+      result.kept.push(relativePath);
+    } else {
+      merge.push({ relativePath, baseSha, upstreamSha });
+    }
+  }
+
+  const blobs = await github.getBlobs(clone.owner, clone.repo, [
+    ...take.map((t) => t.sha),
+    ...merge.flatMap((m) => (m.baseSha ? [m.baseSha, m.upstreamSha] : [m.upstreamSha])),
+  ]);
+
+  const contents: Record<string, string> = {};
+  for (const { relativePath, sha } of take) {
+    contents[relativePath] = blobs[sha];
+  }
+  const upstreamLabel = `${clone.branch} (${upstream.sha.slice(0, 7)})`;
+  for (const { relativePath, baseSha, upstreamSha } of merge) {
+    const merged = mergeText(
+      baseSha ? blobs[baseSha] : "",
+      localFiles[relativePath].content || "",
+      blobs[upstreamSha],
+      upstreamLabel
+    );
+    contents[relativePath] = merged.content;
+    (merged.conflicts > 0 ? result.conflicted : result.merged).push(relativePath);
+  }
+
+  // Every change is built by now; apply them in one checked step, then move the base
+  const writes: Record<string, string> = {};
+  for (const [relativePath, content] of Object.entries(contents)) {
+    writes[localFiles[relativePath]?.path || `${clone.path}/${relativePath}`] = content;
+  }
+  fileSystem.applyFiles(
+    writes,
+    remove.map((relativePath) => localFiles[relativePath].path),
+    `pulled ${upstream.sha.slice(0, 7)}`
+  );
+  CloneRegistry.update(clone.path, { baseCommit: upstream.sha, baseFiles: upstreamFiles });
+  return result;
+}
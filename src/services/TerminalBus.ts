@@ -0,0 +1,23 @@
+/**
+ * Terminal Bus
+ * Lets other parts of the IDE (preview, runners) print lines into the terminal
+ */
+
+export type TerminalLineType = "input" | "output" | "error" | "success" | "info";
+
+type TerminalListener = (type: TerminalLineType, content: string) => void;
+
+const listeners = new Set<TerminalListener>();
+
+export const TerminalBus = {
+  write(type: TerminalLineType, content: string) {
+    listeners.forEach((listener) => listener(type, content));
+  },
+
+  subscribe(listener: TerminalListener) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
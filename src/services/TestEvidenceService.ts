@@ -0,0 +1,122 @@
+/**
+ * Test Evidence Service
+ * Records passing IDE test runs against a task in the Supabase `task_test_runs` table, so
+ * mentors can see which tasks the student reports green tests for. Tests run in the student's
+ * browser, which also submits the results: the evidence is self-reported and unverified.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { isPassingRun, TestRunSummary } from "./TestRunner";
+
+export interface EvidenceTask {
+  id: string;
+  title: string;
+  status: string;
+  milestoneTitle: string;
+}
+
+/** A recorded run, as reported by the student's browser (not verified by the server) */
+export interface TestEvidence {
+  id: string;
+  taskId: string;
+  passed: number;
+  total: number;
+  createdAt: number;
+}
+
+/**
+ * Tasks of a submission, in milestone order, that a run can be recorded against
+ */
+export async function loadSubmissionTasks(submissionId: string): Promise<EvidenceTask[]> {
+  const { data: milestones, error: milestonesError } = await supabase
+    .from("milestones")
+    .select("id, title")
+    .eq("submission_id", submissionId)
+    .order("order_index", { ascending: true });
+  if (milestonesError) throw milestonesError;
+  if (!milestones || milestones.length === 0) return [];
+
+  const { data: tasks, error: tasksError } = await supabase
+    .from("tasks")
+    .select("id, title, status, milestone_id, order_index")
+    .in(
+      "milestone_id",
+      milestones.map((m) => m.id)
+    )
+    .order("order_index", { ascending: true });
+  if (tasksError) throw tasksError;
+
+  return milestones.flatMap((m) =>
+    (tasks || [])
+      .filter((t) => t.milestone_id === m.id)
+      .map((t) => ({ id: t.id, title: t.title, status: t.status, milestoneTitle: m.title }))
+  );
+}
+
+/**
+ * The latest recorded run for each of the given tasks
+ */
+export async function loadLatestTestRuns(taskIds: string[]): Promise<Record<string, TestEvidence>> {
+  if (taskIds.length === 0) return {};
+  const { data, error } = await supabase
+    .from("task_test_runs")
+    .select("id, task_id, passed, total, created_at")
+    .in("task_id", taskIds)
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+
+  const latest: Record<string, TestEvidence> = {};
+  for (const row of data || []) {
+    if (latest[row.task_id]) continue;
+    latest[row.task_id] = {
+      id: row.id,
+      taskId: row.task_id,
+      passed: row.passed,
+      total: row.total,
+      createdAt: new Date(row.created_at).getTime(),
+    };
+  }
+  return latest;
+}
+
+/**
+ * Store a passing run as evidence for a task. Only green runs are accepted.
+ */
+export async function recordTestRun(
+  taskId: string,
+  submissionId: string,
+  summary: TestRunSummary
+): Promise<TestEvidence> {
+  if (!isPassingRun(summary)) throw new Error("Only a passing test run can be recorded as evidence");
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) throw new Error("Sign in to record test evidence");
+
+  const { data, error } = await supabase
+    .from("task_test_runs")
+    .insert({
+      task_id: taskId,
+      submission_id: submissionId,
+      passed: summary.passed,
+      failed: summary.failed,
+      skipped: summary.skipped,
+      total: summary.total,
+      duration_ms: summary.duration,
+      results: summary.files as unknown as Json,
+      recorded_by: user.id,
+    })
+    .select()
+    .single();
+  if (error || !data) throw error || new Error("Test run was not saved");
+
+  return {
+    id: data.id,
+    taskId: data.task_id,
+    passed: data.passed,
+    total: data.total,
+    createdAt: new Date(data.created_at).getTime(),
+  };
+}
@@ -0,0 +1,732 @@
+/**
+ * Test Runner
+ * Runs `*.test.*` / `*.spec.*` files from the IDE file system with a Jest/Vitest-compatible
+ * `describe`/`it`/`expect` API. Each file runs in its own sandboxed worker (see SandboxRunner);
+ * results are collected in one place so the Test panel and the `test` command share them.
+ */
+
+import { FileNode } from "./IDEFileSystem";
+import { BundledModule, bundleModules, OutputStream, runInSandbox, SandboxRun } from "./SandboxRunner";
+
+export type TestStatus = "passed" | "failed" | "skipped" | "todo";
+
+export interface TestCaseResult {
+  name: string;
+  /** Enclosing describe() names, outermost first */
+  ancestors: string[];
+  status: TestStatus;
+  duration: number;
+  error?: string;
+}
+
+export interface TestFileResult {
+  path: string;
+  tests: TestCaseResult[];
+  /** Set when the file failed to compile or load, or the run was stopped */
+  error?: string;
+  duration: number;
+}
+
+export interface TestRunSummary {
+  files: TestFileResult[];
+  passed: number;
+  failed: number;
+  skipped: number;
+  total: number;
+  duration: number;
+  finishedAt: number;
+}
+
+export interface TestRunState {
+  running: boolean;
+  /** File currently running */
+  currentFile: string | null;
+  summary: TestRunSummary | null;
+}
+
+const TEST_FILE_PATTERN = /\.(test|spec)\.(ts|tsx|mts|cts|js|jsx|mjs|cjs)$/;
+
+// Test files can take longer than a plain `run`, but a hung suite must still stop
+const FILE_TIMEOUT_MS = 30_000;
+
+const RUNTIME_PATH = "/@test/runtime.js";
+const MAIN_PATH = "/@test/main.js";
+
+// Packages whose test API is provided by the runtime
+const TEST_PACKAGES = ["vitest", "@jest/globals"];
+
+export function isTestFile(path: string): boolean {
+  return TEST_FILE_PATTERN.test(path);
+}
+
+/**
+ * Test files in the project, optionally narrowed to an exact path or a path fragment
+ */
+export function findTestFiles(files: Record<string, FileNode>, filter?: string): string[] {
+  return Object.values(files)
+    .filter((node) => node.type === "file" && isTestFile(node.path))
+    .map((node) => node.path)
+    .filter((path) => !filter || path === filter || path.includes(filter))
+    .sort();
+}
+
+// Runs inside the sandbox worker as an internal module, so it can post results via __report
+const RUNTIME_SOURCE = `
+"use strict";
+const DEFAULT_TIMEOUT = 5000;
+
+const newSuite = (name, parent, mode) => ({
+  type: "suite", name, parent, mode, children: [], beforeAll: [], afterAll: [], beforeEach: [], afterEach: [],
+});
+const root = newSuite("", null, "run");
+let current = root;
+let hasOnly = false;
+
+const fmt = (value) => {
+  if (typeof value === "string") return JSON.stringify(value);
+  if (typeof value === "function") return "[Function " + (value.name || "anonymous") + "]";
+  if (typeof value === "bigint") return value + "n";
+  if (value instanceof Error) return value.name + ": " + value.message;
+  if (value && typeof value.asymmetricMatch === "function") return String(value);
+  if (value instanceof Map) return "Map " + fmt([...value]);
+  if (value instanceof Set) return "Set " + fmt([...value]);
+  if (typeof value === "object" && value !== null) {
+    try {
+      return JSON.stringify(value, (k, v) => (v === undefined ? "__undefined__" : typeof v === "bigint" ? v + "n" : v))
+        .replace(/"__undefined__"/g, "undefined");
+    } catch (e) {
+      return String(value);
+    }
+  }
+  return String(value);
+};
+
+class AssertionError extends Error {}
+AssertionError.prototype.name = "AssertionError";
+
+// ---- Collection ----
+
+const addTest = (mode) => (name, fn, timeout) => {
+  if (mode === "only") hasOnly = true;
+  current.children.push({ type: "test", name: String(name), fn, timeout, mode, parent: current });
+};
+
+const addSuite = (mode) => (name, fn) => {
+  if (mode === "only") hasOnly = true;
+  const suite = newSuite(String(name), current, mode);
+  current.children.push(suite);
+  const parent = current;
+  current = suite;
+  try {
+    if (typeof fn === "function") fn();
+  } finally {
+    current = parent;
+  }
+};
+
+// test.each([[1, 2, 3]])("adds %i + %i", (a, b, sum) => ...)
+const withEach = (register) => (table) => (name, fn, timeout) => {
+  table.forEach((row, index) => {
+    const args = Array.isArray(row) ? row : [row];
+    let i = 0;
+    const title = String(name).replace(/%[sdifjop#%]/g, (token) => {
+      if (token === "%%") return "%";
+      if (token === "%#") return String(index);
+      const arg = args[i++];
+      return token === "%s" || token === "%d" || token === "%i" || token === "%f" ? String(arg) : fmt(arg);
+    });
+    register(title, () => fn(...args), timeout);
+  });
+};
+
+const makeTest = () => {
+  const test = addTest("run");
+  test.only = addTest("only");
+  test.skip = addTest("skip");
+  test.todo = (name) => addTest("todo")(name, () => undefined);
+  test.each = withEach(test);
+  test.only.each = withEach(test.only);
+  test.skip.each = withEach(test.skip);
+  return test;
+};
+
+const describe = addSuite("run");
+describe.only = addSuite("only");
+describe.skip = addSuite("skip");
+describe.each = withEach(describe);
+
+const test = makeTest();
+const hook = (kind) => (fn) => current[kind].push(fn);
+
+// ---- Matching ----
+
+const isAsymmetric = (value) => !!value && typeof value.asymmetricMatch === "function";
+
+const equals = (a, b, strict, seen = []) => {
+  if (isAsymmetric(b)) return b.asymmetricMatch(a);
+  if (Object.is(a, b)) return true;
+  if (typeof a !== "object" || typeof b !== "object" || !a || !b) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  if (strict && Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false;
+  if (a instanceof Date || b instanceof Date) return a instanceof Date && b instanceof Date && a.getTime() === b.getTime();
+  if (a instanceof RegExp || b instanceof RegExp) return String(a) === String(b);
+  if (a instanceof Map) {
+    return b instanceof Map && a.size === b.size && [...a].every(([k, v]) => b.has(k) && equals(v, b.get(k), strict, seen));
+  }
+  if (a instanceof Set) {
+    return b instanceof Set && a.size === b.size && [...a].every((v) => b.has(v) || [...b].some((w) => equals(v, w, strict, seen)));
+  }
+  if (seen.some(([x, y]) => x === a && y === b)) return true;
+  const nextSeen = seen.concat([[a, b]]);
+  if (Array.isArray(a) && a.length !== b.length) return false;
+  // toEqual ignores properties that are undefined; toStrictEqual does not
+  const keys = (o) => Object.keys(o).filter((k) => strict || o[k] !== undefined);
+  const ka = keys(a);
+  const kb = keys(b);
+  if (ka.length !== kb.length) return false;
+  return ka.every((k) => Object.prototype.hasOwnProperty.call(b, k) && equals(a[k], b[k], strict, nextSeen));
+};
+
+const matchesObject = (actual, expected) => {
+  if (isAsymmetric(expected)) return expected.asymmetricMatch(actual);
+  if (Array.isArray(expected)) {
+    return Array.isArray(actual) && actual.length === expected.length && expected.every((v, i) => matchesObject(actual[i], v));
+  }
+  if (expected && typeof expected === "object" && Object.getPrototypeOf(expected) === Object.prototype) {
+    return !!actual && typeof actual === "object" &&
+      Object.keys(expected).every((k) => k in actual && matchesObject(actual[k], expected[k]));
+  }
+  return equals(actual, expected, false);
+};
+
+const asymmetric = (description, match) => ({ asymmetricMatch: match, toString: () => description });
+
+const isMock = (value) => typeof value === "function" && value._isMockFunction === true;
+const requireMock = (value) => {
+  if (!isMock(value)) throw new AssertionError("Expected a mock function (vi.fn() / jest.fn()), received " + fmt(value));
+  return value.mock;
+};
+
+const thrownBy = (actual, fromPromise) => {
+  if (fromPromise) return { threw: true, error: actual };
+  if (typeof actual !== "function") throw new AssertionError("toThrow() expects a function, received " + fmt(actual));
+  try {
+    actual();
+    return { threw: false };
+  } catch (error) {
+    return { threw: true, error };
+  }
+};
+
+const matchesThrown = (error, expected) => {
+  if (expected === undefined) return true;
+  const message = error && error.message !== undefined ? String(error.message) : String(error);
+  if (typeof expected === "string") return message.includes(expected);
+  if (expected instanceof RegExp) return expected.test(message);
+  if (typeof expected === "function") return error instanceof expected;
+  if (expected instanceof Error) return message === expected.message;
+  return equals(error, expected, false);
+};
+
+const getProperty = (object, path) => {
+  const keys = Array.isArray(path) ? path : String(path).replace(/\\[(\\w+)\\]/g, ".$1").split(".");
+  let value = object;
+  for (const key of keys) {
+    if (value === null || value === undefined || !(Object(value) instanceof Object) || !(key in Object(value))) {
+      return { found: false };
+    }
+    value = value[key];
+  }
+  return { found: true, value };
+};
+
+// Each matcher returns [pass, message]; "not " is passed in when the assertion is negated
+const MATCHERS = {
+  toBe: (a, e) => [Object.is(a, e), (not) => "Expected " + fmt(a) + " " + not + "to be " + fmt(e)],
+  toEqual: (a, e) => [equals(a, e, false), (not) => "Expected " + fmt(a) + " " + not + "to equal " + fmt(e)],
+  toStrictEqual: (a, e) => [equals(a, e, true), (not) => "Expected " + fmt(a) + " " + not + "to strictly equal " + fmt(e)],
+  toBeTruthy: (a) => [!!a, (not) => "Expected " + fmt(a) + " " + not + "to be truthy"],
+  toBeFalsy: (a) => [!a, (not) => "Expected " + fmt(a) + " " + not + "to be falsy"],
+  toBeNull: (a) => [a === null, (not) => "Expected " + fmt(a) + " " + not + "to be null"],
+  toBeUndefined: (a) => [a === undefined, (not) => "Expected " + fmt(a) + " " + not + "to be undefined"],
+  toBeDefined: (a) => [a !== undefined, (not) => "Expected " + fmt(a) + " " + not + "to be defined"],
+  toBeNaN: (a) => [Number.isNaN(a), (not) => "Expected " + fmt(a) + " " + not + "to be NaN"],
+  toBeTypeOf: (a, type) => [typeof a === type, (not) => "Expected " + fmt(a) + " " + not + "to be of type " + type],
+  toBeInstanceOf: (a, C) => [a instanceof C, (not) => "Expected " + fmt(a) + " " + not + "to be an instance of " + (C && C.name)],
+  toBeGreaterThan: (a, n) => [a > n, (not) => "Expected " + fmt(a) + " " + not + "to be > " + fmt(n)],
+  toBeGreaterThanOrEqual: (a, n) => [a >= n, (not) => "Expected " + fmt(a) + " " + not + "to be >= " + fmt(n)],
+  toBeLessThan: (a, n) => [a < n, (not) => "Expected " + fmt(a) + " " + not + "to be < " + fmt(n)],
+  toBeLessThanOrEqual: (a, n) => [a <= n, (not) => "Expected " + fmt(a) + " " + not + "to be <= " + fmt(n)],
+  toBeCloseTo: (a, n, digits = 2) => [
+    Math.abs(n - a) < Math.pow(10, -digits) / 2,
+    (not) => "Expected " + fmt(a) + " " + not + "to be close to " + fmt(n) + " (" + digits + " digits)",
+  ],
+  toContain: (a, item) => [
+    typeof a === "string" ? a.includes(String(item)) : !!a && [...a].includes(item),
+    (not) => "Expected " + fmt(a) + " " + not + "to contain " + fmt(item),
+  ],
+  toContainEqual: (a, item) => [
+    !!a && [...a].some((v) => equals(v, item, false)),
+    (not) => "Expected " + fmt(a) + " " + not + "to contain an item equal to " + fmt(item),
+  ],
+  toHaveLength: (a, n) => [
+    !!a && a.length === n,
+    (not) => "Expected length " + (a ? a.length : fmt(a)) + " " + not + "to be " + n,
+  ],
+  toHaveProperty: (a, path, ...value) => {
+    const { found, value: actual } = getProperty(a, path);
+    const pass = found && (value.length === 0 || equals(actual, value[0], false));
+    const suffix = value.length ? " with value " + fmt(value[0]) + (found ? " (received " + fmt(actual) + ")" : "") : "";
+    return [pass, (not) => "Expected " + fmt(a) + " " + not + "to have property " + fmt(path) + suffix];
+  },
+  toMatch: (a, pattern) => [
+    typeof a === "string" && (typeof pattern === "string" ? a.includes(pattern) : pattern.test(a)),
+    (not) => "Expected " + fmt(a) + " " + not + "to match " + (typeof pattern === "string" ? fmt(pattern) : String(pattern)),
+  ],
+  toMatchObject: (a, e) => [matchesObject(a, e), (not) => "Expected " + fmt(a) + " " + not + "to match object " + fmt(e)],
+  toThrow: (a, expected, fromPromise) => {
+    const { threw, error } = thrownBy(a, fromPromise);
+    const pass = threw && matchesThrown(error, expected);
+    const what = expected === undefined ? "" : " " + (typeof expected === "function" ? expected.name : fmt(expected));
+    const got = threw ? " (threw " + fmt(error) + ")" : "";
+    return [pass, (not) => "Expected function " + not + "to throw" + what + got];
+  },
+  toHaveBeenCalled: (a) => {
+    const calls = requireMock(a).calls.length;
+    return [calls > 0, (not) => "Expected mock " + not + "to have been called (called " + calls + " times)"];
+  },
+  toHaveBeenCalledTimes: (a, n) => {
+    const calls = requireMock(a).calls.length;
+    return [calls === n, (not) => "Expected mock " + not + "to have been called " + n + " times (called " + calls + " times)"];
+  },
+  toHaveBeenCalledWith: (a, ...args) => {
+    const { calls } = requireMock(a);
+    return [
+      calls.some((call) => equals(call, args, false)),
+      (not) => "Expected mock " + not + "to have been called with " + fmt(args) + " (calls: " + fmt(calls) + ")",
+    ];
+  },
+  toHaveBeenLastCalledWith: (a, ...args) => {
+    const { calls } = requireMock(a);
+    const last = calls[calls.length - 1];
+    return [
+      !!last && equals(last, args, false),
+      (not) => "Expected last call " + not + "to be with " + fmt(args) + " (last call: " + fmt(last) + ")",
+    ];
+  },
+  toHaveReturnedWith: (a, value) => {
+    const { results } = requireMock(a);
+    return [
+      results.some((r) => r.type === "return" && equals(r.value, value, false)),
+      (not) => "Expected mock " + not + "to have returned " + fmt(value),
+    ];
+  },
+};
+MATCHERS.toThrowError = MATCHERS.toThrow;
+MATCHERS.toBeCalled = MATCHERS.toHaveBeenCalled;
+MATCHERS.toBeCalledTimes = MATCHERS.toHaveBeenCalledTimes;
+MATCHERS.toBeCalledWith = MATCHERS.toHaveBeenCalledWith;
+
+const THROW_MATCHERS = ["toThrow", "toThrowError"];
+
+const check = (name, actual, negated, args, fromPromise) => {
+  const input = THROW_MATCHERS.includes(name) ? [args[0], fromPromise] : args;
+  const [pass, message] = MATCHERS[name](actual, ...input);
+  if (pass === negated) throw new AssertionError(message(negated ? "not " : ""));
+};
+
+const matchers = (actual, negated) => {
+  const out = {};
+  Object.keys(MATCHERS).forEach((name) => {
+    out[name] = (...args) => check(name, actual, negated, args, false);
+  });
+  return out;
+};
+
+// expect(promise).resolves / .rejects: the same matchers, applied to the settled value
+const promiseMatchers = (actual, kind) => {
+  const settle = () => Promise.resolve(typeof actual === "function" ? actual() : actual).then(
+    (value) => {
+      if (kind === "rejects") throw new AssertionError("Expected the promise to reject, but it resolved with " + fmt(value));
+      return value;
+    },
+    (reason) => {
+      if (kind === "resolves") throw new AssertionError("Expected the promise to resolve, but it rejected with " + fmt(reason));
+      return reason;
+    }
+  );
+  const build = (negated) => {
+    const out = {};
+    Object.keys(MATCHERS).forEach((name) => {
+      out[name] = (...args) => settle().then((value) => check(name, value, negated, args, kind === "rejects"));
+    });
+    return out;
+  };
+  const api = build(false);
+  api.not = build(true);
+  return api;
+};
+
+const expect = (actual) => {
+  const api = matchers(actual, false);
+  api.not = matchers(actual, true);
+  api.resolves = promiseMatchers(actual, "resolves");
+  api.rejects = promiseMatchers(actual, "rejects");
+  return api;
+};
+expect.any = (C) => asymmetric("Any<" + (C && C.name) + ">", (v) => v !== null && v !== undefined && Object(v) instanceof C);
+expect.anything = () => asymmetric("Anything", (v) => v !== null && v !== undefined);
+expect.stringContaining = (s) => asymmetric("StringContaining " + fmt(s), (v) => typeof v === "string" && v.includes(s));
+expect.stringMatching = (re) => asymmetric("StringMatching " + String(re), (v) => typeof v === "string" && new RegExp(re).test(v));
+expect.objectContaining = (o) => asymmetric("ObjectContaining " + fmt(o), (v) => matchesObject(v, o));
+expect.arrayContaining = (arr) => asymmetric("ArrayContaining " + fmt(arr), (v) =>
+  Array.isArray(v) && arr.every((item) => v.some((x) => equals(x, item, false))));
+
+// ---- Mocks ----
+
+const mocks = [];
+
+const fn = (impl) => {
+  let implementation = impl;
+  const once = [];
+  const mock = function (...args) {
+    mock.mock.calls.push(args);
+    mock.mock.instances.push(this);
+    const f = once.length ? once.shift() : implementation;
+    try {
+      const value = f ? f.apply(this, args) : undefined;
+      mock.mock.results.push({ type: "return", value });
+      return value;
+    } catch (error) {
+      mock.mock.results.push({ type: "throw", value: error });
+      throw error;
+    }
+  };
+  mock._isMockFunction = true;
+  mock.mock = { calls: [], results: [], instances: [] };
+  mock.mockImplementation = (f) => ((implementation = f), mock);
+  mock.mockImplementationOnce = (f) => (once.push(f), mock);
+  mock.mockReturnValue = (v) => mock.mockImplementation(() => v);
+  mock.mockReturnValueOnce = (v) => mock.mockImplementationOnce(() => v);
+  mock.mockResolvedValue = (v) => mock.mockImplementation(() => Promise.resolve(v));
+  mock.mockRejectedValue = (v) => mock.mockImplementation(() => Promise.reject(v));
+  mock.mockClear = () => {
+    mock.mock = { calls: [], results: [], instances: [] };
+    return mock;
+  };
+  mock.mockReset = () => {
+    once.length = 0;
+    implementation = undefined;
+    return mock.mockClear();
+  };
+  mock.mockRestore = () => mock.mockReset();
+  mocks.push(mock);
+  return mock;
+};
+
+const spyOn = (object, method) => {
+  const original = object[method];
+  const spy = fn(function (...args) {
+    return original.apply(this, args);
+  });
+  spy.mockRestore = () => {
+    object[method] = original;
+    return spy;
+  };
+  object[method] = spy;
+  return spy;
+};
+
+const mockApi = {
+  fn,
+  spyOn,
+  isMockFunction: isMock,
+  clearAllMocks: () => mocks.forEach((m) => m.mockClear()),
+  resetAllMocks: () => mocks.forEach((m) => m.mockReset()),
+  restoreAllMocks: () => mocks.forEach((m) => m.mockRestore()),
+};
+
+// ---- Running ----
+
+const results = [];
+
+const callWithTimeout = (callback, timeout) => new Promise((resolve, reject) => {
+  let finished = false;
+  const timer = setTimeout(() => settle(new Error("Exceeded timeout of " + timeout + " ms")), timeout);
+  function settle(error) {
+    if (finished) return;
+    finished = true;
+    clearTimeout(timer);
+    if (error) reject(error);
+    else resolve();
+  }
+  try {
+    if (callback.length > 0) {
+      // Callback style: it("...", (done) => ...)
+      callback((err) => settle(err ? (err instanceof Error ? err : new Error(String(err))) : null));
+    } else {
+      Promise.resolve(callback()).then(() => settle(null), (err) => settle(err || new Error("Promise rejected")));
+    }
+  } catch (err) {
+    settle(err || new Error("Test threw " + fmt(err)));
+  }
+});
+
+// Message plus the stack frames that point into project files (not the runtime or the worker)
+const errorMessage = (error) => {
+  if (error instanceof AssertionError) return error.message;
+  if (!(error instanceof Error)) return "Thrown: " + fmt(error);
+  const frames = String(error.stack || "").split("\\n")
+    .filter((line) => /[( @]\\/(?!@test\\/)[^:()]+:\\d+/.test(line))
+    .map((line) => "  " + line.trim());
+  return [error.name + ": " + error.message, ...frames].join("\\n");
+};
+
+const ancestors = (node) => {
+  const names = [];
+  for (let s = node.parent; s && s.parent; s = s.parent) names.unshift(s.name);
+  return names;
+};
+
+const effectiveMode = (node) => {
+  let only = false;
+  for (let n = node; n; n = n.parent) {
+    if (n.mode === "skip" || n.mode === "todo") return n.mode;
+    if (n.mode === "only") only = true;
+  }
+  return hasOnly && !only ? "skip" : "run";
+};
+
+const tests = (suite) => suite.children.flatMap((c) => (c.type === "test" ? [c] : tests(c)));
+
+const record = (test, status, duration, error) => {
+  results.push({ name: test.name, ancestors: ancestors(test), status, duration,
+    error: error === undefined ? undefined : errorMessage(error) });
+};
+
+const hookChain = (suite, kind) => {
+  const chain = [];
+  for (let s = suite; s; s = s.parent) chain.unshift(...s[kind]);
+  return chain;
+};
+
+const runTest = async (test) => {
+  const mode = effectiveMode(test);
+  if (mode !== "run") {
+    record(test, mode === "todo" ? "todo" : "skipped", 0);
+    return;
+  }
+  const start = Date.now();
+  let error;
+  try {
+    for (const h of hookChain(test.parent, "beforeEach")) await callWithTimeout(h, DEFAULT_TIMEOUT);
+    await callWithTimeout(test.fn, test.timeout || DEFAULT_TIMEOUT);
+  } catch (err) {
+    error = err;
+  }
+  for (const h of hookChain(test.parent, "afterEach").reverse()) {
+    try {
+      await callWithTimeout(h, DEFAULT_TIMEOUT);
+    } catch (err) {
+      if (error === undefined) error = err;
+    }
+  }
+  record(test, error === undefined ? "passed" : "failed", Date.now() - start, error);
+};
+
+const runSuite = async (suite) => {
+  const runnable = tests(suite).some((t) => effectiveMode(t) === "run");
+  if (runnable) {
+    try {
+      for (const h of suite.beforeAll) await callWithTimeout(h, DEFAULT_TIMEOUT);
+    } catch (err) {
+      // A failed setup fails every test it guards
+      tests(suite).forEach((t) => (effectiveMode(t) === "run" ? record(t, "failed", 0, err) : record(t, "skipped", 0)));
+      return;
+    }
+  }
+  for (const child of suite.children) {
+    if (child.type === "test") await runTest(child);
+    else await runSuite(child);
+  }
+  if (runnable) {
+    for (const h of suite.afterAll) {
+      try {
+        await callWithTimeout(h, DEFAULT_TIMEOUT);
+      } catch (err) {
+        results.push({ name: "afterAll", ancestors: ancestors({ parent: suite }).concat(suite.name ? [suite.name] : []),
+          status: "failed", duration: 0, error: errorMessage(err) });
+      }
+    }
+  }
+};
+
+// Started once by the entry module; a test file reaching it through require("vitest") cannot rerun it
+let started = false;
+const run = async (load) => {
+  if (started) throw new Error("Tests are already running");
+  started = true;
+  try {
+    load();
+  } catch (err) {
+    __report({ tests: [], error: errorMessage(err) });
+    process.exit(1);
+  }
+  await runSuite(root);
+  __report({ tests: results });
+  process.exit(results.some((r) => r.status === "failed") ? 1 : 0);
+};
+
+const api = {
+  describe, suite: describe, test, it: test, expect,
+  beforeAll: hook("beforeAll"), afterAll: hook("afterAll"), beforeEach: hook("beforeEach"), afterEach: hook("afterEach"),
+  vi: mockApi, jest: mockApi,
+};
+module.exports = Object.assign({ __run: run }, api);
+`;
+
+/**
+ * The test file plus its imports, with the runtime wired in: `vitest` and `@jest/globals`
+ * imports resolve to it, and its API is also installed as globals, as Jest does.
+ */
+const bundleTestFile = (files: Record<string, FileNode>, path: string): Record<string, BundledModule> => {
+  const modules = bundleModules(files, path);
+  for (const mod of Object.values(modules)) {
+    for (const pkg of TEST_PACKAGES) {
+      if (mod.code.includes(`require('${pkg}')`) || mod.code.includes(`require("${pkg}")`)) mod.deps[pkg] = RUNTIME_PATH;
+    }
+  }
+
+  modules[RUNTIME_PATH] = { code: RUNTIME_SOURCE, deps: {}, internal: true };
+  modules[MAIN_PATH] = {
+    code: [
+      `const runtime = require(${JSON.stringify(RUNTIME_PATH)});`,
+      `Object.keys(runtime).forEach((name) => { if (name !== "__run") globalThis[name] = runtime[name]; });`,
+      `runtime.__run(() => require(${JSON.stringify(path)}));`,
+    ].join("\n"),
+    deps: { [RUNTIME_PATH]: RUNTIME_PATH, [path]: path },
+  };
+  return modules;
+};
+
+type StateListener = (state: TestRunState) => void;
+
+class TestRunnerService {
+  private state: TestRunState = { running: false, currentFile: null, summary: null };
+  private listeners = new Set<StateListener>();
+  private current: SandboxRun | null = null;
+  private cancelled = false;
+
+  getState(): TestRunState {
+    return this.state;
+  }
+
+  subscribe(listener: StateListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private setState(patch: Partial<TestRunState>) {
+    this.state = { ...this.state, ...patch };
+    this.listeners.forEach((listener) => listener(this.state));
+  }
+
+  private async runFile(
+    files: Record<string, FileNode>,
+    path: string,
+    onOutput: (stream: OutputStream, text: string) => void
+  ): Promise<TestFileResult> {
+    const start = Date.now();
+    let modules: Record<string, BundledModule>;
+    try {
+      modules = bundleTestFile(files, path);
+    } catch (err) {
+      return { path, tests: [], error: err instanceof Error ? err.message : String(err), duration: 0 };
+    }
+
+    let report: { tests: TestCaseResult[]; error?: string } | null = null;
+    const output: string[] = [];
+    this.current = runInSandbox(files, MAIN_PATH, {
+      modules,
+      timeoutMs: FILE_TIMEOUT_MS,
+      onOutput: (stream, text) => {
+        output.push(text);
+        onOutput(stream, text);
+      },
+      onReport: (data) => {
+        report = data as { tests: TestCaseResult[]; error?: string };
+      },
+    });
+    const result = await this.current.done;
+    this.current = null;
+
+    const duration = Date.now() - start;
+    if (report) return { path, tests: report.tests, error: report.error, duration };
+    // No report: the worker crashed, timed out or was cancelled; its last words explain why
+    const reason = result.reason === "cancelled" ? "Cancelled" : output[output.length - 1] || `Exited with code ${result.exitCode}`;
+    return { path, tests: [], error: reason, duration };
+  }
+
+  /**
+   * Run test files one after another. Console output from the tests goes to `onOutput`.
+   */
+  async run(
+    files: Record<string, FileNode>,
+    paths: string[],
+    onOutput: (stream: OutputStream, text: string) => void = () => undefined
+  ): Promise<TestRunSummary> {
+    if (this.state.running) throw new Error("A test run is already in progress");
+    this.cancelled = false;
+    this.setState({ running: true, currentFile: null });
+
+    const start = Date.now();
+    const results: TestFileResult[] = [];
+    try {
+      for (const path of paths) {
+        if (this.cancelled) break;
+        this.setState({ currentFile: path });
+        results.push(await this.runFile(files, path, onOutput));
+      }
+    } finally {
+      this.setState({ running: false, currentFile: null });
+    }
+
+    const all = results.flatMap((file) => file.tests);
+    const count = (status: TestStatus) => all.filter((t) => t.status === status).length;
+    const summary: TestRunSummary = {
+      files: results,
+      passed: count("passed"),
+      // A file that could not run counts as one failure
+      failed: count("failed") + results.filter((file) => file.error).length,
+      skipped: count("skipped") + count("todo"),
+      total: all.length,
+      duration: Date.now() - start,
+      finishedAt: Date.now(),
+    };
+    this.setState({ summary });
+    return summary;
+  }
+
+  cancel(): void {
+    this.cancelled = true;
+    this.current?.cancel();
+  }
+}
+
+export const testRunner = new TestRunnerService();
+
+/**
+ * A run qualifies as evidence when at least one test ran and nothing failed
+ */
+export function isPassingRun(summary: TestRunSummary | null): boolean {
+  return !!summary && summary.passed > 0 && summary.failed === 0;
+}
+
+/**
+ * Full test title including the describe() path: "math › add › handles negatives"
+ */
+export function formatTestName(test: TestCaseResult): string {
+  return [...test.ancestors, test.name].join(" › ");
+}
@@ -0,0 +1,253 @@
+/**
+ * TypeScript Project
+ * Mirrors the IDE file system into Monaco models so the TypeScript worker sees the whole
+ * project: imports between files resolve, go-to-definition and find-references work across
+ * files, and every file is type-checked, not just the one open in the editor.
+ */
+
+import type { Monaco } from "@monaco-editor/react";
+import type * as MonacoEditor from "monaco-editor";
+import { FileNode } from "./IDEFileSystem";
+import { detectLanguage } from "./LanguageRegistry";
+
+type CompilerOptions = MonacoEditor.typescript.CompilerOptions;
+type TypeScriptApi = typeof MonacoEditor.typescript;
+
+export interface Problem {
+  path: string;
+  line: number;
+  column: number;
+  message: string;
+  severity: "error" | "warning" | "info";
+  /** Diagnostic code, e.g. "2307" for TypeScript */
+  code?: string;
+  /** Language service that reported it ("typescript", "json", ...) */
+  source: string;
+}
+
+const CONFIG_FILES = ["/tsconfig.json", "/jsconfig.json"];
+const SHIMS_PATH = "file:///node_modules/@types/__ide_project_shims/index.d.ts";
+
+// Last content pushed into each model, so unchanged files skip the costly getValue() on every edit
+const synced = new Map<string, string>();
+
+/**
+ * `@monaco-editor/react` types its instance against the editor API only; the TypeScript
+ * language service lives in the top-level `typescript` namespace of the full bundle.
+ */
+const getTypeScript = (monaco: Monaco): TypeScriptApi => (monaco as unknown as typeof MonacoEditor).typescript;
+
+/**
+ * Parse JSON with comments and trailing commas, as tsconfig.json allows
+ */
+export function parseJsonc(text: string): unknown {
+  let out = "";
+  let inString = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      out += ch;
+      if (ch === "\\") {
+        out += text[++i] ?? "";
+      } else if (ch === '"') {
+        inString = false;
+      }
+    } else if (ch === '"') {
+      inString = true;
+      out += ch;
+    } else if (ch === "/" && text[i + 1] === "/") {
+      while (i < text.length && text[i] !== "\n") i++;
+      out += "\n";
+    } else if (ch === "/" && text[i + 1] === "*") {
+      i = text.indexOf("*/", i + 2);
+      if (i < 0) break;
+      i++;
+    } else {
+      out += ch;
+    }
+  }
+  return JSON.parse(out.replace(/,(\s*[}\]])/g, "$1"));
+}
+
+// Enum members are matched loosely: "es2020" -> ES2020, "react-jsx" -> ReactJSX
+const enumValue = (enumObject: object, value: unknown): number | undefined => {
+  if (typeof value !== "string") return undefined;
+  const wanted = value.replace(/[-_.]/g, "").toLowerCase();
+  const entry = Object.entries(enumObject).find(([key, v]) => typeof v === "number" && key.toLowerCase() === wanted);
+  return entry ? (entry[1] as number) : undefined;
+};
+
+const PASSTHROUGH_OPTIONS = [
+  "strict",
+  "noImplicitAny",
+  "strictNullChecks",
+  "strictFunctionTypes",
+  "noImplicitReturns",
+  "noImplicitThis",
+  "noUnusedLocals",
+  "noUnusedParameters",
+  "noFallthroughCasesInSwitch",
+  "allowJs",
+  "checkJs",
+  "esModuleInterop",
+  "allowSyntheticDefaultImports",
+  "experimentalDecorators",
+  "resolveJsonModule",
+  "isolatedModules",
+  "paths",
+];
+
+/**
+ * Compiler options for the project: sensible defaults for a React + TypeScript project,
+ * overridden by `compilerOptions` from tsconfig.json/jsconfig.json when present
+ */
+export function getCompilerOptions(monaco: Monaco, files: Record<string, FileNode>): CompilerOptions {
+  const ts = getTypeScript(monaco);
+  const options: CompilerOptions = {
+    target: ts.ScriptTarget.ESNext,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.NodeJs,
+    jsx: ts.JsxEmit.ReactJSX,
+    allowJs: true,
+    esModuleInterop: true,
+    allowSyntheticDefaultImports: true,
+  };
+
+  const configPath = CONFIG_FILES.find((p) => files[p]?.type === "file");
+  if (configPath) {
+    try {
+      const config = parseJsonc(files[configPath].content || "{}") as { compilerOptions?: Record<string, unknown> };
+      const raw = config.compilerOptions || {};
+
+      for (const key of PASSTHROUGH_OPTIONS) {
+        if (raw[key] !== undefined) options[key] = raw[key] as CompilerOptions[string];
+      }
+      options.target = enumValue(ts.ScriptTarget, raw.target) ?? options.target;
+      options.module = enumValue(ts.ModuleKind, raw.module) ?? options.module;
+      options.jsx = enumValue(ts.JsxEmit, raw.jsx) ?? options.jsx;
+      // Monaco's worker only knows classic and node resolution; everything modern maps to node
+      if (typeof raw.moduleResolution === "string" && raw.moduleResolution.toLowerCase() === "classic") {
+        options.moduleResolution = ts.ModuleResolutionKind.Classic;
+      }
+      if (Array.isArray(raw.lib)) {
+        options.lib = raw.lib.map((lib) => `lib.${String(lib).toLowerCase()}.d.ts`);
+      }
+      if (typeof raw.baseUrl === "string") {
+        options.baseUrl = monaco.Uri.file(`/${raw.baseUrl}`).toString();
+      }
+    } catch (err) {
+      console.warn(`Ignoring invalid ${configPath}:`, err);
+    }
+  }
+
+  // Models are created from IDE paths, some of which have no .ts/.js extension
+  options.allowNonTsExtensions = true;
+  return options;
+}
+
+/**
+ * Ambient declarations for packages listed in package.json. Their real typings are not
+ * available in the browser, so they are declared as untyped modules instead of failing with
+ * "Cannot find module".
+ */
+const buildShims = (files: Record<string, FileNode>): string => {
+  const packages = new Set(["react", "react-dom", "react/jsx-runtime", "react-dom/client", "vitest", "@jest/globals"]);
+  try {
+    const pkg = files["/package.json"]?.content;
+    if (pkg) {
+      const parsed = JSON.parse(pkg) as Record<string, Record<string, string> | undefined>;
+      Object.keys({ ...parsed.dependencies, ...parsed.devDependencies }).forEach((name) => packages.add(name));
+    }
+  } catch {
+    // Half-typed package.json; keep the defaults
+  }
+
+  return [
+    ...[...packages].flatMap((name) => [`declare module "${name}";`, `declare module "${name}/*";`]),
+    ...["css", "scss", "svg", "png", "jpg", "gif", "json"].map((ext) => `declare module "*.${ext}";`),
+    "declare namespace JSX { interface IntrinsicElements { [name: string]: any } }",
+    // Globals installed by the IDE test runner
+    ...["describe", "it", "test", "expect", "beforeAll", "afterAll", "beforeEach", "afterEach", "vi", "jest"].map(
+      (name) => `declare var ${name}: any;`
+    ),
+  ].join("\n");
+};
+
+/**
+ * Apply project-wide compiler options and package shims to the TypeScript and JavaScript services
+ */
+export function configureProject(monaco: Monaco, files: Record<string, FileNode>): void {
+  const ts = getTypeScript(monaco);
+  const options = getCompilerOptions(monaco, files);
+  const shims = buildShims(files);
+
+  for (const defaults of [ts.typescriptDefaults, ts.javascriptDefaults]) {
+    defaults.setCompilerOptions(options);
+    defaults.setDiagnosticsOptions({ noSemanticValidation: false, noSyntaxValidation: false });
+    // Let the worker see every model, not only the ones open in an editor
+    defaults.setEagerModelSync(true);
+    defaults.setExtraLibs([{ content: shims, filePath: SHIMS_PATH }]);
+  }
+}
+
+/**
+ * Create, update and dispose Monaco models so there is one per project file.
+ * Models open in an editor are left alone; the editor owns their content (including drafts).
+ */
+export function syncModels(monaco: Monaco, files: Record<string, FileNode>): void {
+  for (const node of Object.values(files)) {
+    if (node.type !== "file") continue;
+    const content = node.content || "";
+    const uri = monaco.Uri.file(node.path);
+    const model = monaco.editor.getModel(uri);
+    if (model && synced.get(node.path) === content) continue;
+
+    if (!model) {
+      monaco.editor.createModel(content, detectLanguage(node.path, content), uri);
+    } else if (!model.isAttachedToEditor() && model.getValue() !== content) {
+      model.setValue(content);
+    }
+    synced.set(node.path, content);
+  }
+
+  for (const model of monaco.editor.getModels()) {
+    const { scheme, path } = model.uri;
+    if (scheme === "file" && files[path]?.type !== "file" && !model.isAttachedToEditor()) {
+      model.dispose();
+      synced.delete(path);
+    }
+  }
+}
+
+/**
+ * Current diagnostics for all project files, errors first
+ */
+export function getProblems(monaco: Monaco): Problem[] {
+  const severity = (value: number): Problem["severity"] | null => {
+    if (value === monaco.MarkerSeverity.Error) return "error";
+    if (value === monaco.MarkerSeverity.Warning) return "warning";
+    if (value === monaco.MarkerSeverity.Info) return "info";
+    return null; // Hints are shown inline only
+  };
+  const rank = { error: 0, warning: 1, info: 2 };
+
+  const problems: Problem[] = [];
+  for (const marker of monaco.editor.getModelMarkers({})) {
+    const level = severity(marker.severity);
+    if (marker.resource.scheme !== "file" || !level) continue;
+    const code = typeof marker.code === "object" ? marker.code.value : marker.code;
+    problems.push({
+      path: marker.resource.path,
+      line: marker.startLineNumber,
+      column: marker.startColumn,
+      message: marker.message,
+      severity: level,
+      code,
+      source: marker.owner,
+    });
+  }
+
+  return problems.sort(
+    (a, b) => a.path.localeCompare(b.path) || rank[a.severity] - rank[b.severity] || a.line - b.line || a.column - b.column
+  );
+}
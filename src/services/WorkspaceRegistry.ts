@@ -0,0 +1,254 @@
+/**
+ * Workspace Registry
+ * Keeps track of the student's named IDE workspaces. Each workspace has its own file
+ * storage (see createStorageAdapter), sync state, cloned repositories, selected file,
+ * terminal directory and chat conversation; only the list itself is shared.
+ */
+
+import { createStorageAdapter, deleteStorage } from "./IDEStorage";
+import { fileSystem as legacyFileSystem, IDEFileSystem } from "./IDEFileSystem";
+import { getTemplate } from "./ProjectTemplates";
+
+export interface IDEWorkspaceInfo {
+  id: string;
+  name: string;
+  /** Project submission the workspace syncs with */
+  submissionId: string | null;
+  /** Project template the workspace was started from */
+  templateId: string | null;
+  createdAt: number;
+  updatedAt: number;
+  archived?: boolean;
+  selectedFile?: string | null;
+  cwd?: string;
+  conversationId?: string | null;
+}
+
+/** The workspace that owns the files stored before workspaces existed */
+export const DEFAULT_WORKSPACE_ID = "default";
+
+const STORAGE_KEY = "BODHIT_IDE_WORKSPACES";
+const ACTIVE_KEY = "BODHIT_IDE_ACTIVE_WORKSPACE";
+const SYNC_META_PREFIX = "BODHIT_IDE_SYNC_";
+
+// Only bump updatedAt on file changes once a minute, not on every keystroke
+const TOUCH_INTERVAL_MS = 60_000;
+
+const listeners = new Set<() => void>();
+const fileSystems = new Map<string, IDEFileSystem>();
+
+const createDefaultWorkspace = (): IDEWorkspaceInfo => ({
+  id: DEFAULT_WORKSPACE_ID,
+  name: "My Workspace",
+  submissionId: null,
+  templateId: null,
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+});
+
+const save = (items: IDEWorkspaceInfo[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+  listeners.forEach((cb) => cb());
+};
+
+export const WorkspaceRegistry = {
+  getAll(): IDEWorkspaceInfo[] {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      const items = raw ? (JSON.parse(raw) as IDEWorkspaceInfo[]) : [];
+      return items.length ? items : [createDefaultWorkspace()];
+    } catch (err) {
+      console.error("WorkspaceRegistry.getAll parse error", err);
+      return [createDefaultWorkspace()];
+    }
+  },
+
+  get(id: string): IDEWorkspaceInfo | undefined {
+    return this.getAll().find((w) => w.id === id);
+  },
+
+  /**
+   * The workspace last opened in the IDE (falls back to the first one that is not archived)
+   */
+  getActive(): IDEWorkspaceInfo {
+    const items = this.getAll();
+    const activeId = localStorage.getItem(ACTIVE_KEY);
+    return items.find((w) => w.id === activeId) || items.find((w) => !w.archived) || items[0];
+  },
+
+  setActive(id: string) {
+    localStorage.setItem(ACTIVE_KEY, id);
+    if (this.get(id)?.archived) this.update(id, { archived: false });
+    else listeners.forEach((cb) => cb());
+  },
+
+  subscribe(callback: () => void): () => void {
+    listeners.add(callback);
+    return () => {
+      listeners.delete(callback);
+    };
+  },
+
+  update(id: string, patch: Partial<Omit<IDEWorkspaceInfo, "id" | "createdAt">>): IDEWorkspaceInfo | undefined {
+    const items = this.getAll();
+    const index = items.findIndex((w) => w.id === id);
+    if (index === -1) return undefined;
+    items[index] = { ...items[index], ...patch };
+    save(items);
+    return items[index];
+  },
+
+  /**
+   * Create a workspace. With a template it starts from the template's files; otherwise it
+   * starts empty (submission workspaces are then filled by the first sync).
+   */
+  create(name: string, options: { submissionId?: string | null; templateId?: string | null } = {}): IDEWorkspaceInfo {
+    const workspace: IDEWorkspaceInfo = {
+      id: `ws-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      name: name.trim() || "Untitled workspace",
+      submissionId: options.submissionId ?? null,
+      templateId: options.templateId ?? null,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+      selectedFile: options.templateId ? "/README.md" : null,
+    };
+    save([...this.getAll(), workspace]);
+
+    const template = workspace.templateId ? getTemplate(workspace.templateId) : undefined;
+    if (template) {
+      const fs = this.getFileSystem(workspace.id);
+      fs.setTemplate(template);
+      fs.reset();
+    }
+    return workspace;
+  },
+
+  /**
+   * The workspace linked to a submission, creating one on first use. A student who synced
+   * the submission before workspaces existed keeps using the default workspace.
+   */
+  forSubmission(submissionId: string, name = "Project workspace"): IDEWorkspaceInfo {
+    const items = this.getAll();
+    const linked = items.find((w) => w.submissionId === submissionId);
+    if (linked) return linked;
+
+    const legacy = items.find((w) => w.id === DEFAULT_WORKSPACE_ID && !w.submissionId);
+    if (legacy && localStorage.getItem(`${SYNC_META_PREFIX}${submissionId}`)) {
+      return this.update(legacy.id, { submissionId })!;
+    }
+    return this.create(name, { submissionId });
+  },
+
+  /**
+   * Copy a workspace's files into a new, unlinked workspace
+   */
+  async duplicate(id: string): Promise<IDEWorkspaceInfo> {
+    const source = this.get(id);
+    if (!source) throw new Error(`Workspace not found: ${id}`);
+
+    const sourceOpen = fileSystems.has(id);
+    const sourceFs = this.getFileSystem(id);
+    await sourceFs.ready;
+    const copy = this.create(`${source.name} (copy)`);
+    this.update(copy.id, { templateId: source.templateId, selectedFile: source.selectedFile, cwd: source.cwd });
+
+    const fs = this.getFileSystem(copy.id);
+    await fs.ready;
+    fs.setTemplate(source.templateId ? getTemplate(source.templateId) || null : null);
+    fs.importFromJSON(sourceFs.exportToJSON(), { mode: "replace" });
+    await this.release(copy.id);
+    if (!sourceOpen) await this.release(id);
+    return this.get(copy.id)!;
+  },
+
+  archive(id: string, archived = true) {
+    this.update(id, { archived });
+  },
+
+  /**
+   * Delete a workspace with its stored files and sync state. The last workspace cannot be deleted.
+   * The default workspace's file system is the legacy singleton, which stays in use: it is
+   * emptied, in memory and in its (kept) database, rather than disposed.
+   */
+  async remove(id: string): Promise<void> {
+    const items = this.getAll();
+    const workspace = items.find((w) => w.id === id);
+    if (!workspace) return;
+    if (items.length === 1) throw new Error("Cannot delete the only workspace");
+
+    const fs = this.getFileSystem(id);
+    await fs.ready;
+    if (id === DEFAULT_WORKSPACE_ID) {
+      await fs.clear();
+    } else {
+      await fs.clearStorage();
+      await this.release(id);
+      await deleteStorage(id);
+    }
+
+    if (id === DEFAULT_WORKSPACE_ID) {
+      if (workspace.submissionId) localStorage.removeItem(`${SYNC_META_PREFIX}${workspace.submissionId}`);
+    } else {
+      // Scoped keys (sync state, cloned repositories...) end with the workspace id
+      Object.keys(localStorage)
+        .filter((key) => key.endsWith(`_${id}`))
+        .forEach((key) => localStorage.removeItem(key));
+    }
+    if (localStorage.getItem(ACTIVE_KEY) === id) localStorage.removeItem(ACTIVE_KEY);
+    save(items.filter((w) => w.id !== id));
+  },
+
+  /**
+   * The workspace's file system, created on first use
+   */
+  getFileSystem(id: string): IDEFileSystem {
+    let fs = fileSystems.get(id);
+    if (fs) return fs;
+
+    fs = id === DEFAULT_WORKSPACE_ID ? legacyFileSystem : new IDEFileSystem(createStorageAdapter(id), {});
+    const templateId = this.get(id)?.templateId;
+    const template = templateId ? getTemplate(templateId) : undefined;
+    if (template && !fs.getTemplate()) fs.setTemplate(template);
+
+    let touchedAt = Date.now();
+    const workspaceFs = fs;
+    fs.subscribe(() => {
+      const workspace = this.get(id);
+      if (!workspace) return;
+      const currentTemplate = workspaceFs.getTemplate()?.id ?? workspace.templateId;
+      if (currentTemplate !== workspace.templateId || Date.now() - touchedAt > TOUCH_INTERVAL_MS) {
+        touchedAt = Date.now();
+        this.update(id, { templateId: currentTemplate, updatedAt: touchedAt });
+      }
+    });
+
+    fileSystems.set(id, fs);
+    return fs;
+  },
+
+  /**
+   * Save and dispose of the workspace's file system once nothing shows it; the next
+   * getFileSystem call loads a fresh one. The default workspace keeps the legacy singleton.
+   */
+  async release(id: string): Promise<void> {
+    const fs = fileSystems.get(id);
+    if (!fs || fs === legacyFileSystem) return;
+    fileSystems.delete(id);
+    await fs.dispose();
+  },
+
+  /**
+   * Key for the workspace's sync state; the default workspace keeps the pre-workspaces key
+   */
+  syncStateKey(workspace: IDEWorkspaceInfo): string | undefined {
+    if (!workspace.submissionId) return undefined;
+    return workspace.id === DEFAULT_WORKSPACE_ID ? workspace.submissionId : `${workspace.submissionId}_${workspace.id}`;
+  },
+
+  /**
+   * A localStorage key private to a workspace (the default workspace uses the key as is)
+   */
+  scopedKey(key: string, id: string = this.getActive().id): string {
+    return id === DEFAULT_WORKSPACE_ID ? key : `${key}_${id}`;
+  },
+};
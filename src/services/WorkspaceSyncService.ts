@@ -0,0 +1,346 @@
+/**
+ * Workspace Sync Service
+ * Syncs an IDEFileSystem with the Supabase `project_files` table so a
+ * student's workspace follows them across devices.
+ *
+ * Every remote row carries a `revision` that is bumped on each write. Locally we
+ * remember, per path, the revision we last synced and the local `updatedAt` at
+ * that moment. A file changed on both sides since then is reported as a
+ * conflict instead of being overwritten.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { FileNode, IDEFileSystem } from "./IDEFileSystem";
+
+export interface RemoteProjectFile {
+  path: string;
+  type: "file" | "folder";
+  content: string | null;
+  language: string | null;
+  revision: number;
+  deleted: boolean;
+  updatedAt: number;
+}
+
+export interface SyncConflict {
+  path: string;
+  local: FileNode | null;
+  remote: RemoteProjectFile;
+}
+
+export type SyncStatus = "idle" | "syncing" | "synced" | "conflict" | "error" | "offline";
+
+interface SyncBase {
+  revision: number;
+  localUpdatedAt: number;
+  deleted?: boolean;
+}
+
+interface PendingPush {
+  file: {
+    path: string;
+    type: "file" | "folder";
+    content: string | null;
+    language: string | null;
+    deleted: boolean;
+    base_revision: number | null;
+  };
+  // Local updatedAt of the version being sent; a later edit stays marked as modified
+  localUpdatedAt: number;
+}
+
+const SYNC_META_PREFIX = "BODHIT_IDE_SYNC_";
+// Files sent per `push_project_files` call
+const PUSH_BATCH_SIZE = 100;
+
+const mapRow = (row: Tables<"project_files">): RemoteProjectFile => ({
+  path: row.path,
+  type: row.type === "folder" ? "folder" : "file",
+  content: row.content,
+  language: row.language,
+  revision: row.revision,
+  deleted: !!row.deleted,
+  updatedAt: new Date(row.updated_at).getTime(),
+});
+
+const toFileNode = (remote: RemoteProjectFile): FileNode => ({
+  id: `remote-${remote.path}`,
+  path: remote.path,
+  name: remote.path.split("/").pop() || remote.path,
+  type: remote.type,
+  content: remote.type === "file" ? remote.content || "" : undefined,
+  children: remote.type === "folder" ? [] : undefined,
+  language: remote.language || undefined,
+  createdAt: remote.updatedAt,
+  updatedAt: remote.updatedAt,
+});
+
+/**
+ * Load a submission's synced workspace as a plain file map (used for read-only views)
+ */
+export async function fetchRemoteWorkspace(submissionId: string): Promise<Record<string, FileNode>> {
+  const { data, error } = await supabase
+    .from("project_files")
+    .select("*")
+    .eq("submission_id", submissionId)
+    .eq("deleted", false);
+
+  if (error) throw error;
+
+  const files: Record<string, FileNode> = {};
+  for (const row of data || []) {
+    const remote = mapRow(row);
+    files[remote.path] = toFileNode(remote);
+  }
+  return files;
+}
+
+export class WorkspaceSync {
+  private base: Record<string, SyncBase>;
+  private conflicts: Record<string, SyncConflict> = {};
+  private status: SyncStatus = "idle";
+  private lastError: string | null = null;
+  private listeners: Set<() => void> = new Set();
+  private running: Promise<void> | null = null;
+
+  /**
+   * `stateKey` names the locally stored sync state; it defaults to the submission id and
+   * must differ between local workspaces linked to the same submission
+   */
+  constructor(private fs: IDEFileSystem, private submissionId: string, private stateKey: string = submissionId) {
+    this.base = this.loadBase();
+  }
+
+  private get metaKey() {
+    return `${SYNC_META_PREFIX}${this.stateKey}`;
+  }
+
+  private loadBase(): Record<string, SyncBase> {
+    try {
+      const stored = localStorage.getItem(this.metaKey);
+      return stored ? JSON.parse(stored) : {};
+    } catch (err) {
+      console.warn("Failed to load sync state:", err);
+      return {};
+    }
+  }
+
+  private saveBase() {
+    try {
+      localStorage.setItem(this.metaKey, JSON.stringify(this.base));
+    } catch (err) {
+      console.error("Failed to save sync state:", err);
+    }
+  }
+
+  /**
+   * Subscribe to status/conflict changes
+   */
+  subscribe(callback: () => void) {
+    this.listeners.add(callback);
+    return () => this.listeners.delete(callback);
+  }
+
+  private setStatus(status: SyncStatus, error: string | null = null) {
+    this.status = status;
+    this.lastError = error;
+    this.listeners.forEach((cb) => cb());
+  }
+
+  getStatus(): SyncStatus {
+    return this.status;
+  }
+
+  getLastError(): string | null {
+    return this.lastError;
+  }
+
+  getConflicts(): SyncConflict[] {
+    return Object.values(this.conflicts);
+  }
+
+  /**
+   * Whether the local node changed since it was last synced
+   */
+  private isLocallyModified(path: string): boolean {
+    const base = this.base[path];
+    const local = this.fs.getFile(path);
+    if (!base) return !!local;
+    if (base.deleted) return !!local;
+    if (!local) return true;
+    return local.updatedAt > base.localUpdatedAt;
+  }
+
+  private recordBase(path: string, revision: number, deleted = false) {
+    const local = this.fs.getFile(path);
+    this.base[path] = { revision, localUpdatedAt: local?.updatedAt ?? 0, deleted };
+  }
+
+  private applyRemote(remote: RemoteProjectFile) {
+    if (remote.deleted) {
+      if (this.fs.getFile(remote.path)) {
+        this.fs.delete(remote.path, true, true);
+      }
+    } else {
+      // Keep the local revision history and lock; only the content comes from the remote row
+      const local = this.fs.getFile(remote.path);
+      this.fs.restoreFiles({ [remote.path]: { ...toFileNode(remote), history: local?.history, lock: local?.lock } });
+    }
+    this.recordBase(remote.path, remote.revision, remote.deleted);
+  }
+
+  /**
+   * Pull remote changes, then push local ones. Concurrent calls share one run.
+   */
+  sync(): Promise<void> {
+    if (!this.running) {
+      this.running = this.run().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async run() {
+    if (typeof navigator !== "undefined" && !navigator.onLine) {
+      this.setStatus("offline");
+      return;
+    }
+
+    this.setStatus("syncing");
+    try {
+      await this.fs.ready;
+      await this.pull();
+      await this.push();
+      this.saveBase();
+      this.setStatus(Object.keys(this.conflicts).length ? "conflict" : "synced");
+    } catch (err) {
+      console.error("Workspace sync failed:", err);
+      this.saveBase();
+      this.setStatus("error", (err as { message?: string })?.message || String(err));
+    }
+  }
+
+  /**
+   * Fetch remote rows and apply those that changed remotely but not locally
+   */
+  async pull(): Promise<void> {
+    const { data, error } = await supabase
+      .from("project_files")
+      .select("*")
+      .eq("submission_id", this.submissionId);
+
+    if (error) throw error;
+
+    // Shorter paths first so parent folders are applied before their children
+    const remoteFiles = (data || []).map(mapRow).sort((a, b) => a.path.length - b.path.length);
+
+    // A new, still empty workspace of a submission nobody synced yet starts from its template.
+    // Anything already local (unsynced work, or a seed whose push failed) is kept as it is.
+    const localEmpty = Object.values(this.fs.getAllFiles()).every((node) => node.type !== "file");
+    if (remoteFiles.length === 0 && localEmpty && this.fs.getTemplate()) {
+      this.fs.reset();
+      return;
+    }
+
+    for (const remote of remoteFiles) {
+      const base = this.base[remote.path];
+      if (base && base.revision >= remote.revision) continue;
+
+      const local = this.fs.getFile(remote.path);
+      const localModified = this.isLocallyModified(remote.path);
+
+      if (!localModified) {
+        this.applyRemote(remote);
+        continue;
+      }
+
+      // Both sides ended up identical: just adopt the remote revision
+      const sameContent =
+        (remote.deleted && !local) ||
+        (!remote.deleted && local && local.type === remote.type && (local.content || "") === (remote.content || ""));
+      if (sameContent) {
+        this.recordBase(remote.path, remote.revision, remote.deleted);
+        continue;
+      }
+
+      this.conflicts[remote.path] = { path: remote.path, local, remote };
+    }
+  }
+
+  /**
+   * Upload local changes in batches through the `push_project_files` RPC. Writes are
+   * conditional on the base revision so a concurrent edit from another device turns into
+   * a conflict. Progress is saved after every batch, so a failed push resumes where it stopped.
+   */
+  async push(): Promise<void> {
+    const paths = new Set([...Object.keys(this.fs.getAllFiles()), ...Object.keys(this.base)]);
+    const changes: PendingPush[] = [];
+
+    for (const path of paths) {
+      if (this.conflicts[path] || !this.isLocallyModified(path)) continue;
+
+      const local = this.fs.getFile(path);
+      const base = this.base[path];
+
+      if (!local && (!base || base.deleted)) continue;
+      // Lazily cloned files are pushed once their content has been fetched
+      if (local?.lazy) continue;
+
+      changes.push({
+        file: {
+          path,
+          type: local?.type ?? "file",
+          content: local?.type === "file" ? local.content || "" : null,
+          language: local?.language ?? null,
+          deleted: !local,
+          base_revision: base ? base.revision : null,
+        },
+        localUpdatedAt: local?.updatedAt ?? 0,
+      });
+    }
+
+    for (let i = 0; i < changes.length; i += PUSH_BATCH_SIZE) {
+      const batch = changes.slice(i, i + PUSH_BATCH_SIZE);
+      const { data, error } = await supabase.rpc("push_project_files", {
+        p_submission_id: this.submissionId,
+        p_files: batch.map((change) => change.file),
+      });
+
+      if (error) throw error;
+
+      // Paths missing from the result moved past our base remotely; the next pull surfaces them
+      const written = (data ?? {}) as Record<string, number>;
+      for (const { file, localUpdatedAt } of batch) {
+        const revision = written[file.path];
+        if (revision === undefined) continue;
+        this.base[file.path] = { revision, localUpdatedAt, deleted: file.deleted };
+      }
+      this.saveBase();
+    }
+  }
+
+  /**
+   * Resolve a conflict by keeping either the local or the remote version
+   */
+  resolveConflict(path: string, keep: "local" | "remote") {
+    const conflict = this.conflicts[path];
+    if (!conflict) return;
+
+    if (keep === "remote") {
+      this.applyRemote(conflict.remote);
+    } else {
+      // Adopt the remote revision as base but keep the local node marked as modified
+      this.base[path] = {
+        revision: conflict.remote.revision,
+        localUpdatedAt: -1,
+        deleted: conflict.remote.deleted,
+      };
+    }
+
+    delete this.conflicts[path];
+    this.saveBase();
+    this.setStatus(Object.keys(this.conflicts).length ? "conflict" : "idle");
+  }
+}
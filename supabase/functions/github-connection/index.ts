@@ -0,0 +1,196 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.89.0";
+
+// Keeps each user's GitHub token server-side: connects, re-checks and disconnects it, and
+// forwards the IDE's GitHub API requests with it so the browser never sees the token.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  // Octokit in the browser reads GitHub's rate limit and paging headers from proxied responses
+  "Access-Control-Expose-Headers":
+    "x-ratelimit-limit, x-ratelimit-remaining, x-ratelimit-reset, x-ratelimit-used, retry-after, x-oauth-scopes, link",
+};
+
+const GITHUB_API = "https://api.github.com";
+
+const FORWARDED_HEADERS = [
+  "content-type",
+  "x-ratelimit-limit",
+  "x-ratelimit-remaining",
+  "x-ratelimit-reset",
+  "x-ratelimit-used",
+  "retry-after",
+  "x-oauth-scopes",
+  "link",
+];
+
+// Columns the client may see (everything but the token)
+const PUBLIC_COLUMNS = "id, user_id, token_type, github_login, avatar_url, scopes, created_at, updated_at";
+
+type TokenType = "classic" | "fine-grained" | "oauth";
+
+// GitHub token prefixes: github_pat_ (fine-grained), gho_ (OAuth), ghp_ (classic)
+const tokenTypeOf = (token: string): TokenType => {
+  if (token.startsWith("github_pat_")) return "fine-grained";
+  if (token.startsWith("gho_")) return "oauth";
+  return "classic";
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const githubHeaders = (token: string, accept = "application/vnd.github+json") => ({
+  Authorization: `Bearer ${token}`,
+  Accept: accept,
+  "X-GitHub-Api-Version": "2022-11-28",
+  "User-Agent": "AMIT-BODHIT",
+});
+
+/**
+ * The account a token belongs to and its OAuth scopes, or null when GitHub rejects it
+ */
+async function describeToken(token: string) {
+  const response = await fetch(`${GITHUB_API}/user`, { headers: githubHeaders(token) });
+  if (response.status === 401) return null;
+  if (!response.ok) throw new Error(`GitHub returned ${response.status}`);
+
+  const user = await response.json();
+  const scopes = (response.headers.get("x-oauth-scopes") || "")
+    .split(",")
+    .map((scope) => scope.trim())
+    .filter(Boolean);
+  return { github_login: user.login as string, avatar_url: (user.avatar_url as string) || null, scopes };
+}
+
+/**
+ * Ask GitHub to revoke the token (credential revocation API; accepts personal access tokens
+ * and OAuth tokens without authentication). Returns whether GitHub accepted the request.
+ */
+async function revokeToken(token: string): Promise<boolean> {
+  try {
+    const response = await fetch(`${GITHUB_API}/credentials/revoke`, {
+      method: "POST",
+      headers: {
+        Accept: "application/vnd.github+json",
+        "Content-Type": "application/json",
+        "X-GitHub-Api-Version": "2022-11-28",
+        "User-Agent": "AMIT-BODHIT",
+      },
+      body: JSON.stringify({ credentials: [token] }),
+    });
+    return response.ok;
+  } catch (error) {
+    console.error("Token revocation failed:", error);
+    return false;
+  }
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      throw new Error("Supabase credentials not configured");
+    }
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+    const jwt = (req.headers.get("Authorization") || "").replace(/^Bearer\s+/i, "");
+    const {
+      data: { user },
+    } = await supabase.auth.getUser(jwt);
+
+    if (!user) {
+      return json({ error: "Sign in to use GitHub" }, 401);
+    }
+
+    const { action, ...params } = await req.json();
+
+    if (action === "connect") {
+      const token = String(params.token || "").trim();
+      const account = token ? await describeToken(token) : null;
+      if (!account) {
+        return json({ error: "GitHub rejected this token. It may be mistyped, expired or revoked." }, 400);
+      }
+
+      const { data, error } = await supabase
+        .from("github_connections")
+        .upsert({ user_id: user.id, token, token_type: tokenTypeOf(token), ...account }, { onConflict: "user_id" })
+        .select(PUBLIC_COLUMNS)
+        .single();
+      if (error) throw error;
+      return json({ connection: data });
+    }
+
+    const { data: stored, error: fetchError } = await supabase
+      .from("github_connections")
+      .select("token")
+      .eq("user_id", user.id)
+      .maybeSingle();
+    if (fetchError) throw fetchError;
+
+    if (!stored) {
+      return json({ error: "No GitHub account connected" }, 401);
+    }
+
+    if (action === "refresh") {
+      const account = await describeToken(stored.token);
+      if (!account) {
+        return json({ error: "GitHub rejected the stored token. It may have expired or been revoked; connect a new one." }, 400);
+      }
+
+      const { data, error } = await supabase
+        .from("github_connections")
+        .update(account)
+        .eq("user_id", user.id)
+        .select(PUBLIC_COLUMNS)
+        .single();
+      if (error) throw error;
+      return json({ connection: data });
+    }
+
+    if (action === "disconnect") {
+      const revoked = await revokeToken(stored.token);
+      const { error } = await supabase.from("github_connections").delete().eq("user_id", user.id);
+      if (error) throw error;
+      return json({ revoked });
+    }
+
+    if (action === "request") {
+      const url = new URL(String(params.url));
+      if (url.origin !== GITHUB_API) {
+        return json({ error: "Only GitHub API requests can be forwarded" }, 400);
+      }
+
+      const response = await fetch(url, {
+        method: String(params.method || "GET"),
+        headers: {
+          ...githubHeaders(stored.token, params.accept || undefined),
+          ...(params.body ? { "Content-Type": "application/json" } : {}),
+        },
+        body: params.body || undefined,
+      });
+
+      const headers = new Headers(corsHeaders);
+      for (const name of FORWARDED_HEADERS) {
+        const value = response.headers.get(name);
+        if (value) headers.set(name, value);
+      }
+      const empty = response.status === 204 || response.status === 304;
+      return new Response(empty ? null : response.body, { status: response.status, headers });
+    }
+
+    return json({ error: `Unknown action: ${action}` }, 400);
+  } catch (error) {
+    console.error("Error in github-connection:", error);
+    return json({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
@@ -0,0 +1,51 @@
+-- Create project_files table to sync IDE workspaces across devices
+-- One row per file/folder in a student's workspace, scoped to a project submission.
+-- Deletions are kept as tombstones (deleted = true) so other devices can pull them.
+CREATE TABLE IF NOT EXISTS public.project_files (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  submission_id uuid NOT NULL REFERENCES public.project_submissions(id) ON DELETE CASCADE,
+  path text NOT NULL,
+  type text NOT NULL DEFAULT 'file' CHECK (type IN ('file', 'folder')),
+  content text,
+  language text,
+  revision integer NOT NULL DEFAULT 1,
+  deleted boolean NOT NULL DEFAULT false,
+  updated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+  UNIQUE (submission_id, path)
+);
+
+-- Create index on submission_id for loading a workspace
+CREATE INDEX IF NOT EXISTS idx_project_files_submission_id ON public.project_files(submission_id);
+
+CREATE TRIGGER update_project_files_updated_at
+BEFORE UPDATE ON public.project_files
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE public.project_files ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Students can read and write files of their own submissions
+CREATE POLICY "Students manage own project files" ON public.project_files
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.project_submissions
+      WHERE id = project_files.submission_id
+        AND user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.project_submissions
+      WHERE id = project_files.submission_id
+        AND user_id = auth.uid()
+    )
+  );
+
+-- Policy: Mentors and admins can view all project files (read-only)
+CREATE POLICY "Mentors and admins view project files" ON public.project_files
+  FOR SELECT
+  USING (public.has_role(auth.uid(), 'mentor') OR public.has_role(auth.uid(), 'admin'));
@@ -0,0 +1,58 @@
+-- Create task_test_runs table to keep passing IDE test runs as evidence for a task
+-- One row per recorded run; the per-file results are stored as JSON for mentors to review.
+-- The tests run in the student's browser and the client submits the counts and results, so a
+-- row is self-reported and unverified: it is context for a review, not proof the task works.
+CREATE TABLE IF NOT EXISTS public.task_test_runs (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  task_id uuid NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  submission_id uuid NOT NULL REFERENCES public.project_submissions(id) ON DELETE CASCADE,
+  passed integer NOT NULL DEFAULT 0,
+  failed integer NOT NULL DEFAULT 0,
+  skipped integer NOT NULL DEFAULT 0,
+  total integer NOT NULL DEFAULT 0,
+  duration_ms integer NOT NULL DEFAULT 0,
+  results jsonb NOT NULL DEFAULT '[]'::jsonb,
+  recorded_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamp with time zone DEFAULT now()
+);
+
+-- Create index on task_id for listing a task's evidence
+CREATE INDEX IF NOT EXISTS idx_task_test_runs_task_id ON public.task_test_runs(task_id);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE public.task_test_runs ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Students can read evidence for tasks of their own submissions
+CREATE POLICY "Students view own task test runs" ON public.task_test_runs
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.project_submissions
+      WHERE id = task_test_runs.submission_id
+        AND user_id = auth.uid()
+    )
+  );
+
+-- Policy: Students can record passing runs against tasks of their own submissions.
+-- Runs are append-only: there are no update or delete policies. The passed/failed check
+-- only rejects runs the client itself reports as failing; it cannot verify the numbers.
+CREATE POLICY "Students record own task test runs" ON public.task_test_runs
+  FOR INSERT
+  WITH CHECK (
+    recorded_by = auth.uid()
+    AND failed = 0
+    AND passed > 0
+    AND EXISTS (
+      SELECT 1 FROM public.tasks
+      JOIN public.milestones ON milestones.id = tasks.milestone_id
+      JOIN public.project_submissions ON project_submissions.id = milestones.submission_id
+      WHERE tasks.id = task_test_runs.task_id
+        AND project_submissions.id = task_test_runs.submission_id
+        AND project_submissions.user_id = auth.uid()
+    )
+  );
+
+-- Policy: Mentors and admins can view all task test runs (read-only)
+CREATE POLICY "Mentors and admins view task test runs" ON public.task_test_runs
+  FOR SELECT
+  USING (public.has_role(auth.uid(), 'mentor') OR public.has_role(auth.uid(), 'admin'));
@@ -0,0 +1,43 @@
+-- Create file_locks table so mentors can lock files in a student's IDE workspace
+-- A lock makes a path (file or folder) read-only or hidden, optionally until a condition is met:
+-- {"type": "milestone", "milestoneId": ...}, {"type": "task", "taskId": ...} or {"type": "tests", "pattern": ...}
+CREATE TABLE IF NOT EXISTS public.file_locks (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  submission_id uuid NOT NULL REFERENCES public.project_submissions(id) ON DELETE CASCADE,
+  path text NOT NULL,
+  mode text NOT NULL DEFAULT 'readonly' CHECK (mode IN ('readonly', 'hidden')),
+  condition jsonb,
+  reason text,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+  UNIQUE (submission_id, path)
+);
+
+-- Create index on submission_id for loading a workspace's locks
+CREATE INDEX IF NOT EXISTS idx_file_locks_submission_id ON public.file_locks(submission_id);
+
+CREATE TRIGGER update_file_locks_updated_at
+BEFORE UPDATE ON public.file_locks
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE public.file_locks ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Students can read the locks on their own submissions
+CREATE POLICY "Students view own file locks" ON public.file_locks
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.project_submissions
+      WHERE id = file_locks.submission_id
+        AND user_id = auth.uid()
+    )
+  );
+
+-- Policy: Mentors and admins manage all file locks
+CREATE POLICY "Mentors and admins manage file locks" ON public.file_locks
+  FOR ALL
+  USING (public.has_role(auth.uid(), 'mentor') OR public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'mentor') OR public.has_role(auth.uid(), 'admin'));
@@ -0,0 +1,188 @@
+-- Create shareable, read-only snapshots of IDE workspaces
+-- File contents are stored once per SHA-256 hash in snapshot_blobs; a snapshot is a manifest
+-- ({"/path": {"type": "file", "hash": ..., "language": ...}}) identified by the hash of that
+-- manifest (root_hash). Snapshots never change after creation; only their expiry and
+-- revocation can be updated. Anyone with the share token can open a live snapshot.
+CREATE TABLE IF NOT EXISTS public.snapshot_blobs (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  hash text NOT NULL UNIQUE,
+  content text NOT NULL,
+  created_at timestamp with time zone DEFAULT now(),
+  -- The address must match the content, so a blob cannot be swapped for another
+  CONSTRAINT snapshot_blobs_hash_matches CHECK (hash = encode(sha256(convert_to(content, 'UTF8')), 'hex'))
+);
+
+CREATE TABLE IF NOT EXISTS public.workspace_snapshots (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  owner_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Local IDE workspace the snapshot was taken from; used to find the previous snapshot
+  workspace_key text NOT NULL,
+  workspace_name text NOT NULL,
+  submission_id uuid REFERENCES public.project_submissions(id) ON DELETE SET NULL,
+  title text NOT NULL,
+  root_hash text NOT NULL,
+  manifest jsonb NOT NULL,
+  previous_id uuid REFERENCES public.workspace_snapshots(id) ON DELETE SET NULL,
+  share_token text NOT NULL UNIQUE,
+  expires_at timestamp with time zone,
+  revoked_at timestamp with time zone,
+  created_at timestamp with time zone DEFAULT now()
+);
+
+-- Create index for listing a workspace's snapshots, newest first
+CREATE INDEX IF NOT EXISTS idx_workspace_snapshots_owner_workspace
+  ON public.workspace_snapshots(owner_id, workspace_key, created_at DESC);
+
+-- Snapshots are immutable: only expires_at and revoked_at may change
+CREATE OR REPLACE FUNCTION public.prevent_snapshot_content_update()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.owner_id IS DISTINCT FROM OLD.owner_id
+    OR NEW.workspace_key IS DISTINCT FROM OLD.workspace_key
+    OR NEW.workspace_name IS DISTINCT FROM OLD.workspace_name
+    OR NEW.submission_id IS DISTINCT FROM OLD.submission_id
+    OR NEW.title IS DISTINCT FROM OLD.title
+    OR NEW.root_hash IS DISTINCT FROM OLD.root_hash
+    OR NEW.manifest IS DISTINCT FROM OLD.manifest
+    OR NEW.previous_id IS DISTINCT FROM OLD.previous_id
+    OR NEW.share_token IS DISTINCT FROM OLD.share_token
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'Snapshots cannot be modified; only expiry and revocation can change';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_workspace_snapshot_content_update
+BEFORE UPDATE ON public.workspace_snapshots
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_snapshot_content_update();
+
+-- A snapshot can only follow an earlier snapshot of the same owner and workspace, so a link
+-- cannot be used to reach someone else's snapshot through previous_id
+CREATE OR REPLACE FUNCTION public.check_snapshot_previous()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.previous_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.workspace_snapshots
+    WHERE id = NEW.previous_id
+      AND owner_id = NEW.owner_id
+      AND workspace_key = NEW.workspace_key
+  ) THEN
+    RAISE EXCEPTION 'The previous snapshot must belong to the same owner and workspace';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_workspace_snapshot_previous
+BEFORE INSERT ON public.workspace_snapshots
+FOR EACH ROW
+EXECUTE FUNCTION public.check_snapshot_previous();
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE public.snapshot_blobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Signed-in users can add blobs. Blobs are only read through get_shared_snapshot.
+CREATE POLICY "Users add snapshot blobs" ON public.snapshot_blobs
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+-- Policy: Users can create, list and update (expire/revoke) their own snapshots
+CREATE POLICY "Users view own snapshots" ON public.workspace_snapshots
+  FOR SELECT
+  USING (owner_id = auth.uid());
+
+CREATE POLICY "Users create own snapshots" ON public.workspace_snapshots
+  FOR INSERT
+  WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Users update own snapshots" ON public.workspace_snapshots
+  FOR UPDATE
+  USING (owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid());
+
+-- Resolve a manifest to {"/path": {"type", "language", "content"}}
+CREATE OR REPLACE FUNCTION public.snapshot_files(p_manifest jsonb)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    jsonb_object_agg(
+      entry.key,
+      jsonb_build_object(
+        'type', entry.value->>'type',
+        'language', entry.value->>'language',
+        'content', blobs.content
+      )
+    ),
+    '{}'::jsonb
+  )
+  FROM jsonb_each(p_manifest) AS entry
+  LEFT JOIN public.snapshot_blobs AS blobs ON blobs.hash = entry.value->>'hash';
+$$;
+
+-- Open a shared snapshot by its token, with the previous snapshot of the same workspace for
+-- diffing (only while that one is still shared too). Returns NULL when the token is unknown,
+-- revoked or expired. Internal ids are not returned to link viewers.
+CREATE OR REPLACE FUNCTION public.get_shared_snapshot(p_token text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_snapshot public.workspace_snapshots;
+  v_previous public.workspace_snapshots;
+BEGIN
+  SELECT * INTO v_snapshot
+  FROM public.workspace_snapshots
+  WHERE share_token = p_token
+    AND revoked_at IS NULL
+    AND (expires_at IS NULL OR expires_at > now());
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_snapshot.previous_id IS NOT NULL THEN
+    SELECT * INTO v_previous
+    FROM public.workspace_snapshots
+    WHERE id = v_snapshot.previous_id
+      AND owner_id = v_snapshot.owner_id
+      AND workspace_key = v_snapshot.workspace_key
+      AND revoked_at IS NULL
+      AND (expires_at IS NULL OR expires_at > now());
+  END IF;
+
+  RETURN jsonb_build_object(
+    'title', v_snapshot.title,
+    'workspace_name', v_snapshot.workspace_name,
+    'root_hash', v_snapshot.root_hash,
+    'created_at', v_snapshot.created_at,
+    'expires_at', v_snapshot.expires_at,
+    'files', public.snapshot_files(v_snapshot.manifest),
+    'previous', CASE WHEN v_previous.id IS NULL THEN NULL ELSE jsonb_build_object(
+      'title', v_previous.title,
+      'created_at', v_previous.created_at,
+      'files', public.snapshot_files(v_previous.manifest)
+    ) END
+  );
+END;
+$$;
+
+-- Supabase grants EXECUTE to anon and authenticated by default; revoke those explicitly
+REVOKE EXECUTE ON FUNCTION public.snapshot_files(jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_shared_snapshot(text) TO anon, authenticated;
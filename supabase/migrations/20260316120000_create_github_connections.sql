@@ -0,0 +1,36 @@
+-- Create github_connections table so students can connect their GitHub account to the IDE
+-- Holds one GitHub token (personal access token or OAuth token) per user, with the account
+-- it belongs to and the scopes GitHub reported for it when it was connected. The token never
+-- goes back to the browser: rows are written by the github-connection edge function, which
+-- also makes GitHub API calls on the user's behalf. Owners can only read the other columns.
+CREATE TABLE IF NOT EXISTS public.github_connections (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  token text NOT NULL,
+  -- 'classic' or 'fine-grained' personal access token, or 'oauth'
+  token_type text NOT NULL DEFAULT 'classic' CHECK (token_type IN ('classic', 'fine-grained', 'oauth')),
+  github_login text NOT NULL,
+  avatar_url text,
+  scopes text[] NOT NULL DEFAULT '{}',
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now()
+);
+
+CREATE TRIGGER update_github_connections_updated_at
+BEFORE UPDATE ON public.github_connections
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE public.github_connections ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can inspect only their own GitHub connection
+CREATE POLICY "Users view own GitHub connection" ON public.github_connections
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+-- Clients get no writes and no token column; connecting and disconnecting go through the
+-- github-connection edge function (service role)
+REVOKE ALL ON public.github_connections FROM anon, authenticated;
+GRANT SELECT (id, user_id, token_type, github_login, avatar_url, scopes, created_at, updated_at)
+  ON public.github_connections TO authenticated;
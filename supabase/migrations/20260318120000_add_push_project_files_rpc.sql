@@ -0,0 +1,62 @@
+-- Push a batch of workspace changes in one call and one transaction.
+-- Each entry is { path, type, content, language, deleted, base_revision }. Entries without a
+-- base_revision are created at revision 1 unless the path already exists; the others are only
+-- written while the row is still at base_revision. Returns { path: revision } for the entries
+-- that were written; anything missing was changed by another device and shows up as a
+-- conflict on the next pull.
+-- Runs with the caller's rights, so the project_files policies still apply.
+CREATE OR REPLACE FUNCTION public.push_project_files(p_submission_id uuid, p_files jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_file jsonb;
+  v_base integer;
+  v_revision integer;
+  v_written jsonb := '{}'::jsonb;
+BEGIN
+  FOR v_file IN SELECT value FROM jsonb_array_elements(p_files)
+  LOOP
+    v_base := (v_file->>'base_revision')::integer;
+    v_revision := NULL;
+
+    IF v_base IS NULL THEN
+      INSERT INTO public.project_files (submission_id, path, type, content, language, deleted, revision, updated_by)
+      VALUES (
+        p_submission_id,
+        v_file->>'path',
+        COALESCE(v_file->>'type', 'file'),
+        v_file->>'content',
+        v_file->>'language',
+        COALESCE((v_file->>'deleted')::boolean, false),
+        1,
+        auth.uid()
+      )
+      ON CONFLICT (submission_id, path) DO NOTHING
+      RETURNING revision INTO v_revision;
+    ELSE
+      UPDATE public.project_files
+      SET type = COALESCE(v_file->>'type', 'file'),
+          content = v_file->>'content',
+          language = v_file->>'language',
+          deleted = COALESCE((v_file->>'deleted')::boolean, false),
+          revision = v_base + 1,
+          updated_by = auth.uid()
+      WHERE submission_id = p_submission_id
+        AND path = v_file->>'path'
+        AND revision = v_base
+      RETURNING revision INTO v_revision;
+    END IF;
+
+    IF v_revision IS NOT NULL THEN
+      v_written := v_written || jsonb_build_object(v_file->>'path', v_revision);
+    END IF;
+  END LOOP;
+
+  RETURN v_written;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.push_project_files(uuid, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.push_project_files(uuid, jsonb) TO authenticated;
@@ -0,0 +1,148 @@
+/**
+ * Test script for the sandbox worker's isolation (src/services/SandboxRunner.ts).
+ * Runs the worker runtime in a Node vm context standing in for the Web Worker and checks
+ * that a program cannot reach the runtime's internals (post, report, realFetch...) or
+ * re-enter the message handler to load internal modules.
+ *
+ * Run with: npx tsx test-sandbox-isolation.ts
+ */
+
+import { resolveObjectURL } from "node:buffer";
+import vm from "node:vm";
+import { runInSandbox } from "./src/services/SandboxRunner";
+import type { FileNode } from "./src/services/IDEFileSystem";
+
+type Handler = ((event: { data: unknown }) => void) | null;
+
+// Just enough of a dedicated worker: a global scope with postMessage, timers and fetch
+class VmWorker {
+  onmessage: Handler = null;
+  onerror: Handler = null;
+  private scope: Record<string, unknown>;
+  private queue: unknown[] = [];
+  private loaded = false;
+  private terminated = false;
+
+  constructor(url: string) {
+    this.scope = {
+      postMessage: (data: unknown) => setTimeout(() => !this.terminated && this.onmessage?.({ data: structuredClone(data) })),
+      fetch: () => Promise.reject(new Error("no network in tests")),
+      setTimeout,
+      clearTimeout,
+      setInterval,
+      clearInterval,
+      console,
+      close: () => undefined,
+      addEventListener: () => undefined,
+      onmessage: null,
+    };
+    this.scope.self = this.scope;
+    const context = vm.createContext(this.scope);
+
+    void resolveObjectURL(url)!
+      .text()
+      .then((source) => {
+        vm.runInContext(source, context);
+        this.loaded = true;
+        this.queue.forEach((data) => this.deliver(data));
+      });
+  }
+
+  private deliver(data: unknown) {
+    setTimeout(() => {
+      const handler = this.scope.onmessage as Handler;
+      if (!this.terminated) handler?.({ data: structuredClone(data) });
+    });
+  }
+
+  postMessage(data: unknown) {
+    if (this.loaded) this.deliver(data);
+    else this.queue.push(data);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+(globalThis as unknown as { Worker: typeof VmWorker }).Worker = VmWorker;
+
+const file = (path: string, content: string): FileNode => ({
+  id: path,
+  path,
+  name: path.split("/").pop() || path,
+  type: "file",
+  content,
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+});
+
+const runProgram = async (content: string) => {
+  const output: string[] = [];
+  const reports: unknown[] = [];
+  const run = runInSandbox({ "/main.js": file("/main.js", content) }, "/main.js", {
+    timeoutMs: 2000,
+    onOutput: (_stream, text) => output.push(text),
+    onReport: (data) => reports.push(data),
+  });
+  const result = await run.done;
+  return { output: output.join("\n"), reports, exitCode: result.exitCode };
+};
+
+const tests = [
+  {
+    name: "Test 1: Runtime internals are not visible to the program",
+    program: `console.log([typeof post, typeof report, typeof realFetch, typeof exit, typeof lock, typeof write].join(" "));`,
+    expectedOutput: "undefined undefined undefined undefined undefined undefined",
+  },
+  {
+    name: "Test 2: postMessage is locked",
+    program: `console.log(typeof self.postMessage, typeof postMessage);`,
+    expectedOutput: "undefined undefined",
+  },
+  {
+    name: "Test 3: The message handler cannot be re-entered to load an internal module",
+    program: `
+      const handler = self.onmessage;
+      console.log(String(handler));
+      if (handler) {
+        handler({ data: { entry: "/x.js", args: [], modules: { "/x.js": { code: "__report({ tests: [] })", deps: {}, internal: true } } } });
+      }
+    `,
+    expectedOutput: "null",
+  },
+  {
+    name: "Test 4: Programs still run normally",
+    program: `setTimeout(() => console.log("done", 1 + 1), 10);`,
+    expectedOutput: "done 2",
+  },
+];
+
+console.log("=".repeat(80));
+console.log("SANDBOX ISOLATION TEST");
+console.log("=".repeat(80));
+console.log();
+
+let passed = 0;
+let failed = 0;
+
+for (const test of tests) {
+  console.log(`📋 ${test.name}`);
+  const result = await runProgram(test.program);
+  if (result.output === test.expectedOutput && result.reports.length === 0) {
+    console.log("✅ PASSED");
+    passed++;
+  } else {
+    console.log("❌ FAILED");
+    console.log(`   Expected: ${JSON.stringify(test.expectedOutput)} with no reports`);
+    console.log(`   Got:      ${JSON.stringify(result.output)} with ${result.reports.length} report(s)`);
+    failed++;
+  }
+  console.log();
+}
+
+console.log("=".repeat(80));
+console.log(`RESULTS: ${passed} passed, ${failed} failed out of ${tests.length} tests`);
+console.log("=".repeat(80));
+
+if (failed > 0) process.exit(1);